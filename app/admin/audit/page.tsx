@@ -0,0 +1,368 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+
+interface AuditEntry {
+  id: string;
+  userId: string;
+  action: string;
+  resource: string;
+  result: "granted" | "denied" | "success" | "failure";
+  timestamp: string;
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: Record<string, unknown>;
+}
+
+interface Pagination {
+  page: number;
+  perPage: number;
+  total?: number;
+  hasMore?: boolean;
+}
+
+interface Filters {
+  userId: string;
+  action: string;
+  resource: string;
+  result: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = {
+  userId: "",
+  action: "",
+  resource: "",
+  result: "",
+  from: "",
+  to: "",
+};
+
+const PER_PAGE = 50;
+
+const resultStyles: Record<AuditEntry["result"], string> = {
+  granted:
+    "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400",
+  success:
+    "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400",
+  denied: "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400",
+  failure: "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400",
+};
+
+// Build query string from filters (dates are sent as ISO timestamps)
+function buildQuery(filters: Filters, extra: Record<string, string> = {}) {
+  const params = new URLSearchParams();
+  if (filters.userId) params.set("userId", filters.userId);
+  if (filters.action) params.set("action", filters.action);
+  if (filters.resource) params.set("resource", filters.resource);
+  if (filters.result) params.set("result", filters.result);
+  if (filters.from) params.set("from", new Date(filters.from).toISOString());
+  if (filters.to) params.set("to", new Date(filters.to).toISOString());
+  for (const [key, value] of Object.entries(extra)) {
+    params.set(key, value);
+  }
+  return params.toString();
+}
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(EMPTY_FILTERS);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(
+        `/api/admin/audit?${buildQuery(appliedFilters, {
+          page: String(page),
+          per_page: String(PER_PAGE),
+        })}`,
+      );
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch audit log");
+      }
+      const result = await response.json();
+      setEntries(Array.isArray(result.data) ? result.data : []);
+      setPagination(result.pagination || null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFilters, page]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(0);
+    setAppliedFilters(filters);
+  };
+
+  const resetFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+    setPage(0);
+  };
+
+  // Group entries by day for the timeline
+  const groups = entries.reduce<{ day: string; entries: AuditEntry[] }[]>(
+    (acc, entry) => {
+      const day = new Date(entry.timestamp).toLocaleDateString();
+      const last = acc[acc.length - 1];
+      if (last && last.day === day) {
+        last.entries.push(entry);
+      } else {
+        acc.push({ day, entries: [entry] });
+      }
+      return acc;
+    },
+    [],
+  );
+
+  const inputClassName =
+    "w-full px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100";
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50 mb-2">
+            Audit Log
+          </h2>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            Security-relevant events across the platform
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <a
+            href={`/api/admin/audit?${buildQuery(appliedFilters, { format: "csv" })}`}
+            className="px-4 py-2 border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors text-sm"
+          >
+            Export CSV
+          </a>
+          <a
+            href={`/api/admin/audit?${buildQuery(appliedFilters, { format: "json" })}`}
+            className="px-4 py-2 border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors text-sm"
+          >
+            Export JSON
+          </a>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <form
+        onSubmit={applyFilters}
+        className="mb-6 bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-4"
+      >
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <input
+            type="text"
+            placeholder="User ID"
+            value={filters.userId}
+            onChange={(e) => setFilters({ ...filters, userId: e.target.value })}
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            placeholder="Action (e.g. promote_global_admin)"
+            value={filters.action}
+            onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            placeholder="Resource prefix (e.g. Organization:)"
+            value={filters.resource}
+            onChange={(e) =>
+              setFilters({ ...filters, resource: e.target.value })
+            }
+            className={inputClassName}
+          />
+          <select
+            value={filters.result}
+            onChange={(e) => setFilters({ ...filters, result: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Any result</option>
+            <option value="granted">Granted</option>
+            <option value="denied">Denied</option>
+            <option value="success">Success</option>
+            <option value="failure">Failure</option>
+          </select>
+          <input
+            type="datetime-local"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className={inputClassName}
+            aria-label="From"
+          />
+          <input
+            type="datetime-local"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className={inputClassName}
+            aria-label="To"
+          />
+        </div>
+        <div className="mt-4 flex items-center gap-2">
+          <button
+            type="submit"
+            className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm"
+          >
+            Apply Filters
+          </button>
+          <button
+            type="button"
+            onClick={resetFilters}
+            className="px-4 py-2 text-sm text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-50"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {/* Timeline */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <div className="w-12 h-12 border-4 border-zinc-200 dark:border-zinc-700 border-t-zinc-900 dark:border-t-zinc-100 rounded-full animate-spin mx-auto mb-4"></div>
+            <p className="text-zinc-600 dark:text-zinc-400">
+              Loading audit log...
+            </p>
+          </div>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 px-6 py-12 text-center text-zinc-500 dark:text-zinc-400">
+          No audit events found
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {groups.map((group) => (
+            <div key={group.day}>
+              <h3 className="text-sm font-semibold text-zinc-500 dark:text-zinc-400 uppercase tracking-wider mb-4">
+                {group.day}
+              </h3>
+              <ol className="relative border-l border-zinc-200 dark:border-zinc-800 ml-2 space-y-4">
+                {group.entries.map((entry) => {
+                  const isHighCriticality =
+                    entry.metadata?.criticality === "high";
+
+                  return (
+                    <li key={entry.id} className="ml-6">
+                      <span
+                        className={`absolute -left-1.5 mt-2 w-3 h-3 rounded-full border-2 border-white dark:border-black ${
+                          isHighCriticality
+                            ? "bg-red-600"
+                            : "bg-zinc-400 dark:bg-zinc-600"
+                        }`}
+                      />
+                      <div
+                        className={`p-4 rounded-lg border ${
+                          isHighCriticality
+                            ? "bg-red-50 dark:bg-red-900/20 border-red-300 dark:border-red-800"
+                            : "bg-white dark:bg-zinc-900 border-zinc-200 dark:border-zinc-800"
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-4">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium text-zinc-900 dark:text-zinc-50">
+                              {entry.action}
+                            </span>
+                            <span
+                              className={`px-2 py-0.5 text-xs font-semibold rounded-full ${resultStyles[entry.result]}`}
+                            >
+                              {entry.result}
+                            </span>
+                            {isHighCriticality && (
+                              <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-red-600 text-white">
+                                High criticality
+                              </span>
+                            )}
+                          </div>
+                          <time className="text-xs text-zinc-500 dark:text-zinc-400">
+                            {new Date(entry.timestamp).toLocaleTimeString()}
+                          </time>
+                        </div>
+                        <p className="mt-1 text-sm font-mono text-zinc-600 dark:text-zinc-400 break-all">
+                          {entry.resource}
+                        </p>
+                        <div className="mt-2 flex flex-wrap items-center gap-4 text-xs text-zinc-500 dark:text-zinc-400">
+                          <span>
+                            By{" "}
+                            <Link
+                              href={`/admin/identities/${entry.userId}`}
+                              className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              {entry.userId}
+                            </Link>
+                          </span>
+                          {entry.ipAddress && <span>IP {entry.ipAddress}</span>}
+                        </div>
+                        {entry.metadata &&
+                          Object.keys(entry.metadata).length > 0 && (
+                            <details className="mt-2">
+                              <summary className="text-xs text-zinc-500 dark:text-zinc-400 cursor-pointer">
+                                Details
+                              </summary>
+                              <pre className="mt-2 p-2 text-xs bg-zinc-50 dark:bg-zinc-800 rounded overflow-x-auto text-zinc-700 dark:text-zinc-300">
+                                {JSON.stringify(entry.metadata, null, 2)}
+                              </pre>
+                            </details>
+                          )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {pagination && (
+        <div className="mt-6 flex items-center justify-between text-sm text-zinc-600 dark:text-zinc-400">
+          <span>
+            Page {pagination.page + 1}
+            {pagination.total !== undefined &&
+              ` of ${Math.max(Math.ceil(pagination.total / pagination.perPage), 1)} (${pagination.total} events)`}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage((p) => Math.max(p - 1, 0))}
+              disabled={page === 0 || loading}
+              className="px-3 py-1.5 border border-zinc-300 dark:border-zinc-700 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              disabled={!pagination.hasMore || loading}
+              className="px-3 py-1.5 border border-zinc-300 dark:border-zinc-700 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
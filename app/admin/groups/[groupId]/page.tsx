@@ -0,0 +1,420 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+
+interface Grant {
+  namespace: string;
+  object: string;
+  relation: string;
+  subject: string;
+}
+
+interface GroupDetail {
+  id: string;
+  members: string[];
+  subgroups: string[];
+  parents: string[];
+  grants: Grant[];
+}
+
+// Common roles offered in the grant form
+const GRANT_PRESETS: { label: string; grant: Omit<Grant, "subject"> }[] = [
+  {
+    label: "Global admin",
+    grant: { namespace: "GlobalRole", object: "admin", relation: "members" },
+  },
+  {
+    label: "Organization member",
+    grant: { namespace: "Organization", object: "", relation: "members" },
+  },
+  {
+    label: "Organization viewer",
+    grant: { namespace: "Organization", object: "", relation: "viewers" },
+  },
+];
+
+const inputClassName =
+  "px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100";
+
+export default function GroupDetailPage() {
+  const params = useParams();
+  const groupId =
+    typeof params?.groupId === "string" ? params.groupId : undefined;
+
+  const [group, setGroup] = useState<GroupDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [newMember, setNewMember] = useState<{
+    type: "userId" | "groupId";
+    value: string;
+  }>({ type: "userId", value: "" });
+  const [newGrant, setNewGrant] = useState<Omit<Grant, "subject">>(
+    GRANT_PRESETS[0].grant,
+  );
+
+  const subject = `Group:${groupId}#members`;
+
+  const fetchGroup = useCallback(async () => {
+    if (!groupId) return;
+
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/admin/groups/${groupId}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch group");
+      }
+      const result = await response.json();
+      // API wraps response in { data, status }
+      setGroup(result.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    fetchGroup();
+  }, [fetchGroup]);
+
+  // Run a mutation, then reload the group
+  const mutate = async (url: string, init: RequestInit) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Request failed");
+      }
+
+      await fetchGroup();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = await mutate(`/api/admin/groups/${groupId}/members`, {
+      method: "POST",
+      body: JSON.stringify({ [newMember.type]: newMember.value.trim() }),
+    });
+    if (added) {
+      setNewMember({ ...newMember, value: "" });
+    }
+  };
+
+  const removeMember = (type: "userId" | "groupId", value: string) => {
+    if (!confirm(`Remove ${value} from ${groupId}?`)) return;
+    mutate(
+      `/api/admin/groups/${groupId}/members?${type}=${encodeURIComponent(value)}`,
+      { method: "DELETE" },
+    );
+  };
+
+  const handleGrant = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutate("/api/admin/permissions", {
+      method: "POST",
+      body: JSON.stringify({ ...newGrant, subject }),
+    });
+  };
+
+  const revokeGrant = (grant: Grant) => {
+    if (
+      !confirm(
+        `Revoke ${grant.namespace}:${grant.object}#${grant.relation} from ${groupId}?`,
+      )
+    ) {
+      return;
+    }
+    const query = new URLSearchParams({
+      namespace: grant.namespace,
+      object: grant.object,
+      relation: grant.relation,
+      subject,
+    });
+    mutate(`/api/admin/permissions?${query}`, { method: "DELETE" });
+  };
+
+  if (loading && !group) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="w-12 h-12 border-4 border-zinc-200 dark:border-zinc-700 border-t-zinc-900 dark:border-t-zinc-100 rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-zinc-600 dark:text-zinc-400">Loading group...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+        <p className="text-red-800 dark:text-red-200">
+          {error || "Group not found"}
+        </p>
+        <Link
+          href="/admin/groups"
+          className="mt-2 inline-block text-sm text-red-600 dark:text-red-400 hover:underline"
+        >
+          Back to groups
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8">
+        <Link
+          href="/admin/groups"
+          className="text-sm text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-50"
+        >
+          ← Back to groups
+        </Link>
+        <h2 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50 mt-2 mb-2 font-mono">
+          {group.id}
+        </h2>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          Subject set{" "}
+          <code className="font-mono text-sm">{subject}</code>
+          {group.parents.length > 0 && (
+            <>
+              {" "}
+              · member of{" "}
+              {group.parents.map((parent, index) => (
+                <span key={parent}>
+                  {index > 0 && ", "}
+                  <Link
+                    href={`/admin/groups/${parent}`}
+                    className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {parent}
+                  </Link>
+                </span>
+              ))}
+            </>
+          )}
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Members */}
+        <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6">
+          <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+            Members
+          </h3>
+
+          <form onSubmit={handleAddMember} className="flex gap-2 mb-6">
+            <select
+              value={newMember.type}
+              onChange={(e) =>
+                setNewMember({
+                  ...newMember,
+                  type: e.target.value as "userId" | "groupId",
+                })
+              }
+              className={inputClassName}
+            >
+              <option value="userId">User</option>
+              <option value="groupId">Group</option>
+            </select>
+            <input
+              type="text"
+              required
+              placeholder={newMember.type === "userId" ? "User ID" : "Group ID"}
+              value={newMember.value}
+              onChange={(e) =>
+                setNewMember({ ...newMember, value: e.target.value })
+              }
+              className={`flex-1 ${inputClassName}`}
+            />
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm disabled:opacity-50"
+            >
+              Add
+            </button>
+          </form>
+
+          <h4 className="text-sm font-semibold text-zinc-900 dark:text-zinc-50 mb-2">
+            Users ({group.members.length})
+          </h4>
+          {group.members.length === 0 ? (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-6">
+              No direct members
+            </p>
+          ) : (
+            <ul className="mb-6 divide-y divide-zinc-200 dark:divide-zinc-800 border border-zinc-200 dark:border-zinc-800 rounded-lg">
+              {group.members.map((userId) => (
+                <li
+                  key={userId}
+                  className="flex items-center justify-between gap-4 px-4 py-2"
+                >
+                  <Link
+                    href={`/admin/identities/${userId}`}
+                    className="text-sm font-mono text-blue-600 dark:text-blue-400 hover:underline break-all"
+                  >
+                    {userId}
+                  </Link>
+                  <button
+                    onClick={() => removeMember("userId", userId)}
+                    disabled={saving}
+                    className="text-xs text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <h4 className="text-sm font-semibold text-zinc-900 dark:text-zinc-50 mb-2">
+            Nested Groups ({group.subgroups.length})
+          </h4>
+          {group.subgroups.length === 0 ? (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">
+              No nested groups
+            </p>
+          ) : (
+            <ul className="divide-y divide-zinc-200 dark:divide-zinc-800 border border-zinc-200 dark:border-zinc-800 rounded-lg">
+              {group.subgroups.map((subgroupId) => (
+                <li
+                  key={subgroupId}
+                  className="flex items-center justify-between gap-4 px-4 py-2"
+                >
+                  <Link
+                    href={`/admin/groups/${subgroupId}`}
+                    className="text-sm font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {subgroupId}
+                  </Link>
+                  <button
+                    onClick={() => removeMember("groupId", subgroupId)}
+                    disabled={saving}
+                    className="text-xs text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Grants */}
+        <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6 h-fit">
+          <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+            Granted Roles
+          </h3>
+
+          <form onSubmit={handleGrant} className="space-y-2 mb-6">
+            <div className="flex flex-wrap gap-2">
+              {GRANT_PRESETS.map((preset) => (
+                <button
+                  key={preset.label}
+                  type="button"
+                  onClick={() => setNewGrant(preset.grant)}
+                  className="px-2 py-1 text-xs border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <input
+                type="text"
+                required
+                placeholder="Namespace"
+                value={newGrant.namespace}
+                onChange={(e) =>
+                  setNewGrant({ ...newGrant, namespace: e.target.value })
+                }
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                required
+                placeholder="Object"
+                value={newGrant.object}
+                onChange={(e) =>
+                  setNewGrant({ ...newGrant, object: e.target.value })
+                }
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                required
+                placeholder="Relation"
+                value={newGrant.relation}
+                onChange={(e) =>
+                  setNewGrant({ ...newGrant, relation: e.target.value })
+                }
+                className={inputClassName}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm disabled:opacity-50"
+            >
+              Grant to Group
+            </button>
+          </form>
+
+          {group.grants.length === 0 ? (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">
+              No roles granted to this group
+            </p>
+          ) : (
+            <ul className="divide-y divide-zinc-200 dark:divide-zinc-800 border border-zinc-200 dark:border-zinc-800 rounded-lg">
+              {group.grants.map((grant) => (
+                <li
+                  key={`${grant.namespace}:${grant.object}#${grant.relation}`}
+                  className="flex items-center justify-between gap-4 px-4 py-2"
+                >
+                  <span className="text-sm font-mono text-zinc-900 dark:text-zinc-50 break-all">
+                    {grant.namespace}:{grant.object}#{grant.relation}
+                  </span>
+                  <button
+                    onClick={() => revokeGrant(grant)}
+                    disabled={saving}
+                    className="text-xs text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300 disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
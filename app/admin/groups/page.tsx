@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+interface Group {
+  id: string;
+  members: string[];
+  subgroups: string[];
+}
+
+export default function GroupsPage() {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({ id: "", userId: "" });
+
+  useEffect(() => {
+    fetchGroups();
+  }, []);
+
+  const fetchGroups = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/admin/groups");
+      if (!response.ok) {
+        throw new Error("Failed to fetch groups");
+      }
+      const result = await response.json();
+      // API wraps response in { data, status }
+      setGroups(Array.isArray(result.data) ? result.data : []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setFormError(null);
+
+    try {
+      const response = await fetch("/api/admin/groups", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          id: formData.id.trim(),
+          userId: formData.userId.trim(),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to create group");
+      }
+
+      setFormData({ id: "", userId: "" });
+      fetchGroups();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const deleteGroup = async (id: string) => {
+    if (
+      !confirm(
+        `Delete group ${id}? Its members lose every permission granted to the group.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/groups/${id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to delete group");
+      }
+
+      fetchGroups();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to delete group");
+    }
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50 mb-2">
+          Groups
+        </h2>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          Grant roles to groups instead of individual users
+        </p>
+      </div>
+
+      {/* Create Group */}
+      <form
+        onSubmit={handleCreate}
+        className="mb-8 bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6"
+      >
+        <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+          Create Group
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-zinc-900 dark:text-zinc-50 mb-2">
+              Group ID
+            </label>
+            <input
+              type="text"
+              required
+              value={formData.id}
+              onChange={(e) => setFormData({ ...formData, id: e.target.value })}
+              className="w-full px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 font-mono focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100"
+              placeholder="engineering"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zinc-900 dark:text-zinc-50 mb-2">
+              First Member (User ID)
+            </label>
+            <input
+              type="text"
+              required
+              value={formData.userId}
+              onChange={(e) =>
+                setFormData({ ...formData, userId: e.target.value })
+              }
+              className="w-full px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 font-mono focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100"
+            />
+          </div>
+        </div>
+        {formError && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400">
+            {formError}
+          </p>
+        )}
+        <div className="mt-4">
+          <button
+            type="submit"
+            disabled={creating}
+            className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50"
+          >
+            {creating ? "Creating..." : "Create Group"}
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+          <button
+            onClick={fetchGroups}
+            className="mt-2 text-sm text-red-600 dark:text-red-400 hover:underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-zinc-50 dark:bg-zinc-800 border-b border-zinc-200 dark:border-zinc-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                  Group
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                  Members
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                  Nested Groups
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800">
+              {loading ? (
+                <tr>
+                  <td
+                    colSpan={4}
+                    className="px-6 py-12 text-center text-zinc-500 dark:text-zinc-400"
+                  >
+                    Loading groups...
+                  </td>
+                </tr>
+              ) : groups.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={4}
+                    className="px-6 py-12 text-center text-zinc-500 dark:text-zinc-400"
+                  >
+                    No groups found
+                  </td>
+                </tr>
+              ) : (
+                groups.map((group) => (
+                  <tr
+                    key={group.id}
+                    className="hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono font-medium text-zinc-900 dark:text-zinc-50">
+                      {group.id}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-zinc-600 dark:text-zinc-400">
+                      {group.members.length}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-zinc-600 dark:text-zinc-400">
+                      {group.subgroups.length > 0
+                        ? group.subgroups.join(", ")
+                        : "—"}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex items-center justify-end gap-2">
+                        <Link
+                          href={`/admin/groups/${group.id}`}
+                          className="text-blue-600 dark:text-blue-400 hover:text-blue-900 dark:hover:text-blue-300"
+                        >
+                          View
+                        </Link>
+                        <button
+                          onClick={() => deleteGroup(group.id)}
+                          className="text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useRouter, useParams } from "next/navigation";
+import { useParams } from "next/navigation";
 import Link from "next/link";
+import IdentityPicker from "@/components/identity-picker";
 
 interface Identity {
   id: string;
@@ -15,12 +16,35 @@ interface Identity {
     };
   };
   state: string;
+  // Lifecycle dates (ISO) set by admins, and when the job applied them
+  metadata_admin?: {
+    deactivate_at?: string;
+    expires_at?: string;
+    deactivated_at?: string;
+    offboarded_at?: string;
+  };
   created_at: string;
   updated_at: string;
 }
 
+interface OffboardingReport {
+  transferredOrganizations: string[];
+  removedPermissions: string[];
+}
+
+// ISO date-time to a datetime-local input value (local time)
+function toLocalInput(iso: string | undefined): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
 export default function IdentityDetailPage() {
-  const router = useRouter();
   const params = useParams();
   // Handle params.id being string or string[] or undefined
   const id =
@@ -39,6 +63,16 @@ export default function IdentityDetailPage() {
     firstName: "",
     lastName: "",
   });
+  const [lifecycle, setLifecycle] = useState({
+    deactivateAt: "",
+    expiresAt: "",
+  });
+  const [savingLifecycle, setSavingLifecycle] = useState(false);
+  // Delete offboards: sessions and permissions go, owned orgs can move
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [transferTo, setTransferTo] = useState("");
+  const [deleting, setDeleting] = useState(false);
+  const [report, setReport] = useState<OffboardingReport | null>(null);
 
   useEffect(() => {
     if (id) {
@@ -68,6 +102,10 @@ export default function IdentityDetailPage() {
         firstName: data.traits?.name?.first || "",
         lastName: data.traits?.name?.last || "",
       });
+      setLifecycle({
+        deactivateAt: toLocalInput(data.metadata_admin?.deactivate_at),
+        expiresAt: toLocalInput(data.metadata_admin?.expires_at),
+      });
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
@@ -123,28 +161,67 @@ export default function IdentityDetailPage() {
     }
   };
 
+  const handleLifecycleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id) return;
+
+    setSavingLifecycle(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/identities/${id}/lifecycle`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          deactivateAt: fromLocalInput(lifecycle.deactivateAt),
+          expiresAt: fromLocalInput(lifecycle.expiresAt),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to save dates");
+      }
+
+      const result = await response.json();
+      setIdentity(result.data || result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setSavingLifecycle(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (!id) {
       alert("Invalid identity ID");
       return;
     }
 
-    if (!confirm("Are you sure you want to delete this identity?")) {
-      return;
-    }
-
+    setDeleting(true);
+    setError(null);
     try {
-      const response = await fetch(`/api/admin/identities/${id}`, {
+      const params = new URLSearchParams();
+      if (transferTo.trim()) {
+        params.set("transferOwnershipTo", transferTo.trim());
+      }
+      const response = await fetch(`/api/admin/identities/${id}?${params}`, {
         method: "DELETE",
       });
 
+      const result = await response.json();
       if (!response.ok) {
-        throw new Error("Failed to delete identity");
+        throw new Error(result.error || "Failed to delete identity");
       }
 
-      router.push("/admin/identities");
+      setReport(result.data.report);
     } catch (err) {
-      alert(err instanceof Error ? err.message : "Failed to delete identity");
+      setError(
+        err instanceof Error ? err.message : "Failed to delete identity",
+      );
+    } finally {
+      setDeleting(false);
     }
   };
 
@@ -194,6 +271,56 @@ export default function IdentityDetailPage() {
     return null;
   }
 
+  if (report) {
+    return (
+      <div className="max-w-3xl">
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50 mb-2">
+            Identity Deleted
+          </h2>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            {identity.traits.email || identity.id} was signed out, removed
+            from everything below and deleted.
+          </p>
+        </div>
+        <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6 space-y-4">
+          <div>
+            <h3 className="text-sm font-medium text-zinc-500 dark:text-zinc-400 mb-2">
+              Removed permissions ({report.removedPermissions.length})
+            </h3>
+            {report.removedPermissions.length === 0 ? (
+              <p className="text-sm text-zinc-700 dark:text-zinc-300">None</p>
+            ) : (
+              <ul className="text-sm font-mono text-zinc-900 dark:text-zinc-50 space-y-1">
+                {report.removedPermissions.map((permission) => (
+                  <li key={permission}>{permission}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+          {report.transferredOrganizations.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-zinc-500 dark:text-zinc-400 mb-2">
+                Ownership transferred
+              </h3>
+              <p className="text-sm text-zinc-900 dark:text-zinc-50">
+                {report.transferredOrganizations.join(", ")}
+              </p>
+            </div>
+          )}
+        </div>
+        <div className="mt-6">
+          <Link
+            href="/admin/identities"
+            className="text-sm text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-50"
+          >
+            ← Back to all identities
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-3xl">
       {/* Header */}
@@ -216,7 +343,7 @@ export default function IdentityDetailPage() {
                 Edit
               </button>
               <button
-                onClick={handleDelete}
+                onClick={() => setConfirmingDelete(true)}
                 className="px-4 py-2 border border-red-600 text-red-600 dark:border-red-400 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
               >
                 Delete
@@ -232,6 +359,47 @@ export default function IdentityDetailPage() {
         </div>
       )}
 
+      {confirmingDelete && (
+        <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-red-800 dark:text-red-200">
+              Delete this identity?
+            </h3>
+            <p className="text-sm text-red-700 dark:text-red-300">
+              All sessions are revoked and every role, group and organization
+              membership is removed before the identity is deleted.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zinc-900 dark:text-zinc-50 mb-2">
+              Transfer owned organizations to (required if they are the only
+              owner)
+            </label>
+            <IdentityPicker
+              placeholder="Search for the new owner"
+              value={transferTo}
+              onChange={setTransferTo}
+              className="w-full px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100"
+            />
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={handleDelete}
+              disabled={deleting}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm disabled:opacity-50"
+            >
+              {deleting ? "Deleting..." : "Delete identity"}
+            </button>
+            <button
+              onClick={() => setConfirmingDelete(false)}
+              className="text-sm text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {editing ? (
         <form onSubmit={handleUpdate} className="space-y-6">
           <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6">
@@ -401,6 +569,90 @@ export default function IdentityDetailPage() {
               </div>
             </dl>
           </div>
+
+          <form
+            onSubmit={handleLifecycleSave}
+            className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6"
+          >
+            <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-1">
+              Access Lifecycle
+            </h3>
+            <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-4">
+              On the deactivation date the identity is set inactive and
+              signed out. On the expiry date it is also removed from every
+              role, group and organization.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label
+                  htmlFor="deactivateAt"
+                  className="block text-sm font-medium text-zinc-900 dark:text-zinc-50 mb-2"
+                >
+                  Deactivate at
+                </label>
+                <input
+                  type="datetime-local"
+                  id="deactivateAt"
+                  value={lifecycle.deactivateAt}
+                  onChange={(e) =>
+                    setLifecycle({ ...lifecycle, deactivateAt: e.target.value })
+                  }
+                  className="w-full px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100"
+                />
+                {identity.metadata_admin?.deactivated_at && (
+                  <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                    Deactivated{" "}
+                    {new Date(
+                      identity.metadata_admin.deactivated_at,
+                    ).toLocaleString()}
+                  </p>
+                )}
+              </div>
+              <div>
+                <label
+                  htmlFor="expiresAt"
+                  className="block text-sm font-medium text-zinc-900 dark:text-zinc-50 mb-2"
+                >
+                  Expires at
+                </label>
+                <input
+                  type="datetime-local"
+                  id="expiresAt"
+                  value={lifecycle.expiresAt}
+                  onChange={(e) =>
+                    setLifecycle({ ...lifecycle, expiresAt: e.target.value })
+                  }
+                  className="w-full px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100"
+                />
+                {identity.metadata_admin?.offboarded_at && (
+                  <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                    Offboarded{" "}
+                    {new Date(
+                      identity.metadata_admin.offboarded_at,
+                    ).toLocaleString()}
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="mt-4 flex items-center gap-4">
+              <button
+                type="submit"
+                disabled={savingLifecycle}
+                className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm disabled:opacity-50"
+              >
+                {savingLifecycle ? "Saving..." : "Save Dates"}
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  setLifecycle({ deactivateAt: "", expiresAt: "" })
+                }
+                className="text-sm text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-50"
+              >
+                Clear both
+              </button>
+            </div>
+          </form>
         </div>
       )}
 
@@ -0,0 +1,227 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+
+interface ExpiringIdentity {
+  identity: {
+    id: string;
+    state: string;
+    traits: {
+      email?: string;
+    };
+  };
+  lifecycle: {
+    offboardBlocked?: string;
+  };
+  dueAt: string;
+  action: "deactivate" | "offboard";
+  overdue: boolean;
+}
+
+interface LifecycleRun {
+  checked: number;
+  deactivated: string[];
+  offboarded: string[];
+  blocked: string[];
+  failed: { identityId: string; error: string }[];
+}
+
+const WINDOWS = [7, 14, 30, 90];
+
+const inputClassName =
+  "px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100";
+
+const headerClassName =
+  "px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider";
+
+export default function ExpiringIdentitiesPage() {
+  const [days, setDays] = useState(14);
+  const [expiring, setExpiring] = useState<ExpiringIdentity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [run, setRun] = useState<LifecycleRun | null>(null);
+
+  const fetchExpiring = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(
+        `/api/admin/identities/lifecycle?days=${days}`,
+      );
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch identities");
+      }
+
+      const result = await response.json();
+      setExpiring(Array.isArray(result.data) ? result.data : []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchExpiring();
+  }, [fetchExpiring]);
+
+  // Apply overdue dates now instead of waiting for the scheduler
+  const runNow = async () => {
+    setRunning(true);
+    setRun(null);
+    try {
+      const response = await fetch("/api/admin/identities/lifecycle", {
+        method: "POST",
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Lifecycle run failed");
+      }
+      setRun(result.data);
+      fetchExpiring();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50 mb-2">
+            Expiring Soon
+          </h2>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            Identities with a deactivation or expiry date coming up
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className={inputClassName}
+          >
+            {WINDOWS.map((windowDays) => (
+              <option key={windowDays} value={windowDays}>
+                Next {windowDays} days
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={runNow}
+            disabled={running}
+            className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm disabled:opacity-50"
+          >
+            {running ? "Running..." : "Apply overdue now"}
+          </button>
+          <Link
+            href="/admin/identities"
+            className="px-4 py-2 border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors text-sm"
+          >
+            Back to Identities
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {run && (
+        <div className="mb-4 text-sm text-zinc-700 dark:text-zinc-300">
+          Checked {run.checked} identities: {run.deactivated.length}{" "}
+          deactivated, {run.offboarded.length} offboarded
+          {run.blocked.length > 0 &&
+            `, ${run.blocked.length} need ownership handed over`}
+          {run.failed.length > 0 && `, ${run.failed.length} failed`}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-zinc-50 dark:bg-zinc-800 border-b border-zinc-200 dark:border-zinc-700">
+              <tr>
+                <th className={headerClassName}>Email</th>
+                <th className={headerClassName}>Happens</th>
+                <th className={headerClassName}>Due</th>
+                <th className={headerClassName}>State</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800">
+              {loading ? (
+                <tr>
+                  <td
+                    colSpan={4}
+                    className="px-6 py-12 text-center text-zinc-500 dark:text-zinc-400"
+                  >
+                    Loading identities...
+                  </td>
+                </tr>
+              ) : expiring.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={4}
+                    className="px-6 py-12 text-center text-zinc-500 dark:text-zinc-400"
+                  >
+                    Nothing due in the next {days} days
+                  </td>
+                </tr>
+              ) : (
+                expiring.map((item) => (
+                  <tr
+                    key={item.identity.id}
+                    className="hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Link
+                        href={`/admin/identities/${item.identity.id}`}
+                        className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        {item.identity.traits.email || item.identity.id}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-zinc-700 dark:text-zinc-300">
+                      {item.action === "offboard"
+                        ? "Expires (offboarded)"
+                        : "Deactivated"}
+                      {item.action === "offboard" &&
+                        item.lifecycle.offboardBlocked && (
+                          <span className="block text-xs text-amber-600 dark:text-amber-400">
+                            Blocked: {item.lifecycle.offboardBlocked}
+                          </span>
+                        )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span
+                        className={
+                          item.overdue
+                            ? "text-red-600 dark:text-red-400 font-medium"
+                            : "text-zinc-700 dark:text-zinc-300"
+                        }
+                      >
+                        {new Date(item.dueAt).toLocaleString()}
+                        {item.overdue && " (overdue)"}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-zinc-500 dark:text-zinc-400">
+                      {item.identity.state}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
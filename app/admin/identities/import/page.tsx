@@ -0,0 +1,270 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+
+type ImportFormat = "csv" | "jsonl";
+
+interface ImportResult {
+  type: "result";
+  row: number;
+  status: "created" | "valid" | "failed";
+  email?: string;
+  identityId?: string;
+  error?: string;
+}
+
+interface ImportSummary {
+  type: "summary";
+  dryRun: boolean;
+  total: number;
+  created: number;
+  valid: number;
+  failed: number;
+}
+
+type ImportEvent =
+  | ImportResult
+  | ImportSummary
+  | { type: "error"; error: string };
+
+const CSV_EXAMPLE = `email,first_name,last_name,org,role
+ada@example.com,Ada,Lovelace,acme,admins
+alan@example.com,Alan,Turing,acme,members`;
+
+const JSONL_EXAMPLE = `{"email":"ada@example.com","first_name":"Ada","org":"acme","role":"admins"}
+{"traits":{"email":"alan@example.com","name":{"first":"Alan"}},"metadata_public":{"department":"R&D"}}`;
+
+const inputClassName =
+  "px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100";
+
+const STATUS_CLASSNAMES: Record<ImportResult["status"], string> = {
+  created:
+    "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400",
+  valid: "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400",
+};
+
+export default function ImportIdentitiesPage() {
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [content, setContent] = useState("");
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFormat(file.name.toLowerCase().endsWith(".csv") ? "csv" : "jsonl");
+    setContent(await file.text());
+  };
+
+  const handleEvent = (event: ImportEvent) => {
+    if (event.type === "result") {
+      setResults((previous) => [...previous, event]);
+    } else if (event.type === "summary") {
+      setSummary(event);
+    } else {
+      setError(event.error);
+    }
+  };
+
+  // Results arrive as JSON Lines while the import runs
+  const runImport = async (dryRun: boolean) => {
+    setRunning(true);
+    setError(null);
+    setResults([]);
+    setSummary(null);
+
+    try {
+      const params = new URLSearchParams({ format });
+      if (dryRun) params.set("dryRun", "true");
+      const response = await fetch(`/api/admin/identities/import?${params}`, {
+        method: "POST",
+        headers: {
+          "Content-Type":
+            format === "csv" ? "text/csv" : "application/x-ndjson",
+        },
+        body: content,
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Import failed");
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = "";
+      for (;;) {
+        const { value, done } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+        const lines = buffered.split("\n");
+        buffered = done ? "" : lines.pop() || "";
+        for (const line of lines) {
+          if (line.trim()) handleEvent(JSON.parse(line));
+        }
+        if (done) break;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50 mb-2">
+            Import Identities
+          </h2>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            Create many users at once from CSV or JSON Lines
+          </p>
+        </div>
+        <Link
+          href="/admin/identities"
+          className="px-4 py-2 border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors text-sm"
+        >
+          Back to Identities
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {/* Upload */}
+      <div className="mb-6 bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ImportFormat)}
+            className={inputClassName}
+          >
+            <option value="csv">CSV</option>
+            <option value="jsonl">JSON Lines</option>
+          </select>
+          <input
+            type="file"
+            accept=".csv,.jsonl,.ndjson,text/csv,application/x-ndjson"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="text-sm text-zinc-600 dark:text-zinc-400"
+          />
+        </div>
+        <textarea
+          rows={10}
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder={format === "csv" ? CSV_EXAMPLE : JSONL_EXAMPLE}
+          className={`w-full font-mono ${inputClassName}`}
+        />
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          Columns / keys: email, first_name, last_name, schema_id, state,
+          password, hashed_password, org, role (owners, admins, members,
+          viewers; default members), traits.* and metadata_public.*
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={() => runImport(true)}
+            disabled={running || !content.trim()}
+            className="px-4 py-2 border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors text-sm disabled:opacity-50"
+          >
+            Validate (dry run)
+          </button>
+          <button
+            onClick={() => runImport(false)}
+            disabled={running || !content.trim()}
+            className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm disabled:opacity-50"
+          >
+            {running ? "Importing..." : "Import"}
+          </button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      {summary && (
+        <div className="mb-4 text-sm text-zinc-700 dark:text-zinc-300">
+          {summary.dryRun
+            ? `Dry run: ${summary.valid} of ${summary.total} rows valid, ${summary.failed} with problems`
+            : `${summary.created} of ${summary.total} identities created, ${summary.failed} failed`}
+        </div>
+      )}
+
+      {/* Results */}
+      {(running || results.length > 0) && (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-zinc-50 dark:bg-zinc-800 border-b border-zinc-200 dark:border-zinc-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Row
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Email
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Details
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                {results.map((result) => (
+                  <tr key={result.row}>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-zinc-500 dark:text-zinc-400">
+                      {result.row}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-zinc-900 dark:text-zinc-50">
+                      {result.email || "—"}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      <span
+                        className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          STATUS_CLASSNAMES[result.status]
+                        }`}
+                      >
+                        {result.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-3 text-sm text-zinc-700 dark:text-zinc-300">
+                      {result.error ||
+                        (result.identityId ? (
+                          <Link
+                            href={`/admin/identities/${result.identityId}`}
+                            className="text-blue-600 dark:text-blue-400 hover:underline font-mono"
+                          >
+                            {result.identityId}
+                          </Link>
+                        ) : (
+                          "Ready to import"
+                        ))}
+                    </td>
+                  </tr>
+                ))}
+                {running && (
+                  <tr>
+                    <td
+                      colSpan={4}
+                      className="px-6 py-3 text-sm text-center text-zinc-500 dark:text-zinc-400"
+                    >
+                      Processing...
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
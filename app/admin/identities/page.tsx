@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import Link from "next/link";
 
 interface Identity {
@@ -14,40 +14,236 @@ interface Identity {
     };
   };
   state: string;
+  metadata_public?: {
+    provider?: string;
+  };
   created_at: string;
   updated_at: string;
 }
 
+interface IdentityFilters {
+  q: string;
+  credentialsIdentifier: string;
+  state: "" | "active" | "inactive";
+  schema: string;
+  verified: "" | "true" | "false";
+  provider: string;
+}
+
+type SortField = "email" | "state" | "created_at";
+
+interface Sort {
+  field: SortField | "";
+  order: "asc" | "desc";
+}
+
+const EMPTY_FILTERS: IdentityFilters = {
+  q: "",
+  credentialsIdentifier: "",
+  state: "",
+  schema: "",
+  verified: "",
+  provider: "",
+};
+
+const PAGE_SIZE = 50;
+
+type ExportFormat = "csv" | "json" | "ndjson";
+
+type BulkAction =
+  | "activate"
+  | "deactivate"
+  | "delete"
+  | "grant_role"
+  | "revoke_role"
+  | "add_to_org";
+
+interface BulkResult {
+  action: BulkAction;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: { identityId: string; success: boolean; error?: string }[];
+}
+
+const BULK_ACTIONS: { value: BulkAction; label: string }[] = [
+  { value: "activate", label: "Activate" },
+  { value: "deactivate", label: "Deactivate" },
+  { value: "delete", label: "Delete" },
+  { value: "grant_role", label: "Grant role" },
+  { value: "revoke_role", label: "Revoke role" },
+  { value: "add_to_org", label: "Add to organization" },
+];
+
+const EXPORT_FIELDS = [
+  { value: "state", label: "State" },
+  { value: "verifiable_addresses", label: "Verified addresses" },
+  { value: "metadata_public", label: "Public metadata" },
+  { value: "credentials", label: "Login methods" },
+  { value: "schema_id", label: "Schema" },
+  { value: "created_at", label: "Created" },
+  { value: "updated_at", label: "Updated" },
+];
+
+const inputClassName =
+  "px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100";
+
+const headerClassName =
+  "px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider";
+
+/**
+ * Column header that sorts the list server-side; clicking the active
+ * column flips the order (disabled while searching, results are ranked)
+ */
+function SortableHeader({
+  label,
+  field,
+  sort,
+  onSort,
+  disabled,
+}: {
+  label: string;
+  field: SortField;
+  sort: Sort;
+  onSort: (field: SortField) => void;
+  disabled?: boolean;
+}) {
+  const active = !disabled && sort.field === field;
+  return (
+    <th className={headerClassName}>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => onSort(field)}
+        className="inline-flex items-center gap-1 uppercase tracking-wider hover:text-zinc-900 dark:hover:text-zinc-100 disabled:hover:text-inherit disabled:cursor-default"
+      >
+        {label}
+        <span aria-hidden>
+          {active ? (sort.order === "asc" ? "▲" : "▼") : "↕"}
+        </span>
+      </button>
+    </th>
+  );
+}
+
 export default function IdentitiesPage() {
   const [identities, setIdentities] = useState<Identity[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState("");
-
-  useEffect(() => {
-    fetchIdentities();
-  }, []);
+  // Filters being edited vs. the ones the list was loaded with
+  const [filters, setFilters] = useState<IdentityFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] =
+    useState<IdentityFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<Sort>({ field: "", order: "asc" });
+  // Page tokens of the pages before the current one (tokens page forward only)
+  const [previousTokens, setPreviousTokens] = useState<string[]>([]);
+  const [pageToken, setPageToken] = useState<string | undefined>();
+  const [nextPageToken, setNextPageToken] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [exportTraits, setExportTraits] = useState(
+    "email,name.first,name.last",
+  );
+  const [exportFields, setExportFields] = useState<string[]>([
+    "state",
+    "verifiable_addresses",
+  ]);
+  const [exportPermissions, setExportPermissions] = useState(false);
+  // Selection is kept across pages until a bulk action runs
+  const [selected, setSelected] = useState<string[]>([]);
+  const [bulkAction, setBulkAction] = useState<BulkAction>("deactivate");
+  const [bulkRole, setBulkRole] = useState("admin");
+  const [bulkOrgId, setBulkOrgId] = useState("");
+  const [bulkOrgRole, setBulkOrgRole] = useState("members");
+  const [bulkRunning, setBulkRunning] = useState(false);
+  const [bulkResult, setBulkResult] = useState<BulkResult | null>(null);
 
-  const fetchIdentities = async () => {
+  const fetchIdentities = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await fetch("/api/admin/identities");
+      const params = new URLSearchParams({
+        pageSize: String(PAGE_SIZE),
+        page: String(previousTokens.length + 1),
+      });
+      const searching = Boolean(appliedFilters.q.trim());
+      for (const [key, value] of Object.entries(appliedFilters)) {
+        if (searching && key === "credentialsIdentifier") continue;
+        if (value.trim()) params.set(key, value.trim());
+      }
+      // Search results come back ranked by relevance
+      if (sort.field && !searching) {
+        params.set("sort", sort.field);
+        params.set("order", sort.order);
+      }
+      if (pageToken) params.set("pageToken", pageToken);
+
+      const response = await fetch(`/api/admin/identities?${params}`);
       if (!response.ok) {
-        throw new Error("Failed to fetch identities");
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch identities");
       }
+
       const result = await response.json();
-      // API wraps response in { data, status }
+      // Paginated: { data, pagination, status }
       setIdentities(Array.isArray(result.data) ? result.data : []);
+      setNextPageToken(result.pagination?.nextPageToken || null);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
     } finally {
       setLoading(false);
     }
+  }, [appliedFilters, sort, pageToken, previousTokens.length]);
+
+  useEffect(() => {
+    fetchIdentities();
+  }, [fetchIdentities]);
+
+  // Any change to filters or sort starts again from the first page
+  const resetPaging = () => {
+    setPreviousTokens([]);
+    setPageToken(undefined);
+  };
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilters(filters);
+    resetPaging();
+  };
+
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+    resetPaging();
+  };
+
+  const handleSort = (field: SortField) => {
+    setSort({
+      field,
+      order: sort.field === field && sort.order === "asc" ? "desc" : "asc",
+    });
+    resetPaging();
+  };
+
+  const goToNextPage = () => {
+    if (!nextPageToken) return;
+    setPreviousTokens([...previousTokens, pageToken || ""]);
+    setPageToken(nextPageToken);
+  };
+
+  const goToPreviousPage = () => {
+    const tokens = [...previousTokens];
+    const previous = tokens.pop();
+    setPreviousTokens(tokens);
+    setPageToken(previous || undefined);
   };
 
   const deleteIdentity = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this identity?")) {
+    if (
+      !confirm(
+        "Delete this identity? Its sessions and permissions are removed too.",
+      )
+    ) {
       return;
     }
 
@@ -57,55 +253,107 @@ export default function IdentitiesPage() {
       });
 
       if (!response.ok) {
-        throw new Error("Failed to delete identity");
+        // e.g. the only owner of an organization (transfer on its page)
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to delete identity");
       }
 
-      // Refresh the list
+      // Refresh the current page
       fetchIdentities();
     } catch (err) {
       alert(err instanceof Error ? err.message : "Failed to delete identity");
     }
   };
 
-  const filteredIdentities = identities.filter((identity) => {
-    const email = identity.traits.email?.toLowerCase() || "";
-    const name = `${identity.traits.name?.first || ""} ${
-      identity.traits.name?.last || ""
-    }`.toLowerCase();
-    const search = searchTerm.toLowerCase();
-    return (
-      email.includes(search) ||
-      name.includes(search) ||
-      identity.id.includes(search)
+  const toggleExportField = (field: string) => {
+    setExportFields(
+      exportFields.includes(field)
+        ? exportFields.filter((value) => value !== field)
+        : [...exportFields, field],
     );
-  });
+  };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center py-12">
-        <div className="text-center">
-          <div className="w-12 h-12 border-4 border-zinc-200 dark:border-zinc-700 border-t-zinc-900 dark:border-t-zinc-100 rounded-full animate-spin mx-auto mb-4"></div>
-          <p className="text-zinc-600 dark:text-zinc-400">
-            Loading identities...
-          </p>
-        </div>
-      </div>
+  // The browser downloads the streamed response straight to disk
+  const exportUrl = () => {
+    const params = new URLSearchParams({ format: exportFormat });
+    for (const [key, value] of Object.entries(appliedFilters)) {
+      // Exports walk every identity; search ranking doesn't apply
+      if (key === "q") continue;
+      if (value.trim()) params.set(key, value.trim());
+    }
+    if (exportTraits.trim()) params.set("traits", exportTraits.trim());
+    if (exportFields.length > 0) params.set("fields", exportFields.join(","));
+    if (exportPermissions) params.set("permissions", "true");
+    return `/api/admin/identities/export?${params}`;
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(
+      selected.includes(id)
+        ? selected.filter((value) => value !== id)
+        : [...selected, id],
     );
-  }
-
-  if (error) {
-    return (
-      <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
-        <p className="text-red-800 dark:text-red-200">{error}</p>
-        <button
-          onClick={fetchIdentities}
-          className="mt-2 text-sm text-red-600 dark:text-red-400 hover:underline"
-        >
-          Try again
-        </button>
-      </div>
+  };
+
+  const pageIds = identities.map((identity) => identity.id);
+  const pageSelected =
+    pageIds.length > 0 && pageIds.every((id) => selected.includes(id));
+
+  const togglePageSelected = () => {
+    setSelected(
+      pageSelected
+        ? selected.filter((id) => !pageIds.includes(id))
+        : [...new Set([...selected, ...pageIds])],
     );
-  }
+  };
+
+  const runBulkAction = async () => {
+    const label = BULK_ACTIONS.find((item) => item.value === bulkAction)?.label;
+    if (
+      (bulkAction === "delete" || bulkAction === "deactivate") &&
+      !confirm(`${label} ${selected.length} identities?`)
+    ) {
+      return;
+    }
+
+    setBulkRunning(true);
+    setBulkResult(null);
+    try {
+      const response = await fetch("/api/admin/identities/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: bulkAction,
+          identityIds: selected,
+          role: bulkRole,
+          orgId: bulkOrgId,
+          orgRole: bulkOrgRole,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Bulk action failed");
+      }
+
+      const bulk: BulkResult = result.data;
+      setBulkResult(bulk);
+      // Keep the failures selected so they can be retried
+      setSelected(
+        bulk.results
+          .filter((item) => !item.success)
+          .map((item) => item.identityId),
+      );
+      fetchIdentities();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Bulk action failed");
+    } finally {
+      setBulkRunning(false);
+    }
+  };
+
+  const page = previousTokens.length + 1;
+  const filtered = Object.values(appliedFilters).some((value) => value.trim());
+  const searching = Boolean(appliedFilters.q.trim());
 
   return (
     <div>
@@ -119,37 +367,302 @@ export default function IdentitiesPage() {
             Manage all user identities
           </p>
         </div>
-        <Link
-          href="/admin/identities/new"
-          className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors flex items-center gap-2"
-        >
-          <svg
-            className="w-5 h-5"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setShowExport(!showExport)}
+            className="px-4 py-2 border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M12 6v6m0 0v6m0-6h6m-6 0H6"
-            />
-          </svg>
-          Create Identity
-        </Link>
+            Export
+          </button>
+          <Link
+            href="/admin/identities/expiring"
+            className="px-4 py-2 border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+          >
+            Expiring
+          </Link>
+          <Link
+            href="/admin/identities/import"
+            className="px-4 py-2 border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+          >
+            Import
+          </Link>
+          <Link
+            href="/admin/identities/new"
+            className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors flex items-center gap-2"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+              />
+            </svg>
+            Create Identity
+          </Link>
+        </div>
       </div>
 
-      {/* Search */}
-      <div className="mb-6">
+      {error && (
+        <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+          <button
+            onClick={fetchIdentities}
+            className="mt-2 text-sm text-red-600 dark:text-red-400 hover:underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      {/* Export */}
+      {showExport && (
+        <div className="mb-6 bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              className={inputClassName}
+            >
+              <option value="csv">CSV</option>
+              <option value="json">JSON</option>
+              <option value="ndjson">JSON Lines</option>
+            </select>
+            <input
+              type="text"
+              placeholder="Trait columns, e.g. email,name.first"
+              value={exportTraits}
+              onChange={(e) => setExportTraits(e.target.value)}
+              className={`flex-1 min-w-64 ${inputClassName}`}
+            />
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {EXPORT_FIELDS.map((field) => (
+              <label
+                key={field.value}
+                className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300"
+              >
+                <input
+                  type="checkbox"
+                  checked={exportFields.includes(field.value)}
+                  onChange={() => toggleExportField(field.value)}
+                />
+                {field.label}
+              </label>
+            ))}
+            <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+              <input
+                type="checkbox"
+                checked={exportPermissions}
+                onChange={(e) => setExportPermissions(e.target.checked)}
+              />
+              Permissions (slower, one lookup per identity)
+            </label>
+          </div>
+          <div className="flex items-center gap-4">
+            <a
+              href={exportUrl()}
+              download
+              className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm"
+            >
+              Download
+            </a>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              {filtered
+                ? "Exports every identity matching the applied filters"
+                : "Exports every identity"}
+              {searching && " (the search term is not applied)"}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Search and filters */}
+      <form
+        onSubmit={handleFilter}
+        className="mb-6 grid grid-cols-1 md:grid-cols-7 gap-2"
+      >
+        <input
+          type="search"
+          placeholder="Search by email, name or metadata..."
+          value={filters.q}
+          onChange={(e) => setFilters({ ...filters, q: e.target.value })}
+          className={`md:col-span-7 ${inputClassName}`}
+        />
         <input
           type="text"
-          placeholder="Search by email, name, or ID..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="w-full px-4 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100"
+          placeholder="Email or identifier (exact)"
+          // Exact lookups and search don't combine
+          disabled={Boolean(filters.q.trim())}
+          value={filters.credentialsIdentifier}
+          onChange={(e) =>
+            setFilters({ ...filters, credentialsIdentifier: e.target.value })
+          }
+          className={`md:col-span-2 ${inputClassName} disabled:opacity-50`}
         />
-      </div>
+        <select
+          value={filters.state}
+          onChange={(e) =>
+            setFilters({
+              ...filters,
+              state: e.target.value as IdentityFilters["state"],
+            })
+          }
+          className={inputClassName}
+        >
+          <option value="">Any state</option>
+          <option value="active">Active</option>
+          <option value="inactive">Inactive</option>
+        </select>
+        <select
+          value={filters.verified}
+          onChange={(e) =>
+            setFilters({
+              ...filters,
+              verified: e.target.value as IdentityFilters["verified"],
+            })
+          }
+          className={inputClassName}
+        >
+          <option value="">Verified or not</option>
+          <option value="true">Verified</option>
+          <option value="false">Unverified</option>
+        </select>
+        <input
+          type="text"
+          placeholder="Schema"
+          value={filters.schema}
+          onChange={(e) => setFilters({ ...filters, schema: e.target.value })}
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          placeholder="Provider"
+          value={filters.provider}
+          onChange={(e) => setFilters({ ...filters, provider: e.target.value })}
+          className={inputClassName}
+        />
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="flex-1 px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm"
+          >
+            Filter
+          </button>
+          <button
+            type="button"
+            onClick={clearFilters}
+            className="flex-1 px-4 py-2 border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors text-sm"
+          >
+            Clear
+          </button>
+        </div>
+      </form>
+
+      {/* Bulk actions */}
+      {selected.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg px-4 py-3">
+          <span className="text-sm text-zinc-700 dark:text-zinc-300">
+            {selected.length} selected
+          </span>
+          <select
+            value={bulkAction}
+            onChange={(e) => setBulkAction(e.target.value as BulkAction)}
+            className={inputClassName}
+          >
+            {BULK_ACTIONS.map((action) => (
+              <option key={action.value} value={action.value}>
+                {action.label}
+              </option>
+            ))}
+          </select>
+          {(bulkAction === "grant_role" || bulkAction === "revoke_role") && (
+            <input
+              type="text"
+              placeholder="Role (e.g. admin)"
+              value={bulkRole}
+              onChange={(e) => setBulkRole(e.target.value)}
+              className={inputClassName}
+            />
+          )}
+          {bulkAction === "add_to_org" && (
+            <>
+              <input
+                type="text"
+                placeholder="Organization ID"
+                value={bulkOrgId}
+                onChange={(e) => setBulkOrgId(e.target.value)}
+                className={inputClassName}
+              />
+              <select
+                value={bulkOrgRole}
+                onChange={(e) => setBulkOrgRole(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="owners">Owners</option>
+                <option value="admins">Admins</option>
+                <option value="members">Members</option>
+                <option value="viewers">Viewers</option>
+              </select>
+            </>
+          )}
+          <button
+            onClick={runBulkAction}
+            disabled={bulkRunning}
+            className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm disabled:opacity-50"
+          >
+            {bulkRunning ? "Applying..." : "Apply"}
+          </button>
+          <button
+            onClick={() => setSelected([])}
+            className="px-4 py-2 border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors text-sm"
+          >
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {bulkResult && (
+        <div
+          className={`mb-4 rounded-lg border p-4 text-sm ${
+            bulkResult.failed > 0
+              ? "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800 dark:text-red-200"
+              : "bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800 dark:text-green-200"
+          }`}
+        >
+          <div className="flex items-center justify-between">
+            <p>
+              {bulkResult.succeeded} of {bulkResult.total} succeeded
+              {bulkResult.failed > 0 &&
+                `, ${bulkResult.failed} failed (still selected)`}
+            </p>
+            <button
+              onClick={() => setBulkResult(null)}
+              className="hover:underline"
+            >
+              Dismiss
+            </button>
+          </div>
+          {bulkResult.failed > 0 && (
+            <ul className="mt-2 space-y-1">
+              {bulkResult.results
+                .filter((item) => !item.success)
+                .map((item) => (
+                  <li key={item.identityId}>
+                    <span className="font-mono">{item.identityId}</span>:{" "}
+                    {item.error}
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      )}
 
       {/* Table */}
       <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 overflow-hidden">
@@ -157,41 +670,76 @@ export default function IdentitiesPage() {
           <table className="w-full">
             <thead className="bg-zinc-50 dark:bg-zinc-800 border-b border-zinc-200 dark:border-zinc-700">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
-                  Email
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
-                  Name
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
-                  Status
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
-                  Created
+                <th className="pl-6 py-3 w-4">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all on this page"
+                    checked={pageSelected}
+                    onChange={togglePageSelected}
+                  />
                 </th>
+                <SortableHeader
+                  label="Email"
+                  field="email"
+                  sort={sort}
+                  onSort={handleSort}
+                  disabled={searching}
+                />
+                <th className={headerClassName}>Name</th>
+                <SortableHeader
+                  label="Status"
+                  field="state"
+                  sort={sort}
+                  onSort={handleSort}
+                  disabled={searching}
+                />
+                <SortableHeader
+                  label="Created"
+                  field="created_at"
+                  sort={sort}
+                  onSort={handleSort}
+                  disabled={searching}
+                />
                 <th className="px-6 py-3 text-right text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
                   Actions
                 </th>
               </tr>
             </thead>
             <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800">
-              {filteredIdentities.length === 0 ? (
+              {loading ? (
                 <tr>
                   <td
-                    colSpan={5}
+                    colSpan={6}
                     className="px-6 py-12 text-center text-zinc-500 dark:text-zinc-400"
                   >
-                    {searchTerm
-                      ? "No identities found matching your search"
+                    Loading identities...
+                  </td>
+                </tr>
+              ) : identities.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={6}
+                    className="px-6 py-12 text-center text-zinc-500 dark:text-zinc-400"
+                  >
+                    {filtered
+                      ? "No identities match these filters"
                       : "No identities found"}
                   </td>
                 </tr>
               ) : (
-                filteredIdentities.map((identity) => (
+                identities.map((identity) => (
                   <tr
                     key={identity.id}
                     className="hover:bg-zinc-50 dark:hover:bg-zinc-800"
                   >
+                    <td className="pl-6 py-4">
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${identity.traits.email || identity.id}`}
+                        checked={selected.includes(identity.id)}
+                        onChange={() => toggleSelected(identity.id)}
+                      />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-zinc-900 dark:text-zinc-50">
                         {identity.traits.email || "No email"}
@@ -209,9 +757,20 @@ export default function IdentitiesPage() {
                             }`.trim()
                           : "—"}
                       </div>
+                      {identity.metadata_public?.provider && (
+                        <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                          via {identity.metadata_public.provider}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400">
+                      <span
+                        className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          identity.state === "active"
+                            ? "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400"
+                            : "bg-zinc-100 text-zinc-800 dark:bg-zinc-800 dark:text-zinc-300"
+                        }`}
+                      >
                         {identity.state}
                       </span>
                     </td>
@@ -240,11 +799,29 @@ export default function IdentitiesPage() {
             </tbody>
           </table>
         </div>
-      </div>
 
-      {/* Stats */}
-      <div className="mt-4 text-sm text-zinc-600 dark:text-zinc-400">
-        Showing {filteredIdentities.length} of {identities.length} identities
+        {/* Pagination */}
+        <div className="flex items-center justify-between px-6 py-3 border-t border-zinc-200 dark:border-zinc-800">
+          <span className="text-sm text-zinc-600 dark:text-zinc-400">
+            Page {page} · {identities.length} shown
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={goToPreviousPage}
+              disabled={loading || previousTokens.length === 0}
+              className="px-3 py-1 text-sm border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={goToNextPage}
+              disabled={loading || !nextPageToken}
+              className="px-3 py-1 text-sm border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
       </div>
     </div>
   );
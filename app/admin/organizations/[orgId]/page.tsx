@@ -0,0 +1,250 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import OrgMembers from "@/components/org-members";
+
+interface Organization {
+  id: string;
+  name: string;
+  description?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export default function OrganizationDetailPage() {
+  const params = useParams();
+  const orgId = typeof params?.orgId === "string" ? params.orgId : undefined;
+
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [formData, setFormData] = useState({ name: "", description: "" });
+
+  useEffect(() => {
+    if (orgId) {
+      fetchOrganization(orgId);
+    }
+  }, [orgId]);
+
+  const fetchOrganization = async (id: string) => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/admin/organizations/${id}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch organization");
+      }
+      const result = await response.json();
+      // API wraps response in { data, status }
+      const data: Organization = result.data;
+      setOrganization(data);
+      setFormData({ name: data.name, description: data.description || "" });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!orgId) return;
+
+    try {
+      const response = await fetch(`/api/admin/organizations/${orgId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(formData),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to update organization");
+      }
+
+      const result = await response.json();
+      setOrganization(result.data);
+      setEditing(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="w-12 h-12 border-4 border-zinc-200 dark:border-zinc-700 border-t-zinc-900 dark:border-t-zinc-100 rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            Loading organization...
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!organization || !orgId) {
+    return (
+      <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+        <p className="text-red-800 dark:text-red-200">
+          {error || "Organization not found"}
+        </p>
+        <Link
+          href="/admin/organizations"
+          className="mt-2 inline-block text-sm text-red-600 dark:text-red-400 hover:underline"
+        >
+          Back to organizations
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8">
+        <Link
+          href="/admin/organizations"
+          className="text-sm text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-50"
+        >
+          ← Back to organizations
+        </Link>
+        <h2 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50 mt-2 mb-2">
+          {organization.name}
+        </h2>
+        <p className="text-zinc-600 dark:text-zinc-400 font-mono text-sm">
+          {organization.id}
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Details */}
+        <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6 h-fit">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+              Details
+            </h3>
+            {!editing && (
+              <button
+                onClick={() => setEditing(true)}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Edit
+              </button>
+            )}
+          </div>
+
+          {editing ? (
+            <form onSubmit={handleUpdate} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-900 dark:text-zinc-50 mb-2">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) =>
+                    setFormData({ ...formData, name: e.target.value })
+                  }
+                  className="w-full px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-900 dark:text-zinc-50 mb-2">
+                  Description
+                </label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) =>
+                    setFormData({ ...formData, description: e.target.value })
+                  }
+                  rows={3}
+                  className="w-full px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm"
+                >
+                  Save
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditing(false);
+                    setFormData({
+                      name: organization.name,
+                      description: organization.description || "",
+                    });
+                  }}
+                  className="px-4 py-2 text-sm text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <dl className="space-y-3 text-sm">
+              <div>
+                <dt className="text-zinc-500 dark:text-zinc-400">
+                  Description
+                </dt>
+                <dd className="text-zinc-900 dark:text-zinc-50">
+                  {organization.description || "—"}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-zinc-500 dark:text-zinc-400">Created</dt>
+                <dd className="text-zinc-900 dark:text-zinc-50">
+                  {new Date(organization.created_at).toLocaleString()}
+                </dd>
+              </div>
+              {organization.created_by && (
+                <div>
+                  <dt className="text-zinc-500 dark:text-zinc-400">
+                    Created by
+                  </dt>
+                  <dd>
+                    <Link
+                      href={`/admin/identities/${organization.created_by}`}
+                      className="font-mono text-blue-600 dark:text-blue-400 hover:underline break-all"
+                    >
+                      {organization.created_by}
+                    </Link>
+                  </dd>
+                </div>
+              )}
+              <div>
+                <dt className="text-zinc-500 dark:text-zinc-400">Updated</dt>
+                <dd className="text-zinc-900 dark:text-zinc-50">
+                  {new Date(organization.updated_at).toLocaleString()}
+                </dd>
+              </div>
+            </dl>
+          )}
+        </div>
+
+        {/* Members */}
+        <div className="lg:col-span-2">
+          <OrgMembers orgId={orgId} />
+        </div>
+      </div>
+    </div>
+  );
+}
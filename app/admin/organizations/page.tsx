@@ -0,0 +1,276 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+interface Organization {
+  id: string;
+  name: string;
+  description?: string;
+  created_at: string;
+}
+
+export default function OrganizationsPage() {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    name: "",
+    id: "",
+    description: "",
+  });
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, []);
+
+  const fetchOrganizations = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/admin/organizations");
+      if (!response.ok) {
+        throw new Error("Failed to fetch organizations");
+      }
+      const result = await response.json();
+      // API wraps response in { data, status }
+      setOrganizations(Array.isArray(result.data) ? result.data : []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setFormError(null);
+
+    try {
+      const response = await fetch("/api/admin/organizations", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name: formData.name,
+          id: formData.id || undefined,
+          description: formData.description || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to create organization");
+      }
+
+      setFormData({ name: "", id: "", description: "" });
+      fetchOrganizations();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const deleteOrganization = async (id: string) => {
+    if (
+      !confirm(
+        `Delete organization ${id}? All memberships will be removed as well.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/organizations/${id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to delete organization");
+      }
+
+      fetchOrganizations();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to delete organization");
+    }
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50 mb-2">
+          Organizations
+        </h2>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          Manage organizations and their members
+        </p>
+      </div>
+
+      {/* Create Organization */}
+      <form
+        onSubmit={handleCreate}
+        className="mb-8 bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6"
+      >
+        <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+          Create Organization
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-zinc-900 dark:text-zinc-50 mb-2">
+              Name
+            </label>
+            <input
+              type="text"
+              required
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="w-full px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100"
+              placeholder="Acme Inc."
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zinc-900 dark:text-zinc-50 mb-2">
+              ID (optional)
+            </label>
+            <input
+              type="text"
+              value={formData.id}
+              onChange={(e) => setFormData({ ...formData, id: e.target.value })}
+              className="w-full px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 font-mono focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100"
+              placeholder="acme-inc"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zinc-900 dark:text-zinc-50 mb-2">
+              Description
+            </label>
+            <input
+              type="text"
+              value={formData.description}
+              onChange={(e) =>
+                setFormData({ ...formData, description: e.target.value })
+              }
+              className="w-full px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100"
+            />
+          </div>
+        </div>
+        {formError && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400">
+            {formError}
+          </p>
+        )}
+        <div className="mt-4">
+          <button
+            type="submit"
+            disabled={creating}
+            className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50"
+          >
+            {creating ? "Creating..." : "Create Organization"}
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+          <button
+            onClick={fetchOrganizations}
+            className="mt-2 text-sm text-red-600 dark:text-red-400 hover:underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-zinc-50 dark:bg-zinc-800 border-b border-zinc-200 dark:border-zinc-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                  Description
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                  Created
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800">
+              {loading ? (
+                <tr>
+                  <td
+                    colSpan={4}
+                    className="px-6 py-12 text-center text-zinc-500 dark:text-zinc-400"
+                  >
+                    Loading organizations...
+                  </td>
+                </tr>
+              ) : organizations.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={4}
+                    className="px-6 py-12 text-center text-zinc-500 dark:text-zinc-400"
+                  >
+                    No organizations found
+                  </td>
+                </tr>
+              ) : (
+                organizations.map((organization) => (
+                  <tr
+                    key={organization.id}
+                    className="hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-zinc-900 dark:text-zinc-50">
+                        {organization.name}
+                      </div>
+                      <div className="text-xs text-zinc-500 dark:text-zinc-400 font-mono">
+                        {organization.id}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-zinc-600 dark:text-zinc-400">
+                      {organization.description || "—"}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-zinc-500 dark:text-zinc-400">
+                      {new Date(organization.created_at).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex items-center justify-end gap-2">
+                        <Link
+                          href={`/admin/organizations/${organization.id}`}
+                          className="text-blue-600 dark:text-blue-400 hover:text-blue-900 dark:hover:text-blue-300"
+                        >
+                          View
+                        </Link>
+                        <button
+                          onClick={() => deleteOrganization(organization.id)}
+                          className="text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
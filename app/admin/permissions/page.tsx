@@ -1,13 +1,10 @@
 "use client";
 
-import { useEffect, useState } from "react";
-
-interface Identity {
-  id: string;
-  traits: {
-    email?: string;
-  };
-}
+import { useCallback, useEffect, useState } from "react";
+import IdentityPicker from "@/components/identity-picker";
+import PermissionExplain from "@/components/permission-explain";
+import { KETO_NAMESPACES, type KetoNamespace } from "@/lib/types";
+import { isValidSubject } from "@/lib/subject-set";
 
 interface Permission {
   namespace: string;
@@ -16,128 +13,189 @@ interface Permission {
   subject: string;
 }
 
+interface TupleFilters {
+  namespace: KetoNamespace | "";
+  object: string;
+  relation: string;
+  subject: string;
+}
+
+const NAMESPACES = Object.keys(KETO_NAMESPACES) as KetoNamespace[];
+
+const EMPTY_FILTERS: TupleFilters = {
+  namespace: "",
+  object: "",
+  relation: "",
+  subject: "",
+};
+
+const PAGE_SIZE = 50;
+
+const inputClassName =
+  "px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100";
+
+// Stored relations of a namespace (computed permissions can't be written)
+function relationsOf(namespace: KetoNamespace | ""): readonly string[] {
+  return namespace ? KETO_NAMESPACES[namespace].relations : [];
+}
+
+function formatTuple(tuple: Permission): string {
+  return `${tuple.namespace}:${tuple.object}#${tuple.relation}@${tuple.subject}`;
+}
+
 export default function PermissionsPage() {
-  const [identities, setIdentities] = useState<Identity[]>([]);
   const [permissions, setPermissions] = useState<Permission[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [actionLoading, setActionLoading] = useState<string | null>(null);
-
-  useEffect(() => {
-    fetchData();
-  }, []);
+  const [saving, setSaving] = useState(false);
+  // Filters being edited vs. the ones the list was loaded with
+  const [filters, setFilters] = useState<TupleFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] =
+    useState<TupleFilters>(EMPTY_FILTERS);
+  // Page tokens of the pages before the current one (Keto pages forward only)
+  const [previousTokens, setPreviousTokens] = useState<string[]>([]);
+  const [pageToken, setPageToken] = useState<string | undefined>();
+  const [nextPageToken, setNextPageToken] = useState<string | null>(null);
+  const [newTuple, setNewTuple] = useState<TupleFilters>({
+    namespace: "GlobalRole",
+    object: "admin",
+    relation: "members",
+    subject: "",
+  });
 
-  const fetchData = async () => {
+  const fetchPermissions = useCallback(async () => {
     try {
       setLoading(true);
-      const [identitiesRes, permissionsRes] = await Promise.all([
-        fetch("/api/admin/identities"),
-        fetch("/api/admin/permissions"),
-      ]);
-
-      if (identitiesRes.ok) {
-        const identitiesResult = await identitiesRes.json();
-        // API wraps response in { data, status }
-        setIdentities(
-          Array.isArray(identitiesResult.data) ? identitiesResult.data : [],
-        );
+      const params = new URLSearchParams({
+        pageSize: String(PAGE_SIZE),
+        page: String(previousTokens.length + 1),
+      });
+      for (const [key, value] of Object.entries(appliedFilters)) {
+        if (value.trim()) params.set(key, value.trim());
       }
+      if (pageToken) params.set("pageToken", pageToken);
 
-      if (permissionsRes.ok) {
-        const permissionsResult = await permissionsRes.json();
-        // API wraps response in { data, status }
-        setPermissions(
-          Array.isArray(permissionsResult.data?.permissions)
-            ? permissionsResult.data.permissions
-            : [],
-        );
+      const response = await fetch(`/api/admin/permissions?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch permissions");
       }
 
+      const result = await response.json();
+      // Paginated: { data, pagination, status }
+      setPermissions(Array.isArray(result.data) ? result.data : []);
+      setNextPageToken(result.pagination?.nextPageToken || null);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
     } finally {
       setLoading(false);
     }
+  }, [appliedFilters, pageToken, previousTokens.length]);
+
+  useEffect(() => {
+    fetchPermissions();
+  }, [fetchPermissions]);
+
+  const applyFilters = (next: TupleFilters) => {
+    setAppliedFilters(next);
+    setPreviousTokens([]);
+    setPageToken(undefined);
+  };
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    applyFilters(filters);
   };
 
-  const hasAdminAccess = (userId: string) => {
-    return permissions.some(
-      (p) =>
-        p.subject === userId &&
-        p.namespace === "GlobalRole" &&
-        p.object === "admin" &&
-        p.relation === "members",
-    );
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    applyFilters(EMPTY_FILTERS);
   };
 
-  const grantAccess = async (userId: string) => {
+  const goToNextPage = () => {
+    if (!nextPageToken) return;
+    setPreviousTokens([...previousTokens, pageToken || ""]);
+    setPageToken(nextPageToken);
+  };
+
+  const goToPreviousPage = () => {
+    const tokens = [...previousTokens];
+    const previous = tokens.pop();
+    setPreviousTokens(tokens);
+    setPageToken(previous || undefined);
+  };
+
+  // Send a tuple change, then reload the current page
+  const mutate = async (url: string, init: RequestInit) => {
+    setSaving(true);
+    setError(null);
+
     try {
-      setActionLoading(userId);
-      const response = await fetch("/api/admin/permissions", {
-        method: "POST",
+      const response = await fetch(url, {
+        ...init,
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ userId }),
       });
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || "Failed to grant access");
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to update permissions");
       }
 
-      await fetchData();
+      await fetchPermissions();
+      return true;
     } catch (err) {
-      alert(err instanceof Error ? err.message : "Failed to grant access");
+      setError(err instanceof Error ? err.message : "An error occurred");
+      return false;
     } finally {
-      setActionLoading(null);
+      setSaving(false);
     }
   };
 
-  const revokeAccess = async (userId: string) => {
-    if (!confirm("Are you sure you want to revoke admin access?")) {
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const tuple = {
+      ...newTuple,
+      object: newTuple.object.trim(),
+      subject: newTuple.subject.trim(),
+    };
+
+    if (!relationsOf(tuple.namespace).includes(tuple.relation)) {
+      setError(`Unknown relation "${tuple.relation}" in ${tuple.namespace}`);
+      return;
+    }
+    if (!isValidSubject(tuple.subject)) {
+      setError(
+        "Subject must be a user ID or a subject set like Group:engineering#members",
+      );
       return;
     }
 
-    try {
-      setActionLoading(userId);
-      const response = await fetch(`/api/admin/permissions?userId=${userId}`, {
-        method: "DELETE",
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || "Failed to revoke access");
-      }
-
-      await fetchData();
-    } catch (err) {
-      alert(err instanceof Error ? err.message : "Failed to revoke access");
-    } finally {
-      setActionLoading(null);
+    const created = await mutate("/api/admin/permissions", {
+      method: "POST",
+      body: JSON.stringify(tuple),
+    });
+    if (created) {
+      setNewTuple({ ...newTuple, subject: "" });
     }
   };
 
-  const filteredIdentities = identities.filter((identity) => {
-    const email = identity.traits.email?.toLowerCase() || "";
-    const search = searchTerm.toLowerCase();
-    return email.includes(search) || identity.id.includes(search);
-  });
+  const handleDelete = (tuple: Permission) => {
+    if (!confirm(`Delete ${formatTuple(tuple)}?`)) {
+      return;
+    }
+    const query = new URLSearchParams({
+      namespace: tuple.namespace,
+      object: tuple.object,
+      relation: tuple.relation,
+      subject: tuple.subject,
+    });
+    mutate(`/api/admin/permissions?${query}`, { method: "DELETE" });
+  };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center py-12">
-        <div className="text-center">
-          <div className="w-12 h-12 border-4 border-zinc-200 dark:border-zinc-700 border-t-zinc-900 dark:border-t-zinc-100 rounded-full animate-spin mx-auto mb-4"></div>
-          <p className="text-zinc-600 dark:text-zinc-400">
-            Loading permissions...
-          </p>
-        </div>
-      </div>
-    );
-  }
+  const page = previousTokens.length + 1;
 
   return (
     <div>
@@ -147,7 +205,7 @@ export default function PermissionsPage() {
           Permission Management
         </h2>
         <p className="text-zinc-600 dark:text-zinc-400">
-          Manage admin access using Ory Keto
+          Browse and edit Ory Keto relation tuples
         </p>
       </div>
 
@@ -157,36 +215,138 @@ export default function PermissionsPage() {
         </div>
       )}
 
-      {/* Search */}
-      <div className="mb-6">
+      {/* Create Tuple */}
+      <div className="mb-6 bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6">
+        <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+          Create Tuple
+        </h3>
+        <form
+          onSubmit={handleCreate}
+          className="grid grid-cols-1 md:grid-cols-5 gap-2"
+        >
+          <select
+            value={newTuple.namespace}
+            onChange={(e) => {
+              const namespace = e.target.value as KetoNamespace;
+              setNewTuple({
+                ...newTuple,
+                namespace,
+                relation: relationsOf(namespace)[0] || "",
+              });
+            }}
+            className={inputClassName}
+          >
+            {NAMESPACES.filter(
+              (namespace) => relationsOf(namespace).length > 0,
+            ).map((namespace) => (
+              <option key={namespace} value={namespace}>
+                {namespace}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            required
+            placeholder="Object"
+            value={newTuple.object}
+            onChange={(e) =>
+              setNewTuple({ ...newTuple, object: e.target.value })
+            }
+            className={inputClassName}
+          />
+          <select
+            value={newTuple.relation}
+            onChange={(e) =>
+              setNewTuple({ ...newTuple, relation: e.target.value })
+            }
+            className={inputClassName}
+          >
+            {relationsOf(newTuple.namespace).map((relation) => (
+              <option key={relation} value={relation}>
+                {relation}
+              </option>
+            ))}
+          </select>
+          <IdentityPicker
+            required
+            placeholder="User (search) or Group:id#members"
+            value={newTuple.subject}
+            onChange={(subject) => setNewTuple({ ...newTuple, subject })}
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm disabled:opacity-50"
+          >
+            Create
+          </button>
+        </form>
+      </div>
+
+      {/* Filters */}
+      <form
+        onSubmit={handleFilter}
+        className="mb-6 grid grid-cols-1 md:grid-cols-6 gap-2"
+      >
+        <select
+          value={filters.namespace}
+          onChange={(e) =>
+            setFilters({
+              ...filters,
+              namespace: e.target.value as KetoNamespace | "",
+              relation: "",
+            })
+          }
+          className={inputClassName}
+        >
+          <option value="">All namespaces</option>
+          {NAMESPACES.map((namespace) => (
+            <option key={namespace} value={namespace}>
+              {namespace}
+            </option>
+          ))}
+        </select>
         <input
           type="text"
-          placeholder="Search by email or ID..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="w-full px-4 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100"
+          placeholder="Object"
+          value={filters.object}
+          onChange={(e) => setFilters({ ...filters, object: e.target.value })}
+          className={inputClassName}
         />
-      </div>
-
-      {/* Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-        <div className="bg-white dark:bg-zinc-900 p-6 rounded-lg border border-zinc-200 dark:border-zinc-800">
-          <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-1">
-            Total Users
-          </p>
-          <p className="text-3xl font-bold text-zinc-900 dark:text-zinc-50">
-            {identities.length}
-          </p>
-        </div>
-        <div className="bg-white dark:bg-zinc-900 p-6 rounded-lg border border-zinc-200 dark:border-zinc-800">
-          <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-1">
-            Admins
-          </p>
-          <p className="text-3xl font-bold text-zinc-900 dark:text-zinc-50">
-            {permissions.length}
-          </p>
-        </div>
-      </div>
+        <select
+          value={filters.relation}
+          disabled={!filters.namespace}
+          onChange={(e) => setFilters({ ...filters, relation: e.target.value })}
+          className={`${inputClassName} disabled:opacity-50`}
+        >
+          <option value="">All relations</option>
+          {relationsOf(filters.namespace).map((relation) => (
+            <option key={relation} value={relation}>
+              {relation}
+            </option>
+          ))}
+        </select>
+        <IdentityPicker
+          placeholder="Subject"
+          value={filters.subject}
+          onChange={(subject) => setFilters({ ...filters, subject })}
+          className={inputClassName}
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm"
+        >
+          Filter
+        </button>
+        <button
+          type="button"
+          onClick={clearFilters}
+          className="px-4 py-2 border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors text-sm"
+        >
+          Clear
+        </button>
+      </form>
 
       {/* Table */}
       <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 overflow-hidden">
@@ -195,13 +355,16 @@ export default function PermissionsPage() {
             <thead className="bg-zinc-50 dark:bg-zinc-800 border-b border-zinc-200 dark:border-zinc-700">
               <tr>
                 <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
-                  User
+                  Namespace
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
-                  User ID
+                  Object
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
-                  Admin Access
+                  Relation
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                  Subject
                 </th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
                   Actions
@@ -209,72 +372,85 @@ export default function PermissionsPage() {
               </tr>
             </thead>
             <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800">
-              {filteredIdentities.length === 0 ? (
+              {loading ? (
                 <tr>
                   <td
-                    colSpan={4}
+                    colSpan={5}
                     className="px-6 py-12 text-center text-zinc-500 dark:text-zinc-400"
                   >
-                    No users found
+                    Loading tuples...
+                  </td>
+                </tr>
+              ) : permissions.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={5}
+                    className="px-6 py-12 text-center text-zinc-500 dark:text-zinc-400"
+                  >
+                    No tuples match these filters
                   </td>
                 </tr>
               ) : (
-                filteredIdentities.map((identity) => {
-                  const isAdmin = hasAdminAccess(identity.id);
-                  const isLoading = actionLoading === identity.id;
-
-                  return (
-                    <tr
-                      key={identity.id}
-                      className="hover:bg-zinc-50 dark:hover:bg-zinc-800"
-                    >
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm font-medium text-zinc-900 dark:text-zinc-50">
-                          {identity.traits.email || "No email"}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-xs font-mono text-zinc-500 dark:text-zinc-400">
-                          {identity.id.substring(0, 16)}...
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        {isAdmin ? (
-                          <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400">
-                            Admin
-                          </span>
-                        ) : (
-                          <span className="px-2 py-1 text-xs font-semibold rounded-full bg-zinc-100 text-zinc-800 dark:bg-zinc-800 dark:text-zinc-400">
-                            User
-                          </span>
-                        )}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                        {isAdmin ? (
-                          <button
-                            onClick={() => revokeAccess(identity.id)}
-                            disabled={isLoading}
-                            className="text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300 disabled:opacity-50"
-                          >
-                            {isLoading ? "Revoking..." : "Revoke"}
-                          </button>
-                        ) : (
-                          <button
-                            onClick={() => grantAccess(identity.id)}
-                            disabled={isLoading}
-                            className="text-blue-600 dark:text-blue-400 hover:text-blue-900 dark:hover:text-blue-300 disabled:opacity-50"
-                          >
-                            {isLoading ? "Granting..." : "Grant Admin"}
-                          </button>
-                        )}
-                      </td>
-                    </tr>
-                  );
-                })
+                permissions.map((tuple) => (
+                  <tr
+                    key={formatTuple(tuple)}
+                    className="hover:bg-zinc-50 dark:hover:bg-zinc-800/50"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-zinc-900 dark:text-zinc-50">
+                      {tuple.namespace}
+                    </td>
+                    <td className="px-6 py-4 text-sm font-mono text-zinc-700 dark:text-zinc-300 break-all">
+                      {tuple.object}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-zinc-700 dark:text-zinc-300">
+                      {tuple.relation}
+                    </td>
+                    <td className="px-6 py-4 text-sm font-mono text-zinc-700 dark:text-zinc-300 break-all">
+                      {tuple.subject}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => handleDelete(tuple)}
+                        disabled={saving}
+                        className="text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300 disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))
               )}
             </tbody>
           </table>
         </div>
+
+        {/* Pagination */}
+        <div className="flex items-center justify-between px-6 py-3 border-t border-zinc-200 dark:border-zinc-800">
+          <span className="text-sm text-zinc-600 dark:text-zinc-400">
+            Page {page}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={goToPreviousPage}
+              disabled={loading || previousTokens.length === 0}
+              className="px-3 py-1 text-sm border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={goToNextPage}
+              disabled={loading || !nextPageToken}
+              className="px-3 py-1 text-sm border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Explain */}
+      <div className="mt-8">
+        <PermissionExplain />
       </div>
     </div>
   );
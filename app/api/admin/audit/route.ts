@@ -0,0 +1,209 @@
+/**
+ * Admin Audit Log API Route
+ * BFF Layer: Query and export audit events with Zero-Trust auth
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/middleware/auth.middleware";
+import {
+  AuditLogEntry,
+  AuditQuery,
+  iterateAuditLog,
+  queryAuditLog,
+} from "@/lib/services/audit.service";
+import {
+  BadRequestError,
+  createPaginatedResponse,
+  withErrorHandler,
+} from "@/lib/errors";
+import { toCsvRow } from "@/lib/csv";
+
+const DEFAULT_PER_PAGE = 50;
+const MAX_PER_PAGE = 500;
+
+const RESULTS: AuditLogEntry["result"][] = [
+  "granted",
+  "denied",
+  "success",
+  "failure",
+];
+
+function parseDate(value: string | null, name: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new BadRequestError(`${name} must be an ISO 8601 date`);
+  }
+  return date;
+}
+
+function parseInteger(
+  value: string | null,
+  name: string,
+  fallback: number,
+  min: number,
+  max = Number.MAX_SAFE_INTEGER,
+): number {
+  if (!value) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new BadRequestError(
+      max === Number.MAX_SAFE_INTEGER
+        ? `${name} must be an integer of at least ${min}`
+        : `${name} must be an integer between ${min} and ${max}`,
+    );
+  }
+  return number;
+}
+
+/**
+ * Build an audit query from search params
+ */
+function parseAuditQuery(searchParams: URLSearchParams): AuditQuery {
+  const result = searchParams.get("result");
+  if (result && !RESULTS.includes(result as AuditLogEntry["result"])) {
+    throw new BadRequestError(`result must be one of ${RESULTS.join(", ")}`);
+  }
+
+  return {
+    userId: searchParams.get("userId") || undefined,
+    action: searchParams.get("action") || undefined,
+    resource: searchParams.get("resource") || undefined,
+    result: (result as AuditLogEntry["result"]) || undefined,
+    from: parseDate(searchParams.get("from"), "from"),
+    to: parseDate(searchParams.get("to"), "to"),
+  };
+}
+
+const CSV_COLUMNS = [
+  "timestamp",
+  "id",
+  "userId",
+  "action",
+  "resource",
+  "result",
+  "ipAddress",
+  "userAgent",
+  "criticality",
+  "metadata",
+];
+
+/**
+ * Every matching event as export chunks (oldest first)
+ */
+async function* exportChunks(
+  query: AuditQuery,
+  format: "csv" | "json",
+): AsyncGenerator<string> {
+  if (format === "csv") {
+    yield toCsvRow(CSV_COLUMNS);
+  } else {
+    yield "[";
+  }
+
+  let first = true;
+  for await (const entry of iterateAuditLog(query)) {
+    if (format === "json") {
+      yield `${first ? "\n" : ",\n"}${JSON.stringify(entry)}`;
+    } else {
+      yield toCsvRow([
+        entry.timestamp,
+        entry.id,
+        entry.userId,
+        entry.action,
+        entry.resource,
+        entry.result,
+        entry.ipAddress,
+        entry.userAgent,
+        entry.metadata?.criticality,
+        entry.metadata ? JSON.stringify(entry.metadata) : "",
+      ]);
+    }
+    first = false;
+  }
+
+  if (format === "json") {
+    yield first ? "]\n" : "\n]\n";
+  }
+}
+
+/**
+ * GET /api/admin/audit
+ * List audit events with filtering and pagination, or export them
+ * Query: userId, action, resource, result, from, to, page (from 0),
+ *        per_page (1-500, default 50),
+ *        format=csv|json (stream every matching event as a download,
+ *        oldest first)
+ * Requires: Admin role
+ */
+export async function GET(request: NextRequest) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    await requireAdmin(request);
+
+    const { searchParams } = new URL(request.url);
+    const query = parseAuditQuery(searchParams);
+    const format = searchParams.get("format");
+
+    if (format === "csv" || format === "json") {
+      // Streamed from the sink, so every matching event is exported
+      const chunks = exportChunks(query, format);
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          try {
+            const { value, done } = await chunks.next();
+            if (done) {
+              controller.close();
+              return;
+            }
+            controller.enqueue(encoder.encode(value));
+          } catch (error) {
+            // Headers are sent; a truncated file is all we can signal
+            console.error("[Audit Export] Export aborted:", error);
+            controller.error(error);
+          }
+        },
+        async cancel() {
+          await chunks.return(undefined);
+        },
+      });
+
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+      return new NextResponse(stream, {
+        headers: {
+          "Content-Type":
+            format === "json" ? "application/json" : "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    if (format) {
+      throw new BadRequestError("format must be csv or json");
+    }
+
+    const page = parseInteger(searchParams.get("page"), "page", 0, 0);
+    const perPage = parseInteger(
+      searchParams.get("per_page"),
+      "per_page",
+      DEFAULT_PER_PAGE,
+      1,
+      MAX_PER_PAGE,
+    );
+
+    const { entries, total } = await queryAuditLog({
+      ...query,
+      limit: perPage,
+      offset: page * perPage,
+    });
+
+    return createPaginatedResponse(entries, {
+      page,
+      perPage,
+      total,
+      hasMore: (page + 1) * perPage < total,
+    });
+  });
+}
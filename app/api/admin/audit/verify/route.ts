@@ -0,0 +1,27 @@
+/**
+ * Admin Audit Chain Verification API Route
+ * BFF Layer: Check the audit trail's hash chain for tampering
+ */
+
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/middleware/auth.middleware";
+import { verifyAuditChain } from "@/lib/services/audit.service";
+import { createSuccessResponse, withErrorHandler } from "@/lib/errors";
+
+/**
+ * GET /api/admin/audit/verify
+ * Walk the audit hash chain and report the first broken link or missing
+ * entries at its end
+ * Requires: Admin role
+ */
+export async function GET(request: NextRequest) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    await requireAdmin(request);
+
+    // Call service layer (BFF)
+    const verification = await verifyAuditChain();
+
+    return createSuccessResponse(verification);
+  });
+}
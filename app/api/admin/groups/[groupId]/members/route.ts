@@ -0,0 +1,81 @@
+/**
+ * Admin Group Members API Route
+ * BFF Layer: Handles group membership (users and nested groups)
+ */
+
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/middleware/auth.middleware";
+import {
+  addGroupMember,
+  removeGroupMember,
+  groupSubject,
+} from "@/lib/services/group.service";
+import {
+  createSuccessResponse,
+  withErrorHandler,
+  BadRequestError,
+} from "@/lib/errors";
+
+/**
+ * POST /api/admin/groups/[groupId]/members
+ * Add a user ({ userId }) or nest a group ({ groupId })
+ * Requires: Admin role
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> },
+) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireAdmin(request);
+
+    const { groupId } = await params;
+    const body: { userId?: string; groupId?: string } = await request.json();
+
+    if (!body.userId && !body.groupId) {
+      throw new BadRequestError("userId or groupId is required");
+    }
+
+    // Call service layer (BFF)
+    const group = await addGroupMember(
+      groupId,
+      body.groupId ? groupSubject(body.groupId) : body.userId!,
+      userContext.userId,
+    );
+
+    return createSuccessResponse(group, 201);
+  });
+}
+
+/**
+ * DELETE /api/admin/groups/[groupId]/members?userId=... | ?groupId=...
+ * Remove a user or nested group
+ * Requires: Admin role
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> },
+) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireAdmin(request);
+
+    const { groupId } = await params;
+    const { searchParams } = new URL(request.url);
+    const memberUserId = searchParams.get("userId");
+    const memberGroupId = searchParams.get("groupId");
+
+    if (!memberUserId && !memberGroupId) {
+      throw new BadRequestError("userId or groupId is required");
+    }
+
+    // Call service layer (BFF)
+    await removeGroupMember(
+      groupId,
+      memberGroupId ? groupSubject(memberGroupId) : memberUserId!,
+      userContext.userId,
+    );
+
+    return createSuccessResponse({ message: "Member removed successfully" });
+  });
+}
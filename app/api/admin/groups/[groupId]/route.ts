@@ -0,0 +1,53 @@
+/**
+ * Admin Group Detail API Route
+ * BFF Layer: Handles individual group operations with Zero-Trust auth
+ */
+
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/middleware/auth.middleware";
+import { getGroup, deleteGroup } from "@/lib/services/group.service";
+import { createSuccessResponse, withErrorHandler } from "@/lib/errors";
+
+/**
+ * GET /api/admin/groups/[groupId]
+ * Get a group with members, subgroups, parent groups and grants
+ * Requires: Admin role
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> },
+) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    await requireAdmin(request);
+
+    const { groupId } = await params;
+
+    // Call service layer (BFF)
+    const group = await getGroup(groupId);
+
+    return createSuccessResponse(group);
+  });
+}
+
+/**
+ * DELETE /api/admin/groups/[groupId]
+ * Delete a group, its memberships and everything granted to it
+ * Requires: Admin role
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> },
+) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireAdmin(request);
+
+    const { groupId } = await params;
+
+    // Call service layer (BFF)
+    await deleteGroup(groupId, userContext.userId);
+
+    return createSuccessResponse({ message: "Group deleted successfully" });
+  });
+}
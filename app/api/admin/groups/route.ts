@@ -0,0 +1,63 @@
+/**
+ * Admin Groups API Route
+ * BFF Layer: Handles group management with Zero-Trust auth
+ */
+
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/middleware/auth.middleware";
+import {
+  listGroups,
+  addGroupMember,
+  groupSubject,
+} from "@/lib/services/group.service";
+import {
+  createSuccessResponse,
+  withErrorHandler,
+  BadRequestError,
+} from "@/lib/errors";
+
+/**
+ * GET /api/admin/groups
+ * List all groups with their direct members and subgroups
+ * Requires: Admin role
+ */
+export async function GET(request: NextRequest) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    await requireAdmin(request);
+
+    // Call service layer (BFF)
+    const groups = await listGroups();
+
+    return createSuccessResponse(groups);
+  });
+}
+
+/**
+ * POST /api/admin/groups
+ * Create a group with its first member (a user or another group)
+ * Body: { id, userId } or { id, groupId }
+ * Requires: Admin role
+ */
+export async function POST(request: NextRequest) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireAdmin(request);
+
+    const body: { id: string; userId?: string; groupId?: string } =
+      await request.json();
+
+    if (!body.id || (!body.userId && !body.groupId)) {
+      throw new BadRequestError("id and a first member are required");
+    }
+
+    // Call service layer (BFF)
+    const group = await addGroupMember(
+      body.id,
+      body.groupId ? groupSubject(body.groupId) : body.userId!,
+      userContext.userId,
+    );
+
+    return createSuccessResponse(group, 201);
+  });
+}
@@ -0,0 +1,42 @@
+/**
+ * Admin Identity Lifecycle Dates API Route
+ * BFF Layer: Scheduled deactivation and expiry of one identity with
+ * Zero-Trust auth
+ */
+
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/middleware/auth.middleware";
+import {
+  parseIdentityLifecycleUpdate,
+  setIdentityLifecycle,
+} from "@/lib/services/identity-lifecycle.service";
+import { createSuccessResponse, withErrorHandler } from "@/lib/errors";
+
+/**
+ * PUT /api/admin/identities/[id]/lifecycle
+ * Set or clear the identity's lifecycle dates
+ * Body: deactivateAt, expiresAt (ISO date-time, null clears, omitted keeps)
+ * Returns the updated identity
+ * Requires: Admin role
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireAdmin(request);
+
+    const { id } = await params;
+    const update = parseIdentityLifecycleUpdate(await request.json());
+
+    // Call service layer (BFF)
+    const identity = await setIdentityLifecycle(
+      id,
+      update,
+      userContext.userId,
+    );
+
+    return createSuccessResponse(identity);
+  });
+}
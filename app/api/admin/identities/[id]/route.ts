@@ -8,8 +8,8 @@ import { requireAdmin } from "@/lib/middleware/auth.middleware";
 import {
   getIdentity,
   updateIdentity,
-  deleteIdentity,
 } from "@/lib/services/kratos.service";
+import { offboardIdentity } from "@/lib/services/offboarding.service";
 import {
   createSuccessResponse,
   withErrorHandler,
@@ -89,7 +89,12 @@ export async function PATCH(
 
 /**
  * DELETE /api/admin/identities/[id]
- * Delete an identity
+ * Offboard and delete an identity: revokes its sessions, removes every
+ * relation tuple it is the subject of, then deletes it
+ * Query: transferOwnershipTo (user ID that becomes owner of every
+ *        organization the identity owns; required if it is the only owner)
+ * Returns the offboarding report (removed permissions, transferred
+ * organizations)
  * Requires: Admin role
  */
 export async function DELETE(
@@ -98,15 +103,24 @@ export async function DELETE(
 ) {
   return withErrorHandler(async () => {
     // Zero-Trust: Authenticate and authorize
-    await requireAdmin(request);
+    const userContext = await requireAdmin(request);
 
     // Get identity ID
     const { id } = await params;
+    const { searchParams } = new URL(request.url);
 
     // Call service layer (BFF)
-    await deleteIdentity(id);
-
-    return createSuccessResponse({ message: "Identity deleted successfully" });
+    const report = await offboardIdentity(id, {
+      actorId: userContext.userId,
+      transferOwnershipTo:
+        searchParams.get("transferOwnershipTo")?.trim() || undefined,
+      deleteIdentity: true,
+    });
+
+    return createSuccessResponse({
+      message: "Identity deleted successfully",
+      report,
+    });
   });
 }
 
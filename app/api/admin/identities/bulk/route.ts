@@ -0,0 +1,41 @@
+/**
+ * Admin Identity Bulk API Route
+ * BFF Layer: One action applied to many identities with Zero-Trust auth
+ */
+
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/middleware/auth.middleware";
+import {
+  parseBulkIdentityRequest,
+  runBulkIdentityAction,
+} from "@/lib/services/identity-bulk.service";
+import { createSuccessResponse, withErrorHandler } from "@/lib/errors";
+
+/**
+ * POST /api/admin/identities/bulk
+ * Apply an action to the selected identities
+ * Body: action (activate|deactivate|delete|grant_role|revoke_role|
+ *       add_to_org), identityIds, role (grant_role / revoke_role: the
+ *       GlobalRole, e.g. "admin"), orgId and orgRole (add_to_org, role
+ *       defaults to members)
+ * Returns { action, total, succeeded, failed, results } with one
+ * { identityId, success, error? } per identity; partial failures still
+ * respond 200
+ * Requires: Admin role
+ */
+export async function POST(request: NextRequest) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireAdmin(request);
+
+    const bulkRequest = parseBulkIdentityRequest(await request.json());
+
+    // Call service layer (BFF)
+    const result = await runBulkIdentityAction(
+      bulkRequest,
+      userContext.userId,
+    );
+
+    return createSuccessResponse(result);
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * Admin Identity Export API Route
+ * BFF Layer: Streamed identity export (CSV / JSON / NDJSON) with Zero-Trust
+ * auth
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/middleware/auth.middleware";
+import { parseIdentityListQuery } from "@/lib/services/kratos.service";
+import {
+  CONTENT_TYPES,
+  IDENTITY_EXPORT_FIELDS,
+  IdentityExportFormat,
+  exportIdentities,
+  isIdentityExportField,
+} from "@/lib/services/identity-export.service";
+import { BadRequestError, withErrorHandler } from "@/lib/errors";
+
+function exportFormat(value: string | null): IdentityExportFormat {
+  if (!value) return "csv";
+  if (value === "csv" || value === "json" || value === "ndjson") return value;
+  throw new BadRequestError("format must be csv, json or ndjson");
+}
+
+function listParam(value: string | null): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * GET /api/admin/identities/export
+ * Download identities as a file, streamed while Kratos is paged through
+ * Query: format (csv|json|ndjson, default csv),
+ *        traits (comma-separated trait paths, default
+ *        email,name.first,name.last),
+ *        fields (comma-separated: schema_id, state, verifiable_addresses,
+ *        metadata_public, credentials, created_at, updated_at),
+ *        permissions=true (each identity's relation tuples),
+ *        plus the filters of GET /api/admin/identities (sort is ignored)
+ * Credentials are exported as types and identifiers only
+ * Requires: Admin role
+ */
+export async function GET(request: NextRequest) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireAdmin(request);
+
+    const { searchParams } = new URL(request.url);
+    const format = exportFormat(searchParams.get("format"));
+    const fields = listParam(searchParams.get("fields"));
+    const unknownField = fields.find((field) => !isIdentityExportField(field));
+    if (unknownField) {
+      throw new BadRequestError(
+        `Unknown field ${unknownField}; use ${IDENTITY_EXPORT_FIELDS.join(", ")}`,
+      );
+    }
+    const filters = parseIdentityListQuery(searchParams);
+
+    // Call service layer (BFF), streaming chunks as they are produced
+    const chunks = exportIdentities({
+      format,
+      traits: listParam(searchParams.get("traits")),
+      fields: fields.filter(isIdentityExportField),
+      permissions: searchParams.get("permissions") === "true",
+      filters,
+      actorId: userContext.userId,
+    });
+    // Pull the first chunk so bad options still fail with a JSON error
+    const first = await chunks.next();
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (!first.done) controller.enqueue(encoder.encode(first.value));
+      },
+      async pull(controller) {
+        try {
+          const { value, done } = await chunks.next();
+          if (done) {
+            controller.close();
+            return;
+          }
+          controller.enqueue(encoder.encode(value));
+        } catch (error) {
+          // Headers are sent; a truncated file is all we can signal
+          console.error("[Identity Export] Export aborted:", error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await chunks.return(undefined);
+      },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new NextResponse(stream, {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="identities-${date}.${format}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  });
+}
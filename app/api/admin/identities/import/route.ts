@@ -0,0 +1,105 @@
+/**
+ * Admin Identity Import API Route
+ * BFF Layer: Bulk identity creation from CSV / JSON Lines with Zero-Trust auth
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/middleware/auth.middleware";
+import {
+  IdentityImportFormat,
+  importIdentities,
+  parseIdentityImport,
+} from "@/lib/services/identity-import.service";
+import { BadRequestError, withErrorHandler } from "@/lib/errors";
+
+// Upper bound for an uploaded file
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * format query parameter, else the Content-Type of the upload
+ */
+function importFormat(request: NextRequest): IdentityImportFormat {
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format");
+  if (format === "csv" || format === "jsonl") return format;
+  if (format) {
+    throw new BadRequestError("format must be csv or jsonl");
+  }
+
+  const contentType = request.headers.get("content-type") || "";
+  if (contentType.includes("csv")) return "csv";
+  if (contentType.includes("ndjson") || contentType.includes("jsonl")) {
+    return "jsonl";
+  }
+  throw new BadRequestError(
+    "Send format=csv|jsonl or a text/csv / application/x-ndjson body",
+  );
+}
+
+/**
+ * POST /api/admin/identities/import
+ * Create identities from a CSV or JSON Lines body
+ * Query: format (csv|jsonl, else taken from Content-Type), dryRun=true
+ * Responds with JSON Lines (application/x-ndjson), one
+ * { type: "result", row, status, email?, identityId?, error? } per row as
+ * it is processed, then { type: "summary", ... }
+ * Requires: Admin role
+ */
+export async function POST(request: NextRequest) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireAdmin(request);
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get("dryRun") === "true";
+    const format = importFormat(request);
+
+    const text = await request.text();
+    if (text.length > MAX_IMPORT_BYTES) {
+      throw new BadRequestError(
+        `Import files are limited to ${MAX_IMPORT_BYTES / 1024 / 1024} MB`,
+      );
+    }
+    const rows = parseIdentityImport(text, format);
+
+    // Call service layer (BFF), streaming each row's result
+    const events = importIdentities(rows, {
+      dryRun,
+      actorId: userContext.userId,
+    });
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await events.next();
+          if (done) {
+            controller.close();
+            return;
+          }
+          controller.enqueue(encoder.encode(JSON.stringify(value) + "\n"));
+        } catch (error) {
+          console.error("[Identity Import] Import aborted:", error);
+          const message =
+            error instanceof Error ? error.message : "Import aborted";
+          controller.enqueue(
+            encoder.encode(
+              JSON.stringify({ type: "error", error: message }) + "\n",
+            ),
+          );
+          controller.close();
+        }
+      },
+      async cancel() {
+        // Client went away: stop before creating more identities
+        await events.return(undefined);
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Cache-Control": "no-store",
+      },
+    });
+  });
+}
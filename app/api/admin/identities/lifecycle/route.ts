@@ -0,0 +1,84 @@
+/**
+ * Admin Identity Lifecycle API Route
+ * BFF Layer: Expiring identities and the lifecycle job with Zero-Trust auth
+ */
+
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/middleware/auth.middleware";
+import {
+  listExpiringIdentities,
+  triggerIdentityLifecycle,
+} from "@/lib/services/identity-lifecycle.service";
+import { logAdminAction } from "@/lib/services/audit.service";
+import {
+  BadRequestError,
+  ConflictError,
+  createSuccessResponse,
+  withErrorHandler,
+} from "@/lib/errors";
+
+const DEFAULT_DAYS = 14;
+const MAX_DAYS = 365;
+
+/**
+ * GET /api/admin/identities/lifecycle
+ * Identities due to be deactivated or offboarded soon, soonest first
+ * (dates that passed but haven't been applied yet come first as overdue)
+ * Query: days (window, default 14, max 365)
+ * Requires: Admin role
+ */
+export async function GET(request: NextRequest) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    await requireAdmin(request);
+
+    const { searchParams } = new URL(request.url);
+    const days = Number(searchParams.get("days") || DEFAULT_DAYS);
+    if (!Number.isInteger(days) || days < 0 || days > MAX_DAYS) {
+      throw new BadRequestError(
+        `days must be an integer between 0 and ${MAX_DAYS}`,
+      );
+    }
+
+    // Call service layer (BFF)
+    const expiring = await listExpiringIdentities(days);
+
+    return createSuccessResponse(expiring);
+  });
+}
+
+/**
+ * POST /api/admin/identities/lifecycle
+ * Run the lifecycle job now (also for external schedulers when
+ * IDENTITY_LIFECYCLE_INTERVAL_MS=0)
+ * Returns { startedAt, checked, deactivated, offboarded, blocked, failed }
+ * Requires: Admin role
+ */
+export async function POST(request: NextRequest) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireAdmin(request);
+
+    // Call service layer (BFF)
+    const run = await triggerIdentityLifecycle();
+    if (!run) {
+      throw new ConflictError("The lifecycle job is already running");
+    }
+
+    await logAdminAction(
+      userContext.userId,
+      "run_identity_lifecycle",
+      "Identity",
+      run.failed.length === 0,
+      {
+        checked: run.checked,
+        deactivated: run.deactivated,
+        offboarded: run.offboarded,
+        blocked: run.blocked,
+        failed: run.failed,
+      },
+    );
+
+    return createSuccessResponse(run);
+  });
+}
@@ -6,18 +6,57 @@
 import { NextRequest } from "next/server";
 import { requireAdmin } from "@/lib/middleware/auth.middleware";
 import {
-  listIdentities,
+  listIdentitiesPage,
   createIdentity,
+  parseIdentityListQuery,
 } from "@/lib/services/kratos.service";
+import { searchIdentities } from "@/lib/services/identity-search.service";
 import {
+  BadRequestError,
+  createPaginatedResponse,
   createSuccessResponse,
   withErrorHandler,
 } from "@/lib/errors";
 import { CreateIdentityRequest } from "@/lib/types";
 
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+function parsePageSize(value: string | null): number {
+  if (!value) return DEFAULT_PAGE_SIZE;
+  const pageSize = Number(value);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new BadRequestError(
+      `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+    );
+  }
+  return pageSize;
+}
+
+/**
+ * Search results are paged by offset; the page token is the offset
+ */
+function parseSearchOffset(pageToken: string | null): number {
+  if (!pageToken) return 0;
+  const offset = Number(pageToken);
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    throw new BadRequestError("Invalid pageToken");
+  }
+  return offset;
+}
+
 /**
  * GET /api/admin/identities
- * List all identities with pagination
+ * List identities, filtered and optionally sorted server-side
+ * Query: q (search email, name and metadata; prefix and typo tolerant,
+ *        best matches first), state (active|inactive), schema,
+ *        verified (true|false), credentialsIdentifier (exact),
+ *        provider (metadata_public.provider),
+ *        sort (created_at|updated_at|email|state), order (asc|desc),
+ *        pageSize, pageToken
+ * q can't be combined with credentialsIdentifier or sort
+ * Paged with opaque tokens: pass pagination.nextPageToken back as
+ * pageToken with the same filters (page is only echoed)
  * Requires: Admin role
  */
 export async function GET(request: NextRequest) {
@@ -25,15 +64,53 @@ export async function GET(request: NextRequest) {
     // Zero-Trust: Authenticate and authorize
     await requireAdmin(request);
 
-    // Extract query parameters
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get("page") || "0");
-    const perPage = parseInt(searchParams.get("per_page") || "250");
+    const query = parseIdentityListQuery(searchParams);
+    const pageSize = parsePageSize(searchParams.get("pageSize"));
+    const page = Math.max(
+      1,
+      parseInt(searchParams.get("page") || "1", 10) || 1,
+    );
+
+    const q = searchParams.get("q")?.trim();
+    if (q) {
+      if (query.credentialsIdentifier || query.sort) {
+        throw new BadRequestError(
+          "q can't be combined with credentialsIdentifier or sort",
+        );
+      }
+      const offset = parseSearchOffset(searchParams.get("pageToken"));
+
+      // Call service layer (BFF)
+      const results = await searchIdentities(q, {
+        ...query,
+        offset,
+        limit: pageSize,
+      });
+      const hasMore = offset + pageSize < results.total;
+
+      return createPaginatedResponse(results.identities, {
+        page,
+        perPage: pageSize,
+        total: results.total,
+        hasMore,
+        nextPageToken: hasMore ? String(offset + pageSize) : undefined,
+      });
+    }
 
     // Call service layer (BFF)
-    const identities = await listIdentities(page, perPage);
+    const result = await listIdentitiesPage({
+      ...query,
+      pageToken: searchParams.get("pageToken") || undefined,
+      pageSize,
+    });
 
-    return createSuccessResponse(identities);
+    return createPaginatedResponse(result.identities, {
+      page,
+      perPage: pageSize,
+      hasMore: Boolean(result.nextPageToken),
+      nextPageToken: result.nextPageToken,
+    });
   });
 }
 
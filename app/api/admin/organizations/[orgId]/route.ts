@@ -0,0 +1,90 @@
+/**
+ * Admin Organization Detail API Route
+ * BFF Layer: Handles individual organization operations with Zero-Trust auth
+ */
+
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/middleware/auth.middleware";
+import {
+  getOrganization,
+  updateOrganization,
+  deleteOrganization,
+  listOrgMembers,
+} from "@/lib/services/organization.service";
+import { createSuccessResponse, withErrorHandler } from "@/lib/errors";
+import { Organization } from "@/lib/types";
+
+/**
+ * GET /api/admin/organizations/[orgId]
+ * Get an organization with its members grouped by role
+ * Requires: Admin role
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> },
+) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    await requireAdmin(request);
+
+    const { orgId } = await params;
+
+    // Call service layer (BFF)
+    const organization = await getOrganization(orgId);
+    const members = await listOrgMembers(orgId);
+
+    return createSuccessResponse({ ...organization, members });
+  });
+}
+
+/**
+ * PATCH /api/admin/organizations/[orgId]
+ * Update organization metadata (name, description)
+ * Requires: Admin role
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> },
+) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireAdmin(request);
+
+    const { orgId } = await params;
+    const body: Partial<Pick<Organization, "name" | "description">> =
+      await request.json();
+
+    // Call service layer (BFF)
+    const organization = await updateOrganization(
+      orgId,
+      { name: body.name, description: body.description },
+      userContext.userId,
+    );
+
+    return createSuccessResponse(organization);
+  });
+}
+
+/**
+ * DELETE /api/admin/organizations/[orgId]
+ * Delete an organization and all of its memberships
+ * Requires: Admin role
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> },
+) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireAdmin(request);
+
+    const { orgId } = await params;
+
+    // Call service layer (BFF)
+    await deleteOrganization(orgId, userContext.userId);
+
+    return createSuccessResponse({
+      message: "Organization deleted successfully",
+    });
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Admin Organizations API Route
+ * BFF Layer: Handles organization management with Zero-Trust auth
+ */
+
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/middleware/auth.middleware";
+import {
+  listOrganizations,
+  createOrganization,
+} from "@/lib/services/organization.service";
+import { createSuccessResponse, withErrorHandler } from "@/lib/errors";
+import { CreateOrganizationRequest } from "@/lib/types";
+
+/**
+ * GET /api/admin/organizations
+ * List all organizations
+ * Requires: Admin role
+ */
+export async function GET(request: NextRequest) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    await requireAdmin(request);
+
+    // Call service layer (BFF)
+    const organizations = await listOrganizations();
+
+    return createSuccessResponse(organizations);
+  });
+}
+
+/**
+ * POST /api/admin/organizations
+ * Create an organization (the owner defaults to the calling admin)
+ * Requires: Admin role
+ */
+export async function POST(request: NextRequest) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireAdmin(request);
+
+    const body: CreateOrganizationRequest = await request.json();
+
+    // Call service layer (BFF)
+    const organization = await createOrganization(body, userContext.userId);
+
+    return createSuccessResponse(organization, 201);
+  });
+}
@@ -0,0 +1,62 @@
+/**
+ * Admin Permission Explain API Route
+ * BFF Layer: Show why a subject does or does not have a relation
+ */
+
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/middleware/auth.middleware";
+import { explainPermission } from "@/lib/services/keto.service";
+import {
+  BadRequestError,
+  createSuccessResponse,
+  withErrorHandler,
+} from "@/lib/errors";
+import { toPermissionQuery } from "@/lib/keto-model";
+
+// Deeper trees are rarely readable and cost Keto more
+const MAX_EXPAND_DEPTH = 10;
+
+function parseMaxDepth(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const depth = Number(value);
+  if (!Number.isInteger(depth) || depth < 1 || depth > MAX_EXPAND_DEPTH) {
+    throw new BadRequestError(
+      `maxDepth must be an integer between 1 and ${MAX_EXPAND_DEPTH}`,
+    );
+  }
+  return depth;
+}
+
+/**
+ * GET /api/admin/permissions/explain
+ * Check result plus the Keto expand tree for namespace:object#relation,
+ * with the routes to the subject marked
+ * Query: namespace, object, relation (or permission), subject, maxDepth?
+ * Requires: Admin role
+ */
+export async function GET(request: NextRequest) {
+  return withErrorHandler(async () => {
+    // Zero-Trust: Authenticate and authorize
+    await requireAdmin(request);
+
+    const { searchParams } = new URL(request.url);
+    const namespace = searchParams.get("namespace");
+    const object = searchParams.get("object");
+    const relation = searchParams.get("relation");
+    const subject = searchParams.get("subject");
+
+    if (!namespace || !object || !relation || !subject) {
+      throw new BadRequestError(
+        "namespace, object, relation, and subject are required",
+      );
+    }
+
+    // Call service layer (BFF)
+    const explanation = await explainPermission(
+      toPermissionQuery({ namespace, object, relation, subject }),
+      parseMaxDepth(searchParams.get("maxDepth")),
+    );
+
+    return createSuccessResponse(explanation);
+  });
+}
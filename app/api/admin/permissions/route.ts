@@ -8,19 +8,42 @@ import { requireAdmin } from "@/lib/middleware/auth.middleware";
 import {
   grantPermission,
   revokePermission,
-  listUserPermissions,
-  listObjectPermissions,
+  listPermissionsPage,
 } from "@/lib/services/keto.service";
 import {
+  createPaginatedResponse,
   createSuccessResponse,
   withErrorHandler,
   BadRequestError,
 } from "@/lib/errors";
-import { RelationTuple } from "@/lib/types";
+import { SubjectSet } from "@/lib/types";
+import { formatSubjectSet } from "@/lib/subject-set";
+import { toRelationTuple, toRelationTupleQuery } from "@/lib/keto-model";
+import {
+  formatConsistencyToken,
+  setConsistencyCookie,
+} from "@/lib/consistency";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+function parsePageSize(value: string | null): number {
+  if (!value) return DEFAULT_PAGE_SIZE;
+  const pageSize = Number(value);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new BadRequestError(
+      `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+    );
+  }
+  return pageSize;
+}
 
 /**
  * GET /api/admin/permissions
- * List permissions for a user or object
+ * Browse relation tuples, filtered by any of namespace, object, relation
+ * (needs namespace) and subject (user ID or subject set; userId is an alias)
+ * Paged with Keto's page tokens: pass pagination.nextPageToken back as
+ * pageToken (page is only echoed, Keto pages have no numbers)
  * Requires: Admin role
  */
 export async function GET(request: NextRequest) {
@@ -29,34 +52,37 @@ export async function GET(request: NextRequest) {
     await requireAdmin(request);
 
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get("userId");
-    const namespace = searchParams.get("namespace");
-    const object = searchParams.get("object");
+    const query = toRelationTupleQuery({
+      namespace: searchParams.get("namespace") || undefined,
+      object: searchParams.get("object") || undefined,
+      relation: searchParams.get("relation") || undefined,
+      subject:
+        searchParams.get("subject") || searchParams.get("userId") || undefined,
+    });
 
-    let permissions: RelationTuple[];
+    const pageSize = parsePageSize(searchParams.get("pageSize"));
 
-    if (userId) {
-      // List permissions for a specific user
-      permissions = await listUserPermissions(
-        userId,
-        namespace || undefined
-      );
-    } else if (namespace && object) {
-      // List permissions for a specific object
-      permissions = await listObjectPermissions(namespace, object);
-    } else {
-      throw new BadRequestError(
-        "Either userId or (namespace + object) is required"
-      );
-    }
+    // Call service layer (BFF)
+    const page = await listPermissionsPage(query, {
+      pageToken: searchParams.get("pageToken") || undefined,
+      pageSize,
+    });
 
-    return createSuccessResponse(permissions);
+    return createPaginatedResponse(page.tuples, {
+      page: Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1),
+      perPage: pageSize,
+      hasMore: Boolean(page.nextPageToken),
+      nextPageToken: page.nextPageToken,
+    });
   });
 }
 
 /**
  * POST /api/admin/permissions
- * Grant a permission to a user
+ * Grant a permission to a user or subject set
+ * Body: namespace, object, relation and either subject
+ *       (user ID or "Namespace:object#relation") or subject_set
+ * Returns a consistencyToken (also set as a cookie) for read-after-write
  * Requires: Admin role
  */
 export async function POST(request: NextRequest) {
@@ -64,7 +90,17 @@ export async function POST(request: NextRequest) {
     // Zero-Trust: Authenticate and authorize
     await requireAdmin(request);
 
-    const body: RelationTuple = await request.json();
+    const body: {
+      namespace?: string;
+      object?: string;
+      relation?: string;
+      subject?: string;
+      subject_set?: SubjectSet;
+    } = await request.json();
+
+    if (!body.subject && body.subject_set) {
+      body.subject = formatSubjectSet(body.subject_set);
+    }
 
     // Validate required fields
     if (!body.namespace || !body.object || !body.relation || !body.subject) {
@@ -73,19 +109,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Grant permission
-    await grantPermission(body);
+    // Grant permission (namespace and relation must exist in the model)
+    const consistency = await grantPermission(
+      toRelationTuple({
+        namespace: body.namespace,
+        object: body.object,
+        relation: body.relation,
+        subject: body.subject,
+      }),
+    );
 
-    return createSuccessResponse(
-      { message: "Permission granted successfully" }, 
+    const consistencyToken = await formatConsistencyToken(consistency);
+    const response = createSuccessResponse(
+      {
+        message: "Permission granted successfully",
+        consistencyToken,
+      },
       201
     );
+    setConsistencyCookie(response, consistencyToken);
+    return response;
   });
 }
 
 /**
  * DELETE /api/admin/permissions
- * Revoke a permission from a user
+ * Revoke a permission from a user or subject set
+ * Returns a consistencyToken (also set as a cookie) for read-after-write
  * Requires: Admin role
  */
 export async function DELETE(request: NextRequest) {
@@ -107,15 +157,16 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Revoke permission
-    await revokePermission({
-      namespace,
-      object,
-      relation,
-      subject,
-    });
+    const consistency = await revokePermission(
+      toRelationTuple({ namespace, object, relation, subject }),
+    );
 
-    return createSuccessResponse({
+    const consistencyToken = await formatConsistencyToken(consistency);
+    const response = createSuccessResponse({
       message: "Permission revoked successfully",
+      consistencyToken,
     });
+    setConsistencyCookie(response, consistencyToken);
+    return response;
   });
 }
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import {
+  SESSION_COOKIE_NAME,
+  revokeSessionToken,
+} from "@/lib/services/session.service";
 
 export async function POST(request: NextRequest) {
   const oryUrl = process.env.NEXT_PUBLIC_ORY_SDK_URL;
@@ -15,6 +19,9 @@ export async function POST(request: NextRequest) {
     const cookieStore = await cookies();
     const allCookies = cookieStore.getAll();
 
+    // Revoke the signed SimpleLogin session server-side
+    await revokeSessionToken(cookieStore.get(SESSION_COOKIE_NAME)?.value);
+
     // Find the Ory Kratos session cookie (it can have different names)
     const sessionCookie = allCookies.find(
       (cookie) =>
@@ -71,7 +78,7 @@ export async function POST(request: NextRequest) {
       if (
         cookie.name.startsWith("ory_") ||
         cookie.name.startsWith("csrf_token_") ||
-        cookie.name === "simplelogin_session" ||
+        cookie.name === SESSION_COOKIE_NAME ||
         cookie.name === "pending_simplelogin_user"
       ) {
         response.cookies.set(cookie.name, "", {
@@ -96,7 +103,7 @@ export async function POST(request: NextRequest) {
       if (
         cookie.name.startsWith("ory_") ||
         cookie.name.startsWith("csrf_token_") ||
-        cookie.name === "simplelogin_session" ||
+        cookie.name === SESSION_COOKIE_NAME ||
         cookie.name === "pending_simplelogin_user"
       ) {
         response.cookies.set(cookie.name, "", {
@@ -0,0 +1,33 @@
+/**
+ * Internal Audit Ingest API Route
+ * Receives audit events forwarded by the edge middleware and writes them to
+ * the Node audit sink and hash chain
+ */
+
+import { NextRequest } from "next/server";
+import { logAudit } from "@/lib/services/audit.service";
+import { readForwardedAuditEvent } from "@/lib/services/audit-forward.sink";
+import {
+  UnauthorizedError,
+  createSuccessResponse,
+  withErrorHandler,
+} from "@/lib/errors";
+
+/**
+ * POST /api/internal/audit
+ * Body: an audit event signed with the session keys (text/plain)
+ * Requires: a valid signature; no user session (the caller is the edge
+ * middleware)
+ */
+export async function POST(request: NextRequest) {
+  return withErrorHandler(async () => {
+    const entry = await readForwardedAuditEvent(await request.text());
+    if (!entry) {
+      throw new UnauthorizedError("Invalid audit event signature");
+    }
+
+    await logAudit(entry);
+
+    return createSuccessResponse({ recorded: true });
+  });
+}
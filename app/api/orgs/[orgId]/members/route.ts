@@ -0,0 +1,196 @@
+/**
+ * Organization Members API Route
+ * BFF Layer: Handles organization membership and roles with Zero-Trust auth
+ * Delegated administration: org owners/admins manage their own org only
+ */
+
+import { NextRequest } from "next/server";
+import { requireOrgPermission } from "@/lib/middleware/auth.middleware";
+import {
+  listOrgMembers,
+  addOrgMember,
+  changeOrgMemberRole,
+  removeOrgMember,
+  getOrganization,
+} from "@/lib/services/organization.service";
+import { findIdentityByEmail } from "@/lib/services/kratos.service";
+import {
+  createSuccessResponse,
+  withErrorHandler,
+  BadRequestError,
+  NotFoundError,
+} from "@/lib/errors";
+import { OrgRole } from "@/lib/types";
+
+interface MemberRequest {
+  userId?: string;
+  email?: string;
+  role: OrgRole;
+}
+
+/**
+ * Granting or taking away ownership requires manage_org (owners),
+ * so org admins cannot escalate themselves or demote owners
+ */
+async function requireOwnershipRights(
+  request: NextRequest,
+  orgId: string,
+  userId: string,
+  role: OrgRole | null,
+): Promise<void> {
+  const members = await listOrgMembers(orgId);
+  if (role === "owners" || members.owners.includes(userId)) {
+    await requireOrgPermission(request, orgId, "manage_org");
+  }
+}
+
+/**
+ * Invitations are by email; members are stored by identity ID
+ */
+async function resolveUserIdByEmail(email: string): Promise<string> {
+  const identity = await findIdentityByEmail(email);
+  if (!identity) {
+    throw new NotFoundError(
+      `No account found for ${email}. Ask them to sign up first.`,
+    );
+  }
+  return identity.id;
+}
+
+/**
+ * GET /api/orgs/[orgId]/members
+ * List members grouped by role (owners, admins, members, viewers)
+ * Requires: view_org on the organization
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> },
+) {
+  return withErrorHandler(async () => {
+    const { orgId } = await params;
+
+    // Zero-Trust: Authenticate and authorize
+    await requireOrgPermission(request, orgId, "view_org");
+
+    // Call service layer (BFF)
+    await getOrganization(orgId);
+    const members = await listOrgMembers(orgId);
+
+    return createSuccessResponse(members);
+  });
+}
+
+/**
+ * POST /api/orgs/[orgId]/members
+ * Invite a member by email (or add by identity ID) with a role
+ * Requires: manage_users on the organization (manage_org for owners)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> },
+) {
+  return withErrorHandler(async () => {
+    const { orgId } = await params;
+
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireOrgPermission(
+      request,
+      orgId,
+      "manage_users",
+    );
+
+    const body: MemberRequest = await request.json();
+
+    if ((!body.userId && !body.email) || !body.role) {
+      throw new BadRequestError("userId or email, and role are required");
+    }
+
+    const userId = body.userId || (await resolveUserIdByEmail(body.email!));
+
+    await requireOwnershipRights(request, orgId, userId, body.role);
+
+    // Call service layer (BFF)
+    const members = await addOrgMember(
+      orgId,
+      userId,
+      body.role,
+      userContext.userId,
+    );
+
+    return createSuccessResponse(members, 201);
+  });
+}
+
+/**
+ * PATCH /api/orgs/[orgId]/members
+ * Change a member's role
+ * Requires: manage_users on the organization (manage_org for owners)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> },
+) {
+  return withErrorHandler(async () => {
+    const { orgId } = await params;
+
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireOrgPermission(
+      request,
+      orgId,
+      "manage_users",
+    );
+
+    const body: MemberRequest = await request.json();
+
+    if (!body.userId || !body.role) {
+      throw new BadRequestError("userId and role are required");
+    }
+
+    await requireOwnershipRights(request, orgId, body.userId, body.role);
+
+    // Call service layer (BFF)
+    const members = await changeOrgMemberRole(
+      orgId,
+      body.userId,
+      body.role,
+      userContext.userId,
+    );
+
+    return createSuccessResponse(members);
+  });
+}
+
+/**
+ * DELETE /api/orgs/[orgId]/members?userId=...
+ * Remove a member from the organization
+ * Requires: manage_users on the organization (manage_org for owners)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> },
+) {
+  return withErrorHandler(async () => {
+    const { orgId } = await params;
+
+    // Zero-Trust: Authenticate and authorize
+    const userContext = await requireOrgPermission(
+      request,
+      orgId,
+      "manage_users",
+    );
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+
+    if (!userId) {
+      throw new BadRequestError("userId is required");
+    }
+
+    await requireOwnershipRights(request, orgId, userId, null);
+
+    // Call service layer (BFF)
+    const members = await removeOrgMember(orgId, userId, userContext.userId);
+
+    return createSuccessResponse(members);
+  });
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { getProvider } from "@/lib/oidc-providers";
+import { OAUTH_FLOW_COOKIE_NAME, consumeOAuthFlow } from "@/lib/oauth-flow";
+import {
+  authenticateWithCode,
+  getRedirectUri,
+} from "@/lib/services/oidc.service";
+import {
+  createKratosSession,
+  syncProviderUserToKratos,
+} from "@/lib/services/identity-sync.service";
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_MAX_AGE,
+  issueSessionToken,
+  getSessionCookieOptions,
+} from "@/lib/services/session.service";
+
+/**
+ * GET /auth/callback/[provider]
+ * OIDC callback for every registered provider
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> },
+) {
+  const { provider: providerId } = await params;
+  const provider = getProvider(providerId);
+
+  if (!provider) {
+    return NextResponse.redirect(
+      new URL("/auth/login?error=unknown_provider", request.url),
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const code = searchParams.get("code");
+  const state = searchParams.get("state");
+  const error = searchParams.get("error");
+
+  // Handle OAuth errors
+  if (error) {
+    console.error(`${provider.displayName} OAuth error:`, error);
+    return NextResponse.redirect(
+      new URL(`/auth/login?error=${error}`, request.url),
+    );
+  }
+
+  // Validate required parameters
+  if (!code || !state) {
+    return NextResponse.redirect(
+      new URL("/auth/login?error=missing_parameters", request.url),
+    );
+  }
+
+  // Verify state against the signed flow cookie and reject replays
+  const cookieStore = await cookies();
+  const flow = await consumeOAuthFlow(
+    provider.id,
+    cookieStore.get(OAUTH_FLOW_COOKIE_NAME)?.value,
+    state,
+  );
+  cookieStore.delete({ name: OAUTH_FLOW_COOKIE_NAME, path: "/auth/callback" });
+
+  if (!flow) {
+    console.error(`${provider.displayName} OAuth state validation failed`);
+    return NextResponse.redirect(
+      new URL("/auth/login?error=invalid_state", request.url),
+    );
+  }
+
+  try {
+    const user = await authenticateWithCode(
+      provider,
+      flow,
+      code,
+      getRedirectUri(provider, request.nextUrl.origin),
+    );
+
+    // Sync to Kratos first: the session belongs to the Kratos identity,
+    // and a user the sync refuses (unlinked account, inactive identity)
+    // gets no session at all
+    const syncResult = await syncProviderUserToKratos(provider.id, user);
+
+    if (!syncResult.success && !syncResult.skipped) {
+      console.error(
+        `${provider.displayName} identity sync failed:`,
+        syncResult.error,
+      );
+      return NextResponse.redirect(
+        new URL("/auth/login?error=account_not_linked", request.url),
+      );
+    }
+
+    // Without Kratos the provider subject is namespaced by provider, so two
+    // providers issuing the same subject can't share a session user
+    const userId =
+      syncResult.identityId || `${provider.id}:${user.subject}`;
+
+    // Create signed session cookie
+    const sessionToken = await issueSessionToken({
+      userId,
+      email: user.email,
+      name: `${user.name.first} ${user.name.last}`.trim(),
+      avatar_url: user.avatar_url,
+      provider: provider.id,
+    });
+    cookieStore.set(
+      SESSION_COOKIE_NAME,
+      sessionToken,
+      getSessionCookieOptions(),
+    );
+
+    // A Kratos session gives external users full access to Kratos features
+    if (syncResult.identityId) {
+      const kratosSessionToken = await createKratosSession(
+        syncResult.identityId,
+        SESSION_MAX_AGE,
+      );
+
+      if (kratosSessionToken) {
+        // Set the Kratos session cookie
+        cookieStore.set(
+          "ory_kratos_session",
+          kratosSessionToken,
+          getSessionCookieOptions(),
+        );
+      }
+      // Continue anyway without a Kratos session - the signed session still works
+    }
+
+    // Redirect directly to dashboard
+    return NextResponse.redirect(new URL("/dashboard", request.url));
+  } catch (error) {
+    console.error(`${provider.displayName} authentication error:`, error);
+    return NextResponse.redirect(
+      new URL("/auth/login?error=authentication_failed", request.url),
+    );
+  }
+}
@@ -1,120 +0,0 @@
-"use client";
-
-import { useState } from "react";
-import { useRouter } from "next/navigation";
-import Image from "next/image";
-
-interface CompleteProfileFormProps {
-  userData: {
-    sub: string;
-    email: string;
-    name: string;
-    avatar_url?: string;
-  };
-}
-
-export function CompleteProfileForm({ userData }: CompleteProfileFormProps) {
-  const router = useRouter();
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState("");
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
-    setError("");
-
-    try {
-      // Submit profile completion to API route
-      const response = await fetch("/api/auth/complete-profile", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          sub: userData.sub,
-          email: userData.email,
-          name: userData.name,
-          avatar_url: userData.avatar_url,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to complete profile");
-      }
-
-      // Redirect to dashboard
-      router.push("/dashboard");
-      router.refresh();
-    } catch (err) {
-      setError(
-        err instanceof Error
-          ? err.message
-          : "Failed to complete profile. Please try again.",
-      );
-      console.error(err);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  return (
-    <form onSubmit={handleSubmit} className="space-y-4">
-      <div className="bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg p-6 space-y-4">
-        <div>
-          <label className="block text-sm font-medium mb-2">Email</label>
-          <input
-            type="email"
-            value={userData.email}
-            disabled
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300"
-          />
-          <p className="text-xs text-gray-500 mt-1">Verified by SimpleLogin</p>
-        </div>
-
-        <div>
-          <label className="block text-sm font-medium mb-2">Name</label>
-          <input
-            type="text"
-            value={userData.name}
-            disabled
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300"
-          />
-        </div>
-
-        {userData.avatar_url && (
-          <div>
-            <label className="block text-sm font-medium mb-2">
-              Profile Picture
-            </label>
-            <Image
-              src={userData.avatar_url}
-              alt="Profile"
-              width={64}
-              height={64}
-              className="rounded-full border-2 border-gray-300 dark:border-gray-700"
-            />
-          </div>
-        )}
-      </div>
-
-      {error && (
-        <div className="p-3 bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200 rounded-md text-sm">
-          {error}
-        </div>
-      )}
-
-      <button
-        type="submit"
-        disabled={loading}
-        className="w-full px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed font-medium transition-colors"
-      >
-        {loading ? "Creating account..." : "Complete Profile & Continue"}
-      </button>
-
-      <p className="text-xs text-center text-gray-500">
-        By continuing, you agree to our Terms of Service and Privacy Policy
-      </p>
-    </form>
-  );
-}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProvider } from "@/lib/oidc-providers";
+import {
+  OAUTH_FLOW_COOKIE_NAME,
+  OAUTH_FLOW_MAX_AGE,
+  createOAuthFlow,
+} from "@/lib/oauth-flow";
+import {
+  buildAuthorizationUrl,
+  getRedirectUri,
+} from "@/lib/services/oidc.service";
+
+/**
+ * GET /auth/login/[provider]
+ * Start an OIDC login: generate state, nonce and PKCE verifier, keep them
+ * in a short-lived signed cookie and redirect to the provider
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> },
+) {
+  const { provider: providerId } = await params;
+  const provider = getProvider(providerId);
+
+  if (!provider) {
+    console.error(`OIDC provider ${providerId} is not configured`);
+    return NextResponse.redirect(
+      new URL("/auth/login?error=unknown_provider", request.url),
+    );
+  }
+
+  try {
+    const { flow, cookieValue } = await createOAuthFlow(provider.id);
+    const authUrl = await buildAuthorizationUrl(
+      provider,
+      flow,
+      getRedirectUri(provider, request.nextUrl.origin),
+    );
+
+    const response = NextResponse.redirect(authUrl);
+
+    response.cookies.set(OAUTH_FLOW_COOKIE_NAME, cookieValue, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/auth/callback",
+      maxAge: OAUTH_FLOW_MAX_AGE,
+    });
+
+    return response;
+  } catch (error) {
+    console.error(`Failed to start ${provider.id} OAuth flow:`, error);
+    return NextResponse.redirect(
+      new URL("/auth/login?error=oauth_failed", request.url),
+    );
+  }
+}
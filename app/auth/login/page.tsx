@@ -1,6 +1,7 @@
 import { getLoginFlow, OryPageParams } from "@ory/nextjs/app";
 import config from "@/ory.config";
 import { redirect } from "next/navigation";
+import { listProviders } from "@/lib/oidc-providers";
 import { LoginClient } from "./login-client";
 
 export const dynamic = "force-dynamic";
@@ -30,13 +31,23 @@ export default async function LoginPage(props: OryPageParams) {
     redirect(`/auth/login${params.toString() ? `?${params.toString()}` : ""}`);
   }
 
+  // Only ids and names reach the client - credentials stay on the server
+  const providers = listProviders().map((provider) => ({
+    id: provider.id,
+    displayName: provider.displayName,
+  }));
+
   // Error messages for OAuth failures
   const errorMessages: Record<string, string> = {
     missing_parameters: "Authentication failed: Missing required parameters",
+    invalid_state: "Your sign-in session expired or was already used. Please try again.",
     authentication_failed: "Authentication failed. Please try again.",
-    access_denied: "You denied access to your SimpleLogin account",
+    access_denied: "You denied access to your account",
+    unknown_provider: "This sign-in provider is not available",
     no_code: "No authorization code received",
     oauth_failed: "OAuth authentication failed",
+    account_not_linked:
+      "This sign-in can't be linked to your account. Sign in the way you did before or ask an administrator.",
   };
 
   return (
@@ -49,7 +60,7 @@ export default async function LoginPage(props: OryPageParams) {
           </p>
         </div>
       )}
-      <LoginClient flow={flow} config={config} />
+      <LoginClient flow={flow} config={config} providers={providers} />
     </>
   );
 }
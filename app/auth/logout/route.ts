@@ -1,11 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import {
+  SESSION_COOKIE_NAME,
+  revokeSessionToken,
+} from "@/lib/services/session.service";
 
 export async function GET(request: NextRequest) {
   const oryUrl = process.env.NEXT_PUBLIC_ORY_SDK_URL;
   const cookieStore = await cookies();
   const allCookies = cookieStore.getAll();
 
+  // Revoke the signed SimpleLogin session server-side
+  await revokeSessionToken(cookieStore.get(SESSION_COOKIE_NAME)?.value);
+
   // Find the Ory Kratos session cookie
   const sessionCookie = allCookies.find(
     (cookie) =>
@@ -60,7 +67,7 @@ export async function GET(request: NextRequest) {
     if (
       cookie.name.startsWith("ory_") ||
       cookie.name.startsWith("csrf_token_") ||
-      cookie.name === "simplelogin_session" ||
+      cookie.name === SESSION_COOKIE_NAME ||
       cookie.name === "pending_simplelogin_user"
     ) {
       response.cookies.set(cookie.name, "", {
@@ -3,11 +3,13 @@ import { cookies } from "next/headers";
 import { redirect } from "next/navigation";
 import { LogoutButton } from "./logout-button";
 import { isGlobalAdmin } from "@/lib/services/permission.service";
+import { getSessionFromCookies } from "@/lib/services/session.service";
+import { listUserOrganizations } from "@/lib/services/organization.service";
 
 export default async function DashboardPage() {
-  // Check for SimpleLogin session first
+  // Check for a signed SimpleLogin session first
   const cookieStore = await cookies();
-  const simpleLoginSession = cookieStore.get("simplelogin_session");
+  const simpleLoginSession = await getSessionFromCookies(cookieStore);
 
   let user = null;
   let userId = "";
@@ -16,16 +18,10 @@ export default async function DashboardPage() {
   let isSimpleLoginUser = false;
 
   if (simpleLoginSession) {
-    try {
-      const sessionData = JSON.parse(simpleLoginSession.value);
-      userId = sessionData.userId;
-      email = sessionData.email;
-      name = sessionData.name;
-      isSimpleLoginUser = true;
-      console.log("Dashboard - SimpleLogin user:", email);
-    } catch (error) {
-      console.error("Failed to parse SimpleLogin session:", error);
-    }
+    userId = simpleLoginSession.userId;
+    email = simpleLoginSession.email;
+    name = simpleLoginSession.name;
+    isSimpleLoginUser = true;
   }
 
   // Fall back to Ory session if no SimpleLogin session
@@ -53,6 +49,12 @@ export default async function DashboardPage() {
     redirect("/admin");
   }
 
+  // Organizations the user belongs to (owners and admins can manage them)
+  const memberships = await listUserOrganizations(userId).catch((error) => {
+    console.error("Dashboard - failed to load organizations:", error);
+    return [];
+  });
+
   return (
     <div className="min-h-screen bg-zinc-50 dark:bg-black">
       {/* Header */}
@@ -202,6 +204,40 @@ export default async function DashboardPage() {
           </div>
         </div>
 
+        {/* Organizations */}
+        {memberships.length > 0 && (
+          <div className="mb-8 bg-white dark:bg-zinc-900 p-6 rounded-lg border border-zinc-200 dark:border-zinc-800">
+            <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+              Your Organizations
+            </h3>
+            <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+              {memberships.map(({ organization, role }) => (
+                <li
+                  key={organization.id}
+                  className="flex items-center justify-between py-3"
+                >
+                  <div>
+                    <p className="font-medium text-zinc-900 dark:text-zinc-50">
+                      {organization.name}
+                    </p>
+                    <p className="text-sm text-zinc-600 dark:text-zinc-400 capitalize">
+                      {role.replace(/s$/, "")}
+                    </p>
+                  </div>
+                  {(role === "owners" || role === "admins") && (
+                    <a
+                      href={`/orgs/${organization.id}/manage`}
+                      className="px-3 py-1.5 text-sm border border-zinc-300 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                    >
+                      Manage
+                    </a>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Quick Actions */}
         <div className="bg-white dark:bg-zinc-900 p-6 rounded-lg border border-zinc-200 dark:border-zinc-800">
           <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
@@ -0,0 +1,84 @@
+import { getServerSession } from "@ory/nextjs/app";
+import { cookies } from "next/headers";
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import OrgMembers from "@/components/org-members";
+import { hasOrgPermission } from "@/lib/services/permission.service";
+import { getSessionFromCookies } from "@/lib/services/session.service";
+import { getOrganization } from "@/lib/services/organization.service";
+import { NotFoundError } from "@/lib/errors";
+
+/**
+ * Organization-scoped management area
+ * Org owners and admins manage members of their own organization here
+ */
+export default async function ManageOrganizationPage({
+  params,
+}: {
+  params: Promise<{ orgId: string }>;
+}) {
+  const { orgId } = await params;
+
+  // Check for a signed SimpleLogin session first, then the Ory session
+  const cookieStore = await cookies();
+  const simpleLoginSession = await getSessionFromCookies(cookieStore);
+  let userId = simpleLoginSession?.userId;
+
+  if (!userId) {
+    const session = await getServerSession();
+    if (!session || !session.identity) {
+      redirect("/auth/login");
+    }
+    userId = session.identity.id;
+  }
+
+  // Only users who can manage this org's members get in
+  const canManage = await hasOrgPermission(userId, orgId, "manage_users");
+  if (!canManage) {
+    redirect("/dashboard");
+  }
+
+  let organization;
+  try {
+    organization = await getOrganization(orgId);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      notFound();
+    }
+    throw error;
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-black">
+      {/* Header */}
+      <header className="border-b border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">
+            IAM App
+          </h1>
+          <Link
+            href="/dashboard"
+            className="text-sm text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-50"
+          >
+            Back to dashboard
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50 mb-2">
+            Manage {organization.name}
+          </h2>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            {organization.description ||
+              "Invite, remove and change the roles of your organization's members"}
+          </p>
+        </div>
+
+        <OrgMembers orgId={orgId} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface IdentitySuggestion {
+  id: string;
+  traits: {
+    email?: string;
+    name?: {
+      first?: string;
+      last?: string;
+    };
+  };
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 250;
+const MAX_SUGGESTIONS = 8;
+
+function displayName(identity: IdentitySuggestion): string {
+  const { first, last } = identity.traits.name || {};
+  return `${first || ""} ${last || ""}`.trim();
+}
+
+/**
+ * Text input for a Keto subject that suggests identities as you type
+ * Picking a suggestion fills in the identity ID; subject sets
+ * (Namespace:object#relation) are typed as-is and not searched
+ * Talks to /api/admin/identities?q=
+ */
+export default function IdentityPicker({
+  value,
+  onChange,
+  placeholder,
+  required,
+  className,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  required?: boolean;
+  className?: string;
+}) {
+  const [suggestions, setSuggestions] = useState<IdentitySuggestion[]>([]);
+  const [open, setOpen] = useState(false);
+
+  const term = value.trim();
+  const searchable = term.length >= 2 && !/[:#]/.test(term);
+
+  useEffect(() => {
+    if (!open || !searchable) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({
+          q: term,
+          pageSize: String(MAX_SUGGESTIONS),
+        });
+        const response = await fetch(`/api/admin/identities?${params}`, {
+          signal: controller.signal,
+        });
+        if (!response.ok) return;
+
+        const result = await response.json();
+        // Paginated: { data, pagination, status }
+        setSuggestions(Array.isArray(result.data) ? result.data : []);
+      } catch {
+        // Aborted or offline: keep the previous suggestions
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [open, searchable, term]);
+
+  const pick = (identity: IdentitySuggestion) => {
+    onChange(identity.id);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        required={required}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Let a click on a suggestion land before the list closes
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        className={`w-full ${className || ""}`}
+      />
+      {open && searchable && suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full max-h-64 overflow-y-auto bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-lg shadow-lg">
+          {suggestions.map((identity) => (
+            <li key={identity.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => pick(identity)}
+                className="w-full px-3 py-2 text-left hover:bg-zinc-50 dark:hover:bg-zinc-800"
+              >
+                <div className="text-sm text-zinc-900 dark:text-zinc-50">
+                  {identity.traits.email || "No email"}
+                  {displayName(identity) && (
+                    <span className="text-zinc-500 dark:text-zinc-400">
+                      {" "}
+                      · {displayName(identity)}
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs font-mono text-zinc-500 dark:text-zinc-400">
+                  {identity.id}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { OrgMembers, OrgRole } from "@/lib/types";
+
+const ROLES: { value: OrgRole; label: string; description: string }[] = [
+  { value: "owners", label: "Owners", description: "Full control" },
+  { value: "admins", label: "Admins", description: "Manage users and groups" },
+  { value: "members", label: "Members", description: "Regular access" },
+  { value: "viewers", label: "Viewers", description: "Read-only access" },
+];
+
+/**
+ * Organization members grouped by role, with invite / re-role / remove
+ * Talks to /api/orgs/[orgId]/members (shared by the admin panel and the
+ * org-scoped manage area)
+ */
+export default function OrgMembers({ orgId }: { orgId: string }) {
+  const [members, setMembers] = useState<OrgMembers | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [newMember, setNewMember] = useState<{
+    identifier: string;
+    role: OrgRole;
+  }>({ identifier: "", role: "members" });
+
+  const membersUrl = `/api/orgs/${encodeURIComponent(orgId)}/members`;
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(membersUrl);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch members");
+      }
+      const result = await response.json();
+      // API wraps response in { data, status }
+      setMembers(result.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [membersUrl]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  // Send a membership change and refresh from the response
+  const updateMembers = async (url: string, init: RequestInit) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to update members");
+      }
+
+      const result = await response.json();
+      setMembers(result.data);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Invite by email, or add an identity ID directly
+    const identifier = newMember.identifier.trim();
+    const added = await updateMembers(membersUrl, {
+      method: "POST",
+      body: JSON.stringify({
+        ...(identifier.includes("@")
+          ? { email: identifier }
+          : { userId: identifier }),
+        role: newMember.role,
+      }),
+    });
+    if (added) {
+      setNewMember({ identifier: "", role: newMember.role });
+    }
+  };
+
+  const handleRoleChange = (userId: string, role: OrgRole) =>
+    updateMembers(membersUrl, {
+      method: "PATCH",
+      body: JSON.stringify({ userId, role }),
+    });
+
+  const handleRemove = async (userId: string) => {
+    if (!confirm(`Remove ${userId} from this organization?`)) {
+      return;
+    }
+    await updateMembers(`${membersUrl}?userId=${encodeURIComponent(userId)}`, {
+      method: "DELETE",
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6">
+      <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+        Members
+      </h3>
+
+      {/* Add Member */}
+      <form onSubmit={handleAdd} className="flex flex-col md:flex-row gap-2 mb-6">
+        <input
+          type="text"
+          required
+          placeholder="Email or user ID"
+          value={newMember.identifier}
+          onChange={(e) =>
+            setNewMember({ ...newMember, identifier: e.target.value })
+          }
+          className="flex-1 px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100"
+        />
+        <select
+          value={newMember.role}
+          onChange={(e) =>
+            setNewMember({ ...newMember, role: e.target.value as OrgRole })
+          }
+          className="px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100"
+        >
+          {ROLES.map((role) => (
+            <option key={role.value} value={role.value}>
+              {role.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm disabled:opacity-50"
+        >
+          Invite Member
+        </button>
+      </form>
+
+      {error && (
+        <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+          <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+          Loading members...
+        </p>
+      ) : (
+        members && (
+          <div className="space-y-6">
+            {ROLES.map((role) => (
+              <div key={role.value}>
+                <div className="flex items-baseline gap-2 mb-2">
+                  <h4 className="text-sm font-semibold text-zinc-900 dark:text-zinc-50">
+                    {role.label} ({members[role.value].length})
+                  </h4>
+                  <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                    {role.description}
+                  </span>
+                </div>
+                {members[role.value].length === 0 ? (
+                  <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                    No {role.label.toLowerCase()}
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-zinc-200 dark:divide-zinc-800 border border-zinc-200 dark:border-zinc-800 rounded-lg">
+                    {members[role.value].map((userId) => (
+                      <li
+                        key={userId}
+                        className="flex items-center justify-between gap-4 px-4 py-2"
+                      >
+                        <span className="text-sm font-mono text-zinc-900 dark:text-zinc-50 break-all">
+                          {userId}
+                        </span>
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={role.value}
+                            disabled={saving}
+                            onChange={(e) =>
+                              handleRoleChange(
+                                userId,
+                                e.target.value as OrgRole,
+                              )
+                            }
+                            className="px-2 py-1 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded text-xs text-zinc-900 dark:text-zinc-100"
+                          >
+                            {ROLES.map((option) => (
+                              <option key={option.value} value={option.value}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => handleRemove(userId)}
+                            disabled={saving}
+                            className="text-xs text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300 disabled:opacity-50"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+import { useState } from "react";
+import IdentityPicker from "@/components/identity-picker";
+import {
+  KETO_NAMESPACES,
+  type KetoNamespace,
+  type PermissionExplanation,
+  type PermissionTreeNode,
+} from "@/lib/types";
+
+const NAMESPACES = Object.keys(KETO_NAMESPACES) as KetoNamespace[];
+
+// Relations first, then computed permissions
+function relationOptions(namespace: KetoNamespace): string[] {
+  const { relations, permissions } = KETO_NAMESPACES[namespace];
+  return [...relations, ...permissions];
+}
+
+/**
+ * One node of the Keto expand tree; nodes on the way to the explained
+ * subject are highlighted
+ */
+function TreeNode({ node }: { node: PermissionTreeNode }) {
+  return (
+    <li className="mt-1">
+      <div className="flex items-center gap-2">
+        <span className="px-1.5 py-0.5 text-[10px] font-semibold uppercase rounded bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400">
+          {node.type}
+        </span>
+        <span
+          className={`text-sm font-mono break-all ${
+            node.grants
+              ? "text-green-700 dark:text-green-400 font-semibold"
+              : "text-zinc-700 dark:text-zinc-300"
+          }`}
+        >
+          {node.subject || "(rewrite)"}
+        </span>
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-4 pl-3 border-l border-zinc-200 dark:border-zinc-700">
+          {node.children.map((child, index) => (
+            <TreeNode key={`${child.subject}-${index}`} node={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * "Why can (or can't) this subject ...?" panel
+ * Talks to /api/admin/permissions/explain (Keto check + expand)
+ */
+export default function PermissionExplain() {
+  const [query, setQuery] = useState<{
+    subject: string;
+    namespace: KetoNamespace;
+    object: string;
+    relation: string;
+  }>({
+    subject: "",
+    namespace: "Organization",
+    object: "",
+    relation: "view_org",
+  });
+  const [explanation, setExplanation] = useState<PermissionExplanation | null>(
+    null,
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleNamespaceChange = (namespace: KetoNamespace) => {
+    setQuery({
+      ...query,
+      namespace,
+      relation: relationOptions(namespace)[0] || "",
+    });
+  };
+
+  const handleExplain = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({
+        subject: query.subject.trim(),
+        namespace: query.namespace,
+        object: query.object.trim(),
+        relation: query.relation,
+      });
+      const response = await fetch(`/api/admin/permissions/explain?${params}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to explain permission");
+      }
+
+      const result = await response.json();
+      // API wraps response in { data, status }
+      setExplanation(result.data);
+    } catch (err) {
+      setExplanation(null);
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClassName =
+    "px-3 py-2 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg text-sm text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100";
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6">
+      <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-1">
+        Explain Access
+      </h3>
+      <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-4">
+        Show why a user or subject set does or does not have a relation
+      </p>
+
+      <form
+        onSubmit={handleExplain}
+        className="grid grid-cols-1 md:grid-cols-5 gap-2 mb-4"
+      >
+        <div className="md:col-span-2">
+          <IdentityPicker
+            required
+            placeholder="User (search) or Group:id#members"
+            value={query.subject}
+            onChange={(subject) => setQuery({ ...query, subject })}
+            className={inputClassName}
+          />
+        </div>
+        <select
+          value={query.namespace}
+          onChange={(e) =>
+            handleNamespaceChange(e.target.value as KetoNamespace)
+          }
+          className={inputClassName}
+        >
+          {NAMESPACES.map((namespace) => (
+            <option key={namespace} value={namespace}>
+              {namespace}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          required
+          placeholder="Object (e.g. org ID)"
+          value={query.object}
+          onChange={(e) => setQuery({ ...query, object: e.target.value })}
+          className={inputClassName}
+        />
+        <select
+          value={query.relation}
+          onChange={(e) => setQuery({ ...query, relation: e.target.value })}
+          className={inputClassName}
+        >
+          {relationOptions(query.namespace).map((relation) => (
+            <option key={relation} value={relation}>
+              {relation}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={loading || !query.relation}
+          className="md:col-span-5 px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm disabled:opacity-50"
+        >
+          {loading ? "Explaining..." : "Explain"}
+        </button>
+      </form>
+
+      {error && (
+        <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+          <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {explanation && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {explanation.allowed ? (
+              <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400">
+                Allowed
+              </span>
+            ) : (
+              <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400">
+                Denied
+              </span>
+            )}
+            <span className="text-sm font-mono text-zinc-700 dark:text-zinc-300 break-all">
+              {explanation.query.namespace}:{explanation.query.object}#
+              {explanation.query.relation}@{explanation.query.subject}
+            </span>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-zinc-900 dark:text-zinc-50 mb-2">
+              Routes to subject
+            </h4>
+            {explanation.paths.length === 0 ? (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                The subject does not appear in the expanded tree
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {explanation.paths.map((path, index) => (
+                  <li
+                    key={index}
+                    className="text-sm font-mono text-zinc-700 dark:text-zinc-300 break-all"
+                  >
+                    {path.join(" → ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-zinc-900 dark:text-zinc-50 mb-2">
+              Expand tree
+            </h4>
+            {explanation.tree ? (
+              <ul className="overflow-x-auto">
+                <TreeNode node={explanation.tree} />
+              </ul>
+            ) : (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                Nothing to expand: no tuples grant this relation
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Keto OPL model, type-checked separately by `npm run keto:check`
+    "keto/**",
   ]),
 ]);
 
@@ -0,0 +1,21 @@
+/**
+ * Server startup hook (Next.js instrumentation)
+ * Checks required configuration and starts background jobs once per server
+ * process
+ */
+
+export async function register() {
+  // Without it no audit event can be persisted; refuse to start rather
+  // than serve requests with no audit log
+  if (!process.env.AUDIT_CHAIN_KEY) {
+    throw new Error("AUDIT_CHAIN_KEY environment variable is not set");
+  }
+
+  // Jobs use Node APIs; skip the edge runtime
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { startIdentityLifecycleScheduler } = await import(
+    "@/lib/services/identity-lifecycle.service"
+  );
+  startIdentityLifecycleScheduler();
+}
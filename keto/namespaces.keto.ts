@@ -0,0 +1,62 @@
+/**
+ * Ory Keto namespace model (Ory Permission Language)
+ * Source of truth for every namespace, relation and permission the app uses.
+ * Keto loads this file directly; `npm run keto:types` regenerates
+ * lib/types/keto.generated.ts from it.
+ */
+
+import { Namespace, SubjectSet, Context } from "@ory/keto-namespace-types";
+
+// Kratos identities (subject IDs)
+class User implements Namespace {}
+
+// User groups, nestable via Group:<id>#members subject sets
+class Group implements Namespace {
+  related: {
+    // Keto resolves the self-reference; tsc reports it as circular
+    // @ts-expect-error TS2502
+    members: (User | SubjectSet<Group, "members">)[];
+  };
+}
+
+// Platform-wide roles (GlobalRole:admin#members)
+class GlobalRole implements Namespace {
+  related: {
+    members: (User | SubjectSet<Group, "members">)[];
+  };
+}
+
+// Organizations: one role relation per member, permissions derived below
+class Organization implements Namespace {
+  related: {
+    owners: (User | SubjectSet<Group, "members">)[];
+    admins: (User | SubjectSet<Group, "members">)[];
+    members: (User | SubjectSet<Group, "members">)[];
+    viewers: (User | SubjectSet<Group, "members">)[];
+  };
+
+  permits = {
+    manage_org: (ctx: Context): boolean =>
+      this.related.owners.includes(ctx.subject),
+
+    manage_roles: (ctx: Context): boolean =>
+      this.related.owners.includes(ctx.subject),
+
+    manage_users: (ctx: Context): boolean =>
+      this.related.owners.includes(ctx.subject) ||
+      this.related.admins.includes(ctx.subject),
+
+    manage_groups: (ctx: Context): boolean =>
+      this.related.owners.includes(ctx.subject) ||
+      this.related.admins.includes(ctx.subject),
+
+    is_member: (ctx: Context): boolean =>
+      this.related.owners.includes(ctx.subject) ||
+      this.related.admins.includes(ctx.subject) ||
+      this.related.members.includes(ctx.subject),
+
+    view_org: (ctx: Context): boolean =>
+      this.permits.is_member(ctx) ||
+      this.related.viewers.includes(ctx.subject),
+  };
+}
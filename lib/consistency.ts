@@ -0,0 +1,107 @@
+/**
+ * Consistency Tokens
+ *
+ * "At least as fresh as my write" for permission checks. grantPermission and
+ * revokePermission return a token recording when the write happened, plus
+ * Keto's snaptoken when Keto returns one. The admin API hands it back in the
+ * response body and a short-lived cookie; checks that receive it ignore
+ * cached decisions older than the write and pass the snaptoken on to Keto.
+ * Tokens are signed with the session keys, so only tokens this app issued
+ * after a real write can bypass the cache. Edge-safe.
+ */
+
+import { NextResponse } from "next/server";
+import { envNumber } from "@/lib/http";
+import { signToken, verifyToken } from "@/lib/signed-token";
+import type { CookieReader } from "@/lib/services/session.service";
+import { ConsistencyToken } from "@/lib/types";
+
+export const CONSISTENCY_COOKIE_NAME = "keto_consistency";
+export const CONSISTENCY_HEADER_NAME = "x-consistency-token";
+// Outlives every permission decision cached before the write
+export const CONSISTENCY_COOKIE_MAX_AGE = Math.ceil(
+  envNumber("PERMISSION_CACHE_TTL_MS", 5 * 60 * 1000) / 1000,
+);
+
+const CONSISTENCY_TOKEN_TYPE = "consistency";
+
+interface ConsistencyTokenPayload {
+  writtenAt: number;
+  snaptoken?: string;
+  exp: number;
+}
+
+// Minimal request shape shared by NextRequest and route handler requests
+export interface ConsistencySource {
+  headers: { get(name: string): string | null };
+  cookies: CookieReader;
+}
+
+/**
+ * Sign a write's token; it expires with the cookie
+ */
+export async function formatConsistencyToken(
+  token: ConsistencyToken,
+): Promise<string> {
+  const payload: ConsistencyTokenPayload = {
+    writtenAt: token.writtenAt,
+    exp: Math.floor(token.writtenAt / 1000) + CONSISTENCY_COOKIE_MAX_AGE,
+  };
+  if (token.snaptoken) payload.snaptoken = token.snaptoken;
+  return signToken({ ...payload }, CONSISTENCY_TOKEN_TYPE);
+}
+
+/**
+ * Decode a token from a header, cookie or request body
+ * Returns null unless this app signed it and it hasn't expired
+ */
+export async function parseConsistencyToken(
+  value: string | null | undefined,
+): Promise<ConsistencyToken | null> {
+  if (!value) {
+    return null;
+  }
+
+  const payload = await verifyToken<ConsistencyTokenPayload>(
+    value,
+    CONSISTENCY_TOKEN_TYPE,
+  );
+  if (!payload || !Number.isSafeInteger(payload.writtenAt)) {
+    return null;
+  }
+
+  const { writtenAt, snaptoken } = payload;
+  return typeof snaptoken === "string" && snaptoken
+    ? { writtenAt, snaptoken }
+    : { writtenAt };
+}
+
+/**
+ * Read the caller's token: explicit header first, then the cookie set by the
+ * admin API after a write
+ */
+export async function getConsistencyToken(
+  request: ConsistencySource,
+): Promise<ConsistencyToken | null> {
+  return parseConsistencyToken(
+    request.headers.get(CONSISTENCY_HEADER_NAME) ||
+      request.cookies.get(CONSISTENCY_COOKIE_NAME)?.value,
+  );
+}
+
+/**
+ * Hand a write's token back to the browser so the next page load and API
+ * calls (edge middleware included) see the write
+ */
+export function setConsistencyCookie(
+  response: NextResponse,
+  value: string,
+): void {
+  response.cookies.set(CONSISTENCY_COOKIE_NAME, value, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: CONSISTENCY_COOKIE_MAX_AGE,
+  });
+}
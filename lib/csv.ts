@@ -0,0 +1,66 @@
+// CSV helpers (RFC 4180 quoting)
+
+// Quote a single value when it contains a delimiter, quote or newline.
+// Strings a spreadsheet would run as a formula get a leading "'".
+export function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+
+  let text = typeof value === "string" ? value : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+// Build one CSV line (with trailing newline)
+export function toCsvRow(values: unknown[]): string {
+  return values.map(escapeCsvValue).join(",") + "\n";
+}
+
+// Split CSV text into rows of values; quoted values may contain delimiters,
+// doubled quotes and newlines. Blank lines are skipped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(value);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    value = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+  if (value !== "" || row.length > 0) endRow();
+
+  return rows;
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { ApiError, ApiResponse } from "@/lib/types";
+import { ApiError, ApiResponse, PaginatedResponse } from "@/lib/types";
 
 // Custom error classes
 export class UnauthorizedError extends Error {
@@ -34,6 +34,14 @@ export class BadRequestError extends Error {
   }
 }
 
+export class ConflictError extends Error {
+  status = 409;
+  constructor(message = "Conflict") {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
 export class InternalServerError extends Error {
   status = 500;
   constructor(message = "Internal server error") {
@@ -42,6 +50,14 @@ export class InternalServerError extends Error {
   }
 }
 
+export class ServiceUnavailableError extends Error {
+  status = 503;
+  constructor(message = "Service unavailable") {
+    super(message);
+    this.name = "ServiceUnavailableError";
+  }
+}
+
 // Error response builder
 export function createErrorResponse(
   error: unknown,
@@ -89,6 +105,26 @@ export function createErrorResponse(
     );
   }
 
+  if (error instanceof ConflictError) {
+    return NextResponse.json(
+      {
+        error: error.message,
+        status: error.status,
+      },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof ServiceUnavailableError) {
+    return NextResponse.json(
+      {
+        error: error.message,
+        status: error.status,
+      },
+      { status: error.status }
+    );
+  }
+
   if (error instanceof Error) {
     return NextResponse.json(
       {
@@ -122,6 +158,22 @@ export function createSuccessResponse<T>(
   );
 }
 
+// Paginated response builder
+export function createPaginatedResponse<T>(
+  data: T[],
+  pagination: PaginatedResponse<T>["pagination"],
+  status = 200
+): NextResponse<PaginatedResponse<T> & { status: number }> {
+  return NextResponse.json(
+    {
+      data,
+      pagination,
+      status,
+    },
+    { status }
+  );
+}
+
 // Generic API handler wrapper with error catching
 export function withErrorHandler<T = unknown>(
   handler: () => Promise<NextResponse<T>>
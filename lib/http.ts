@@ -0,0 +1,53 @@
+/**
+ * Shared HTTP helpers for the Ory clients (edge-safe)
+ * Timeouts, backoff and configuration parsing used by lib/keto-client.ts
+ * and lib/kratos-client.ts so both behave the same way.
+ */
+
+/**
+ * Read a non-negative number from the environment
+ */
+export function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with jitter before retry number `attempt` (1-based)
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number): number {
+  return baseDelayMs * 2 ** (attempt - 1) + Math.random() * baseDelayMs;
+}
+
+/**
+ * fetch() that aborts after `timeoutMs`
+ */
+export async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Short description of a failed fetch (timeout or network error)
+ */
+export function describeFetchError(error: unknown, timeoutMs: number): string {
+  if (error instanceof Error && error.name === "AbortError") {
+    return `timeout after ${timeoutMs}ms`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,117 @@
+/**
+ * Identity Schema Validation
+ * Checks identity traits against a Kratos identity schema (JSON Schema)
+ * before anything is sent to Kratos, so bulk operations can report every
+ * problem of a row up front. Covers the keywords Kratos identity schemas
+ * use (type, properties, required, additionalProperties, items, enum,
+ * string length, pattern and the email format); Kratos stays the final
+ * authority when the identity is created.
+ */
+
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * The traits part of a Kratos identity schema
+ */
+export function traitsSchema(identitySchema: unknown): JsonSchema {
+  const schema = identitySchema as JsonSchema | undefined;
+  return schema?.properties?.traits || { type: "object" };
+}
+
+/**
+ * Validate a value, returning one message per problem, prefixed with its path
+ */
+export function validateAgainstSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path = "traits",
+): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path} must be ${types.join(" or ")}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} must be one of ${schema.enum.join(", ")}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern, "u").test(value)) {
+      errors.push(`${path} does not match ${schema.pattern}`);
+    }
+    if (schema.format === "email" && !EMAIL_PATTERN.test(value)) {
+      errors.push(`${path} must be an email address`);
+    }
+  }
+
+  const { items } = schema;
+  if (Array.isArray(value) && items) {
+    value.forEach((item, index) => {
+      errors.push(...validateAgainstSchema(items, item, `${path}[${index}]`));
+    });
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (object[key] === undefined || object[key] === "") {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+    for (const [key, item] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(
+          ...validateAgainstSchema(propertySchema, item, `${path}.${key}`),
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateAgainstSchema(
+            schema.additionalProperties,
+            item,
+            `${path}.${key}`,
+          ),
+        );
+      }
+    }
+  }
+
+  return errors;
+}
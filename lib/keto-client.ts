@@ -0,0 +1,1039 @@
+/**
+ * Ory Keto Client
+ * The single client for the Keto read/write APIs. lib/keto.ts (edge
+ * helpers) and the Keto service (BFF) both re-export from here.
+ *
+ * - Per-attempt timeout (AbortController)
+ * - Retry with exponential backoff on 5xx, network errors and timeouts
+ * - Circuit breaker: after repeated failures requests fail fast with
+ *   ServiceUnavailableError, and permission checks fail closed (deny)
+ * - One structured metric per request (see setKetoMetricsSink)
+ */
+
+import {
+  BadRequestError,
+  InternalServerError,
+  ServiceUnavailableError,
+} from "@/lib/errors";
+import {
+  ConsistencyToken,
+  KetoNamespace,
+  KetoRelation,
+  PermissionCheck,
+  PermissionQuery,
+  PermissionTarget,
+  PermissionTreeNode,
+  RelationTuple,
+} from "@/lib/types";
+import {
+  ApiRelationTuple,
+  isValidSubject,
+  subjectFromApi,
+  subjectToApiBody,
+  subjectToApiParams,
+} from "@/lib/subject-set";
+import {
+  backoffDelay,
+  describeFetchError,
+  envNumber,
+  fetchWithTimeout,
+  sleep,
+} from "@/lib/http";
+
+export type KetoOperation =
+  | "check"
+  | "batch_check"
+  | "create"
+  | "delete"
+  | "list"
+  | "expand"
+  | "health";
+
+export type KetoCircuitState = "closed" | "open" | "half_open";
+
+export interface KetoClientOptions {
+  readUrl: string;
+  writeUrl: string;
+  // Per attempt
+  timeoutMs: number;
+  // Extra attempts after the first one (5xx, network error, timeout)
+  maxRetries: number;
+  // Backoff before retry n is retryBaseDelayMs * 2^(n-1) plus jitter
+  retryBaseDelayMs: number;
+  // Consecutive failed requests before the circuit opens
+  circuitFailureThreshold: number;
+  // How long the circuit stays open before a trial request
+  circuitResetMs: number;
+  // Tuples per batch check request (Keto's limit.max_batch_check_size)
+  batchCheckSize: number;
+}
+
+export interface KetoRequestMetric {
+  operation: KetoOperation;
+  // rejected: Keto answered with a 4xx; circuit_open: not sent at all
+  outcome: "success" | "rejected" | "error" | "circuit_open";
+  status?: number;
+  attempts: number;
+  durationMs: number;
+  circuit: KetoCircuitState;
+  error?: string;
+}
+
+export interface KetoOperationStats {
+  requests: number;
+  successes: number;
+  rejected: number;
+  errors: number;
+  circuitOpen: number;
+  retries: number;
+  totalDurationMs: number;
+}
+
+export interface KetoMetricsSnapshot {
+  circuit: KetoCircuitState;
+  consecutiveFailures: number;
+  operations: Partial<Record<KetoOperation, KetoOperationStats>>;
+}
+
+export type KetoMetricsSink = (metric: KetoRequestMetric) => void;
+
+// Filter for listing tuples; omitted fields match anything
+export interface RelationTupleQuery {
+  namespace?: KetoNamespace;
+  object?: string;
+  relation?: string;
+  subject?: string;
+}
+
+export interface RelationTuplePageOptions {
+  // next_page_token of the previous page
+  pageToken?: string;
+  pageSize?: number;
+}
+
+export type RelationTupleIterateOptions = Pick<
+  RelationTuplePageOptions,
+  "pageSize"
+>;
+
+export interface RelationTuplePage {
+  tuples: RelationTuple[];
+  // Absent on the last page
+  nextPageToken?: string;
+}
+
+function defaultOptions(): KetoClientOptions {
+  return {
+    readUrl: process.env.ORY_KETO_READ_URL || "http://localhost:4466",
+    writeUrl: process.env.ORY_KETO_WRITE_URL || "http://localhost:4467",
+    timeoutMs: envNumber("KETO_TIMEOUT_MS", 5000),
+    maxRetries: envNumber("KETO_MAX_RETRIES", 2),
+    retryBaseDelayMs: envNumber("KETO_RETRY_BASE_DELAY_MS", 100),
+    circuitFailureThreshold: envNumber("KETO_CIRCUIT_FAILURE_THRESHOLD", 5),
+    circuitResetMs: envNumber("KETO_CIRCUIT_RESET_MS", 30000),
+    batchCheckSize: envNumber("KETO_BATCH_CHECK_SIZE", 10) || 10,
+  };
+}
+
+/**
+ * Default sink: successful requests are only counted, anything else is
+ * logged as one JSON line
+ */
+function logMetric(metric: KetoRequestMetric) {
+  if (metric.outcome === "success") return;
+  const line = JSON.stringify({ event: "keto_request", ...metric });
+  if (metric.outcome === "rejected") {
+    console.warn("[Keto]", line);
+  } else {
+    console.error("[Keto]", line);
+  }
+}
+
+let metricsSink: KetoMetricsSink = logMetric;
+
+/**
+ * Replace the metrics sink (e.g. to forward to a metrics backend)
+ */
+export function setKetoMetricsSink(sink: KetoMetricsSink) {
+  metricsSink = sink;
+}
+
+export interface RelationTupleChange {
+  action: "create" | "delete";
+  tuple: RelationTuple;
+}
+
+export type RelationTupleListener = (
+  change: RelationTupleChange,
+) => void | Promise<void>;
+
+const tupleListeners = new Set<RelationTupleListener>();
+
+/**
+ * Subscribe to successful grants and revokes (e.g. cache invalidation)
+ * Returns a function that removes the listener
+ */
+export function onRelationTupleChange(
+  listener: RelationTupleListener,
+): () => void {
+  tupleListeners.add(listener);
+  return () => {
+    tupleListeners.delete(listener);
+  };
+}
+
+/**
+ * Run every listener; a failing listener never fails the write itself
+ */
+async function notifyTupleChange(change: RelationTupleChange) {
+  await Promise.all(
+    Array.from(tupleListeners, async (listener) => {
+      try {
+        await listener(change);
+      } catch (error) {
+        console.error("[Keto] Relation tuple listener failed:", error);
+      }
+    }),
+  );
+}
+
+function tupleBody(tuple: PermissionQuery) {
+  return {
+    namespace: tuple.namespace,
+    object: tuple.object,
+    relation: tuple.relation,
+    ...subjectToApiBody(tuple.subject),
+  };
+}
+
+function tupleParams(tuple: PermissionQuery): Record<string, string> {
+  return {
+    namespace: tuple.namespace,
+    object: tuple.object,
+    relation: tuple.relation,
+    ...subjectToApiParams(tuple.subject),
+  };
+}
+
+/**
+ * Map a tuple returned by the Keto API
+ * (Keto only stores tuples that match keto/namespaces.keto.ts)
+ */
+function parseTupleFromApi(rt: ApiRelationTuple): RelationTuple {
+  return {
+    namespace: rt.namespace,
+    object: rt.object,
+    relation: rt.relation,
+    subject: subjectFromApi(rt),
+  } as RelationTuple;
+}
+
+// Expand tree node as returned by the Keto API
+interface ApiExpandTree extends Pick<
+  ApiRelationTuple,
+  "subject_id" | "subject_set"
+> {
+  type: string;
+  // Keto >= v0.10 nests the subject in a tuple
+  tuple?: ApiRelationTuple;
+  children?: ApiExpandTree[];
+}
+
+function parseTreeFromApi(node: ApiExpandTree): PermissionTreeNode {
+  return {
+    type: node.type,
+    subject: subjectFromApi(node.tuple || node),
+    children: (node.children || []).map(parseTreeFromApi),
+  };
+}
+
+export class KetoClient {
+  private readonly options: KetoClientOptions;
+  private circuit: KetoCircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private stats: Partial<Record<KetoOperation, KetoOperationStats>> = {};
+  // Set once Keto answers 404 for the batch endpoint (Keto < v0.12)
+  private batchUnsupported = false;
+
+  constructor(options: Partial<KetoClientOptions> = {}) {
+    this.options = { ...defaultOptions(), ...options };
+  }
+
+  /**
+   * Check a relation or permission. Keto answers "not allowed" with 403.
+   * A snaptoken asks Keto to answer at least as fresh as that write.
+   */
+  async check(tuple: PermissionQuery, snaptoken?: string): Promise<boolean> {
+    const params = new URLSearchParams(tupleParams(tuple));
+    if (snaptoken) params.set("snaptoken", snaptoken);
+    const response = await this.request(
+      "check",
+      `${this.options.readUrl}/relation-tuples/check?${params}`,
+      { method: "GET" },
+      [403],
+    );
+
+    if (response.status === 403) {
+      return false;
+    }
+    if (!response.ok) {
+      throw await this.rejection("check", response);
+    }
+
+    const data: PermissionCheck = await response.json();
+    return data.allowed === true;
+  }
+
+  get batchCheckSize(): number {
+    return this.options.batchCheckSize;
+  }
+
+  /**
+   * Check several tuples in one request (at most batchCheckSize).
+   * A per-tuple error from Keto counts as not allowed.
+   */
+  async batchCheck(
+    tuples: PermissionQuery[],
+    snaptoken?: string,
+  ): Promise<boolean[]> {
+    if (this.batchUnsupported) {
+      return Promise.all(tuples.map((tuple) => this.check(tuple, snaptoken)));
+    }
+
+    const params = new URLSearchParams();
+    if (snaptoken) params.set("snaptoken", snaptoken);
+    const response = await this.request(
+      "batch_check",
+      `${this.options.readUrl}/relation-tuples/batch/check?${params}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tuples: tuples.map(tupleBody) }),
+      },
+    );
+
+    if (response.status === 404) {
+      console.warn(
+        "[Keto] Batch check not supported, falling back to single checks",
+      );
+      this.batchUnsupported = true;
+      return this.batchCheck(tuples, snaptoken);
+    }
+    if (!response.ok) {
+      throw await this.rejection("batch_check", response);
+    }
+
+    const data: { results?: { allowed: boolean; error?: string }[] } =
+      await response.json();
+    const results = data.results || [];
+    if (results.length !== tuples.length) {
+      throw new InternalServerError(
+        `Keto batch check returned ${results.length} results for ${tuples.length} tuples`,
+      );
+    }
+    return results.map((result) => result.allowed === true && !result.error);
+  }
+
+  /**
+   * Resolves with Keto's snaptoken for the write, if Keto returns one
+   */
+  async createRelationTuple(
+    tuple: RelationTuple,
+  ): Promise<string | undefined> {
+    const response = await this.request(
+      "create",
+      `${this.options.writeUrl}/admin/relation-tuples`,
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(tupleBody(tuple)),
+      },
+    );
+
+    if (!response.ok) {
+      throw await this.rejection("create", response);
+    }
+
+    const data: { snaptoken?: string } | null = await response
+      .json()
+      .catch(() => null);
+    return data?.snaptoken || undefined;
+  }
+
+  async deleteRelationTuple(tuple: RelationTuple): Promise<void> {
+    const params = new URLSearchParams(tupleParams(tuple));
+    const response = await this.request(
+      "delete",
+      `${this.options.writeUrl}/admin/relation-tuples?${params}`,
+      { method: "DELETE" },
+    );
+
+    if (!response.ok) {
+      throw await this.rejection("delete", response);
+    }
+  }
+
+  /**
+   * Every tuple matching the query (all pages)
+   */
+  async listRelationTuples(
+    query: RelationTupleQuery,
+  ): Promise<RelationTuple[]> {
+    const tuples: RelationTuple[] = [];
+    for await (const tuple of this.iterateRelationTuples(query)) {
+      tuples.push(tuple);
+    }
+    return tuples;
+  }
+
+  /**
+   * Every tuple matching the query, one page request at a time as the
+   * caller iterates (stop early with break)
+   */
+  async *iterateRelationTuples(
+    query: RelationTupleQuery,
+    options: RelationTupleIterateOptions = {},
+  ): AsyncGenerator<RelationTuple> {
+    const seenTokens = new Set<string>();
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.listRelationTuplesPage(query, {
+        pageToken,
+        pageSize: options.pageSize,
+      });
+      yield* page.tuples;
+
+      pageToken = page.nextPageToken;
+      if (pageToken && seenTokens.has(pageToken)) {
+        throw new InternalServerError("Keto repeated a list page token");
+      }
+      if (pageToken) seenTokens.add(pageToken);
+    } while (pageToken);
+  }
+
+  /**
+   * One page of tuples matching the query
+   */
+  async listRelationTuplesPage(
+    query: RelationTupleQuery,
+    options: RelationTuplePageOptions = {},
+  ): Promise<RelationTuplePage> {
+    const params = new URLSearchParams(
+      query.subject ? subjectToApiParams(query.subject) : {},
+    );
+    if (query.namespace) params.append("namespace", query.namespace);
+    if (query.object) params.append("object", query.object);
+    if (query.relation) params.append("relation", query.relation);
+    if (options.pageToken) params.append("page_token", options.pageToken);
+    if (options.pageSize) params.append("page_size", String(options.pageSize));
+
+    const response = await this.request(
+      "list",
+      `${this.options.readUrl}/relation-tuples?${params}`,
+      { method: "GET" },
+    );
+
+    if (!response.ok) {
+      throw await this.rejection("list", response);
+    }
+
+    const data: {
+      relation_tuples?: ApiRelationTuple[];
+      next_page_token?: string;
+    } = await response.json();
+    return {
+      tuples: (data.relation_tuples || []).map(parseTupleFromApi),
+      nextPageToken: data.next_page_token || undefined,
+    };
+  }
+
+  /**
+   * Expand the subjects of namespace:object#relation into a tree
+   * Resolves with null when Keto has nothing to expand (404)
+   */
+  async expand(
+    target: PermissionTarget,
+    maxDepth?: number,
+  ): Promise<PermissionTreeNode | null> {
+    const params = new URLSearchParams({
+      namespace: target.namespace,
+      object: target.object,
+      relation: target.relation,
+    });
+    if (maxDepth) params.set("max-depth", String(maxDepth));
+
+    const response = await this.request(
+      "expand",
+      `${this.options.readUrl}/relation-tuples/expand?${params}`,
+      { method: "GET" },
+      [404],
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw await this.rejection("expand", response);
+    }
+
+    const data: ApiExpandTree | null = await response.json();
+    return data ? parseTreeFromApi(data) : null;
+  }
+
+  /**
+   * Readiness probe. Bypasses the circuit breaker (and retries) so it can
+   * report recovery while the circuit is still open.
+   */
+  async health(): Promise<boolean> {
+    const started = Date.now();
+    try {
+      const response = await this.fetchWithTimeout(
+        `${this.options.readUrl}/health/ready`,
+        { method: "GET" },
+      );
+      this.record({
+        operation: "health",
+        outcome: response.ok ? "success" : "error",
+        status: response.status,
+        attempts: 1,
+        durationMs: Date.now() - started,
+      });
+      return response.ok;
+    } catch (error) {
+      this.record({
+        operation: "health",
+        outcome: "error",
+        attempts: 1,
+        durationMs: Date.now() - started,
+        error: this.describeError(error),
+      });
+      return false;
+    }
+  }
+
+  metrics(): KetoMetricsSnapshot {
+    return {
+      circuit: this.circuit,
+      consecutiveFailures: this.consecutiveFailures,
+      operations: structuredClone(this.stats),
+    };
+  }
+
+  /**
+   * Send a request through the circuit breaker with retries. Resolves with
+   * any response below 500; throws ServiceUnavailableError when Keto cannot
+   * be reached.
+   */
+  private async request(
+    operation: KetoOperation,
+    url: string,
+    init: RequestInit,
+    acceptedStatuses: number[] = [],
+  ): Promise<Response> {
+    const started = Date.now();
+
+    if (!this.allowRequest()) {
+      this.record({
+        operation,
+        outcome: "circuit_open",
+        attempts: 0,
+        durationMs: 0,
+      });
+      throw new ServiceUnavailableError(
+        "Authorization service unavailable (Keto circuit breaker open)",
+      );
+    }
+
+    let attempts = 0;
+    let status: number | undefined;
+    let lastError = "";
+
+    while (true) {
+      attempts++;
+      try {
+        const response = await this.fetchWithTimeout(url, init);
+        status = response.status;
+
+        if (response.status < 500) {
+          this.onSuccess();
+          const accepted =
+            response.ok || acceptedStatuses.includes(response.status);
+          this.record({
+            operation,
+            outcome: accepted ? "success" : "rejected",
+            status,
+            attempts,
+            durationMs: Date.now() - started,
+          });
+          return response;
+        }
+        lastError = `HTTP ${response.status}`;
+      } catch (error) {
+        status = undefined;
+        lastError = this.describeError(error);
+      }
+
+      if (attempts > this.options.maxRetries) break;
+
+      await sleep(backoffDelay(attempts, this.options.retryBaseDelayMs));
+    }
+
+    this.onFailure();
+    this.record({
+      operation,
+      outcome: "error",
+      status,
+      attempts,
+      durationMs: Date.now() - started,
+      error: lastError,
+    });
+    throw new ServiceUnavailableError(
+      `Authorization service unavailable (Keto ${operation} failed after ${attempts} attempts: ${lastError})`,
+    );
+  }
+
+  private fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+    return fetchWithTimeout(url, init, this.options.timeoutMs);
+  }
+
+  private async rejection(
+    operation: KetoOperation,
+    response: Response,
+  ): Promise<Error> {
+    const body = await response.text();
+    const message = `Keto ${operation} rejected (${response.status}): ${body}`;
+    return response.status === 400
+      ? new BadRequestError(message)
+      : new InternalServerError(message);
+  }
+
+  private describeError(error: unknown): string {
+    return describeFetchError(error, this.options.timeoutMs);
+  }
+
+  private allowRequest(): boolean {
+    if (this.circuit === "open") {
+      if (Date.now() - this.openedAt < this.options.circuitResetMs) {
+        return false;
+      }
+      this.setCircuit("half_open");
+    }
+
+    if (this.circuit === "half_open") {
+      // One trial request at a time while half open
+      if (this.probeInFlight) return false;
+      this.probeInFlight = true;
+    }
+
+    return true;
+  }
+
+  private onSuccess() {
+    this.probeInFlight = false;
+    this.consecutiveFailures = 0;
+    if (this.circuit !== "closed") {
+      this.setCircuit("closed");
+    }
+  }
+
+  private onFailure() {
+    this.probeInFlight = false;
+    this.consecutiveFailures++;
+    if (
+      this.circuit === "half_open" ||
+      this.consecutiveFailures >= this.options.circuitFailureThreshold
+    ) {
+      this.openedAt = Date.now();
+      this.setCircuit("open");
+    }
+  }
+
+  private setCircuit(state: KetoCircuitState) {
+    if (this.circuit === state) return;
+    console.warn(
+      "[Keto]",
+      JSON.stringify({
+        event: "keto_circuit",
+        from: this.circuit,
+        to: state,
+        consecutiveFailures: this.consecutiveFailures,
+      }),
+    );
+    this.circuit = state;
+  }
+
+  private record(metric: Omit<KetoRequestMetric, "circuit">) {
+    const stats = (this.stats[metric.operation] ??= {
+      requests: 0,
+      successes: 0,
+      rejected: 0,
+      errors: 0,
+      circuitOpen: 0,
+      retries: 0,
+      totalDurationMs: 0,
+    });
+
+    stats.requests++;
+    stats.retries += Math.max(metric.attempts - 1, 0);
+    stats.totalDurationMs += metric.durationMs;
+    if (metric.outcome === "success") stats.successes++;
+    if (metric.outcome === "rejected") stats.rejected++;
+    if (metric.outcome === "error") stats.errors++;
+    if (metric.outcome === "circuit_open") stats.circuitOpen++;
+
+    metricsSink({ ...metric, circuit: this.circuit });
+  }
+}
+
+let defaultClient: KetoClient | null = null;
+
+export function getKetoClient(): KetoClient {
+  if (!defaultClient) {
+    defaultClient = new KetoClient();
+  }
+  return defaultClient;
+}
+
+/**
+ * Replace the shared client (e.g. with different timeouts)
+ */
+export function setKetoClient(client: KetoClient) {
+  defaultClient = client;
+}
+
+export function getKetoMetrics(): KetoMetricsSnapshot {
+  return getKetoClient().metrics();
+}
+
+function isValidTuple(tuple: PermissionQuery): boolean {
+  return Boolean(
+    tuple.namespace &&
+      tuple.object &&
+      tuple.relation &&
+      isValidSubject(tuple.subject),
+  );
+}
+
+function assertValidTuple(tuple: PermissionQuery) {
+  if (!isValidTuple(tuple)) {
+    throw new BadRequestError("Invalid permission tuple");
+  }
+}
+
+/**
+ * Check if a subject has permission (Zero-Trust verification)
+ * Fails closed: invalid tuples, rejections and an unreachable Keto all
+ * deny (the metrics sink records why)
+ * With a consistency token the answer reflects at least that write
+ */
+export async function checkPermission(
+  tuple: PermissionQuery,
+  consistency?: ConsistencyToken | null,
+): Promise<boolean> {
+  try {
+    assertValidTuple(tuple);
+    return await getKetoClient().check(tuple, consistency?.snaptoken);
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      console.warn("[Keto] Denying invalid permission check:", tuple);
+    }
+    return false;
+  }
+}
+
+/**
+ * Batch check in chunks of batchCheckSize, failing closed per chunk.
+ * With `stopOn`, chunks run one after another and checking stops at the
+ * first result equal to it (any: true, all: false); unchecked tuples
+ * stay false.
+ */
+async function runBatchChecks(
+  tuples: PermissionQuery[],
+  stopOn?: boolean,
+  consistency?: ConsistencyToken | null,
+): Promise<boolean[]> {
+  const client = getKetoClient();
+  const results: boolean[] = tuples.map(() => false);
+
+  const valid: number[] = [];
+  tuples.forEach((tuple, index) => {
+    if (isValidTuple(tuple)) {
+      valid.push(index);
+    } else {
+      console.warn("[Keto] Denying invalid permission check:", tuple);
+    }
+  });
+
+  // An invalid tuple already decides "all"
+  if (stopOn === false && valid.length < tuples.length) {
+    return results;
+  }
+
+  const chunks: number[][] = [];
+  for (let i = 0; i < valid.length; i += client.batchCheckSize) {
+    chunks.push(valid.slice(i, i + client.batchCheckSize));
+  }
+
+  const runChunk = async (indexes: number[]) => {
+    const allowed = await client
+      .batchCheck(
+        indexes.map((index) => tuples[index]),
+        consistency?.snaptoken,
+      )
+      .catch(() => indexes.map(() => false)); // Fail closed
+    indexes.forEach((index, i) => {
+      results[index] = allowed[i];
+    });
+    return allowed;
+  };
+
+  if (stopOn === undefined) {
+    await Promise.all(chunks.map(runChunk));
+    return results;
+  }
+
+  for (const indexes of chunks) {
+    const allowed = await runChunk(indexes);
+    if (allowed.includes(stopOn)) break;
+  }
+  return results;
+}
+
+/**
+ * Batch permission check for multiple permissions
+ * Uses Keto's batch check API (one request per batchCheckSize tuples)
+ */
+export async function checkPermissions(
+  tuples: PermissionQuery[],
+  consistency?: ConsistencyToken | null,
+): Promise<boolean[]> {
+  return runBatchChecks(tuples, undefined, consistency);
+}
+
+/**
+ * True if the subject has at least one of the permissions
+ * Stops after the first chunk with an allowed tuple
+ */
+export async function checkAnyPermission(
+  tuples: PermissionQuery[],
+  consistency?: ConsistencyToken | null,
+): Promise<boolean> {
+  const results = await runBatchChecks(tuples, true, consistency);
+  return results.some((allowed) => allowed);
+}
+
+/**
+ * True if the subject has every permission (vacuously true for none)
+ * Stops after the first chunk with a denied tuple
+ */
+export async function checkAllPermissions(
+  tuples: PermissionQuery[],
+  consistency?: ConsistencyToken | null,
+): Promise<boolean> {
+  const results = await runBatchChecks(tuples, false, consistency);
+  return results.every((allowed) => allowed);
+}
+
+/**
+ * Grant permission (create relation tuple)
+ * Listeners registered with onRelationTupleChange run before this resolves
+ * Resolves with a consistency token for read-after-write checks
+ */
+export async function grantPermission(
+  tuple: RelationTuple,
+): Promise<ConsistencyToken> {
+  assertValidTuple(tuple);
+  const snaptoken = await getKetoClient().createRelationTuple(tuple);
+  const consistency: ConsistencyToken = { writtenAt: Date.now(), snaptoken };
+  await notifyTupleChange({ action: "create", tuple });
+  return consistency;
+}
+
+/**
+ * Revoke permission (delete relation tuple)
+ * Listeners registered with onRelationTupleChange run before this resolves
+ * Resolves with a consistency token for read-after-write checks
+ */
+export async function revokePermission(
+  tuple: RelationTuple,
+): Promise<ConsistencyToken> {
+  assertValidTuple(tuple);
+  await getKetoClient().deleteRelationTuple(tuple);
+  const consistency: ConsistencyToken = { writtenAt: Date.now() };
+  await notifyTupleChange({ action: "delete", tuple });
+  return consistency;
+}
+
+function userQuery(
+  userId: string,
+  namespace?: KetoNamespace,
+): RelationTupleQuery {
+  if (!userId) {
+    throw new BadRequestError("userId is required");
+  }
+  return { subject: userId, namespace };
+}
+
+function objectQuery(
+  namespace: KetoNamespace,
+  object: string,
+): RelationTupleQuery {
+  if (!namespace || !object) {
+    throw new BadRequestError("namespace and object are required");
+  }
+  return { namespace, object };
+}
+
+function namespaceQuery(
+  namespace: KetoNamespace,
+  relation?: string,
+): RelationTupleQuery {
+  if (!namespace) {
+    throw new BadRequestError("namespace is required");
+  }
+  return { namespace, relation };
+}
+
+/**
+ * List all permissions for a subject (user ID or subject set), every page
+ */
+export async function listUserPermissions(
+  userId: string,
+  namespace?: KetoNamespace,
+): Promise<RelationTuple[]> {
+  return getKetoClient().listRelationTuples(userQuery(userId, namespace));
+}
+
+export async function listUserPermissionsPage(
+  userId: string,
+  namespace?: KetoNamespace,
+  options: RelationTuplePageOptions = {},
+): Promise<RelationTuplePage> {
+  return getKetoClient().listRelationTuplesPage(
+    userQuery(userId, namespace),
+    options,
+  );
+}
+
+export function iterateUserPermissions(
+  userId: string,
+  namespace?: KetoNamespace,
+  options: RelationTupleIterateOptions = {},
+): AsyncGenerator<RelationTuple> {
+  return getKetoClient().iterateRelationTuples(
+    userQuery(userId, namespace),
+    options,
+  );
+}
+
+/**
+ * List all permissions for an object, every page
+ */
+export async function listObjectPermissions(
+  namespace: KetoNamespace,
+  object: string,
+): Promise<RelationTuple[]> {
+  return getKetoClient().listRelationTuples(objectQuery(namespace, object));
+}
+
+export async function listObjectPermissionsPage(
+  namespace: KetoNamespace,
+  object: string,
+  options: RelationTuplePageOptions = {},
+): Promise<RelationTuplePage> {
+  return getKetoClient().listRelationTuplesPage(
+    objectQuery(namespace, object),
+    options,
+  );
+}
+
+export function iterateObjectPermissions(
+  namespace: KetoNamespace,
+  object: string,
+  options: RelationTupleIterateOptions = {},
+): AsyncGenerator<RelationTuple> {
+  return getKetoClient().iterateRelationTuples(
+    objectQuery(namespace, object),
+    options,
+  );
+}
+
+/**
+ * List all permissions in a namespace (optionally for one relation),
+ * every page
+ */
+export async function listNamespacePermissions<N extends KetoNamespace>(
+  namespace: N,
+  relation?: KetoRelation<N>,
+): Promise<RelationTuple<N>[]> {
+  const tuples = await getKetoClient().listRelationTuples(
+    namespaceQuery(namespace, relation),
+  );
+  return tuples as RelationTuple<N>[];
+}
+
+export async function listNamespacePermissionsPage<N extends KetoNamespace>(
+  namespace: N,
+  relation?: KetoRelation<N>,
+  options: RelationTuplePageOptions = {},
+): Promise<RelationTuplePage> {
+  return getKetoClient().listRelationTuplesPage(
+    namespaceQuery(namespace, relation),
+    options,
+  );
+}
+
+export function iterateNamespacePermissions<N extends KetoNamespace>(
+  namespace: N,
+  relation?: KetoRelation<N>,
+  options: RelationTupleIterateOptions = {},
+): AsyncGenerator<RelationTuple<N>> {
+  return getKetoClient().iterateRelationTuples(
+    namespaceQuery(namespace, relation),
+    options,
+  ) as AsyncGenerator<RelationTuple<N>>;
+}
+
+/**
+ * One page of tuples matching any combination of namespace, object,
+ * relation and subject (all tuples when the query is empty)
+ */
+export async function listPermissionsPage(
+  query: RelationTupleQuery,
+  options: RelationTuplePageOptions = {},
+): Promise<RelationTuplePage> {
+  return getKetoClient().listRelationTuplesPage(query, options);
+}
+
+/**
+ * Every tuple matching the query, fetched page by page as you iterate
+ */
+export function iteratePermissions(
+  query: RelationTupleQuery,
+  options: RelationTupleIterateOptions = {},
+): AsyncGenerator<RelationTuple> {
+  return getKetoClient().iterateRelationTuples(query, options);
+}
+
+/**
+ * Expand every subject of namespace:object#relation (Keto expand API)
+ */
+export async function expandPermission(
+  target: PermissionTarget,
+  maxDepth?: number,
+): Promise<PermissionTreeNode | null> {
+  if (!target.namespace || !target.object || !target.relation) {
+    throw new BadRequestError("namespace, object and relation are required");
+  }
+  return getKetoClient().expand(target, maxDepth);
+}
+
+/**
+ * Check if Keto is healthy and accessible
+ */
+export async function checkKetoHealth(): Promise<boolean> {
+  return getKetoClient().health();
+}
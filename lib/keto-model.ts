@@ -0,0 +1,143 @@
+/**
+ * Keto namespace model checks
+ *
+ * Compile-time types come from lib/types/keto.generated.ts; these helpers
+ * apply the same model at runtime to untyped input (request bodies, query
+ * strings) before it reaches the Keto service.
+ */
+
+import {
+  KETO_NAMESPACES,
+  KetoNamespace,
+  KetoPermission,
+  KetoRelation,
+  PermissionQuery,
+  RelationTuple,
+} from "@/lib/types";
+import { BadRequestError } from "@/lib/errors";
+import { isValidSubject, parseSubjectSet } from "@/lib/subject-set";
+import { RelationTupleQuery } from "@/lib/keto-client";
+
+interface UntypedTuple {
+  namespace: string;
+  object: string;
+  relation: string;
+  subject: string;
+}
+
+export function isKetoNamespace(value: string): value is KetoNamespace {
+  return Object.prototype.hasOwnProperty.call(KETO_NAMESPACES, value);
+}
+
+export function isKetoRelation<N extends KetoNamespace>(
+  namespace: N,
+  value: string,
+): value is KetoRelation<N> {
+  const relations: readonly string[] = KETO_NAMESPACES[namespace].relations;
+  return relations.includes(value);
+}
+
+export function isKetoPermission<N extends KetoNamespace>(
+  namespace: N,
+  value: string,
+): value is KetoPermission<N> {
+  const permissions: readonly string[] = KETO_NAMESPACES[namespace].permissions;
+  return permissions.includes(value);
+}
+
+/**
+ * Validate a namespace name, throwing BadRequestError if unknown
+ */
+export function toKetoNamespace(value: string): KetoNamespace {
+  if (!isKetoNamespace(value)) {
+    throw new BadRequestError(`Unknown namespace: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Subject sets must point at a relation that exists in the model
+ */
+function assertSubjectInModel(subject: string) {
+  const subjectSet = parseSubjectSet(subject);
+  if (!subjectSet) return;
+
+  const namespace = toKetoNamespace(subjectSet.namespace);
+  if (!isKetoRelation(namespace, subjectSet.relation)) {
+    throw new BadRequestError(
+      `Unknown relation "${subjectSet.relation}" in subject set namespace ${namespace}`,
+    );
+  }
+}
+
+/**
+ * Validate a tuple to write (grant / revoke) against the model
+ */
+export function toRelationTuple(input: UntypedTuple): RelationTuple {
+  const namespace = toKetoNamespace(input.namespace);
+  if (!isKetoRelation(namespace, input.relation)) {
+    throw new BadRequestError(
+      `Unknown relation "${input.relation}" in namespace ${namespace}`,
+    );
+  }
+  assertSubjectInModel(input.subject);
+
+  return input as RelationTuple;
+}
+
+/**
+ * Validate a check (relation or computed permission) against the model
+ */
+export function toPermissionQuery(input: UntypedTuple): PermissionQuery {
+  const namespace = toKetoNamespace(input.namespace);
+  if (
+    !isKetoRelation(namespace, input.relation) &&
+    !isKetoPermission(namespace, input.relation)
+  ) {
+    throw new BadRequestError(
+      `Unknown relation or permission "${input.relation}" in namespace ${namespace}`,
+    );
+  }
+  if (!isValidSubject(input.subject)) {
+    throw new BadRequestError(`Invalid subject: ${input.subject}`);
+  }
+  assertSubjectInModel(input.subject);
+
+  return input as PermissionQuery;
+}
+
+/**
+ * Validate list filters; a relation can only be checked with its namespace
+ */
+export function toRelationTupleQuery(
+  input: Partial<UntypedTuple>,
+): RelationTupleQuery {
+  const namespace = input.namespace
+    ? toKetoNamespace(input.namespace)
+    : undefined;
+
+  if (input.relation) {
+    if (!namespace) {
+      throw new BadRequestError("Filtering by relation requires a namespace");
+    }
+    if (!isKetoRelation(namespace, input.relation)) {
+      throw new BadRequestError(
+        `Unknown relation "${input.relation}" in namespace ${namespace}`,
+      );
+    }
+  }
+
+  if (input.subject) {
+    if (!isValidSubject(input.subject)) {
+      throw new BadRequestError(`Invalid subject: ${input.subject}`);
+    }
+    assertSubjectInModel(input.subject);
+  }
+
+  return {
+    namespace,
+    object: input.object || undefined,
+    relation: input.relation || undefined,
+    subject: input.subject || undefined,
+  };
+}
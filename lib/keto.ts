@@ -1,111 +1,26 @@
-// Ory Keto client for permission checking
-
-const KETO_READ_URL = process.env.ORY_KETO_READ_URL || "http://localhost:4466";
-const KETO_WRITE_URL =
-  process.env.ORY_KETO_WRITE_URL || "http://localhost:4467";
-
-export interface RelationTuple {
-  namespace: string;
-  object: string;
-  relation: string;
-  subject: string;
-}
-
-// Check if Keto is healthy and accessible
-export async function checkKetoHealth(): Promise<boolean> {
-  try {
-    const response = await fetch(`${KETO_READ_URL}/health/ready`, {
-      method: "GET",
-    });
-    return response.ok;
-  } catch (error) {
-    console.error("[Keto] Health check failed:", error);
-    return false;
-  }
-}
-
-// Format tuple for Keto API (subject_id as string)
-function formatTupleForApi(tuple: RelationTuple) {
-  return {
-    namespace: tuple.namespace,
-    object: tuple.object,
-    relation: tuple.relation,
-    subject_id: tuple.subject,
-  };
-}
-
-// Check if a subject has permission
-export async function checkPermission(tuple: RelationTuple): Promise<boolean> {
-  try {
-    // Use query parameters for Keto check endpoint
-    const params = new URLSearchParams({
-      namespace: tuple.namespace,
-      object: tuple.object,
-      relation: tuple.relation,
-      subject_id: tuple.subject,
-    });
-
-    const url = `${KETO_READ_URL}/relation-tuples/check?${params}`;
-    console.log("[Keto] Checking permission:", url);
-
-    // Add timeout to prevent hanging
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
-
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Keto check failed:", {
-        status: response.status,
-        statusText: response.statusText,
-        body: errorText,
-        tuple,
-      });
-      return false;
-    }
-
-    const data = await response.json();
-    console.log("[Keto] Check result:", data);
-    return data.allowed === true;
-  } catch (error) {
-    if (error instanceof Error && error.name === "AbortError") {
-      console.error("[Keto] Permission check timeout:", tuple);
-    } else {
-      console.error("[Keto] Error checking permission:", error);
-    }
-    // Fail closed: deny access on error
-    return false;
-  }
-}
+// Ory Keto helpers (edge-safe); requests go through lib/keto-client.ts
+
+import {
+  grantPermission,
+  listNamespacePermissions,
+  listUserPermissionsPage,
+  revokePermission,
+} from "@/lib/keto-client";
+import { KetoNamespace, OrgRole, RelationTuple } from "@/lib/types";
+
+export {
+  checkKetoHealth,
+  checkPermission,
+  listUserPermissions,
+} from "@/lib/keto-client";
 
 // Create a relation tuple (grant permission)
 export async function createRelation(tuple: RelationTuple): Promise<boolean> {
   try {
-    const url = `${KETO_WRITE_URL}/admin/relation-tuples`;
-    const response = await fetch(url, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(formatTupleForApi(tuple)),
-    });
-
-    if (!response.ok) {
-      console.error("Keto create failed:", await response.text());
-    }
-
-    return response.ok;
+    await grantPermission(tuple);
+    return true;
   } catch (error) {
-    console.error("Error creating relation:", error);
+    console.error("[Keto] Error creating relation:", error);
     return false;
   }
 }
@@ -113,74 +28,22 @@ export async function createRelation(tuple: RelationTuple): Promise<boolean> {
 // Delete a relation tuple (revoke permission)
 export async function deleteRelation(tuple: RelationTuple): Promise<boolean> {
   try {
-    const params = new URLSearchParams({
-      namespace: tuple.namespace,
-      object: tuple.object,
-      relation: tuple.relation,
-      "subject_id.id": tuple.subject,
-    });
-
-    const url = `${KETO_WRITE_URL}/admin/relation-tuples?${params}`;
-    const response = await fetch(url, {
-      method: "DELETE",
-    });
-
-    return response.ok;
+    await revokePermission(tuple);
+    return true;
   } catch (error) {
-    console.error("Error deleting relation:", error);
+    console.error("[Keto] Error deleting relation:", error);
     return false;
   }
 }
 
-// List all relations for a subject
-export async function listUserPermissions(
-  userId: string,
-  namespace?: string,
-): Promise<RelationTuple[]> {
-  try {
-    const params = new URLSearchParams({
-      "subject_id.id": userId,
-    });
-
-    if (namespace) {
-      params.append("namespace", namespace);
-    }
-
-    const url = `${KETO_READ_URL}/relation-tuples?${params}`;
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      return [];
-    }
-
-    const data = await response.json();
-    return data.relation_tuples || [];
-  } catch (error) {
-    console.error("Error listing permissions:", error);
-    return [];
-  }
-}
-
-// List all relations in a namespace
+// List all relations in a namespace (every page)
 export async function listAllPermissions(
-  namespace: string,
+  namespace: KetoNamespace,
 ): Promise<RelationTuple[]> {
   try {
-    const params = new URLSearchParams({
-      namespace: namespace,
-    });
-
-    const url = `${KETO_READ_URL}/relation-tuples?${params}`;
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      return [];
-    }
-
-    const data = await response.json();
-    return data.relation_tuples || [];
+    return await listNamespacePermissions(namespace);
   } catch (error) {
-    console.error("Error listing all permissions:", error);
+    console.error("[Keto] Error listing all permissions:", error);
     return [];
   }
 }
@@ -209,7 +72,7 @@ export async function revokeGlobalAdmin(userId: string): Promise<boolean> {
 export async function addUserToOrg(
   userId: string,
   orgId: string,
-  role: "owners" | "admins" | "members" | "viewers",
+  role: OrgRole,
 ): Promise<boolean> {
   return createRelation({
     namespace: "Organization",
@@ -223,7 +86,7 @@ export async function addUserToOrg(
 export async function removeUserFromOrg(
   userId: string,
   orgId: string,
-  role: "owners" | "admins" | "members" | "viewers",
+  role: OrgRole,
 ): Promise<boolean> {
   return deleteRelation({
     namespace: "Organization",
@@ -248,7 +111,10 @@ export async function createDefaultOrg(
 }
 
 // Helper: Check if user already has any org membership
+// (one tuple is enough, so only the first page of size 1 is read)
 export async function hasAnyOrgMembership(userId: string): Promise<boolean> {
-  const permissions = await listUserPermissions(userId, "Organization");
-  return permissions.length > 0;
+  const page = await listUserPermissionsPage(userId, "Organization", {
+    pageSize: 1,
+  });
+  return page.tuples.length > 0;
 }
@@ -0,0 +1,418 @@
+/**
+ * Ory Kratos Admin Client
+ * The single client for the Kratos admin API (identities, schemas, sessions,
+ * credentials, courier messages), reached through the gateway path
+ * /kratos-admin/* which routes to /admin/* on Kratos.
+ *
+ * - Per-attempt timeout (AbortController)
+ * - Retry with exponential backoff on 5xx, network errors and timeouts,
+ *   for idempotent methods only (GET, PUT, DELETE)
+ * - 400 / 404 / 409 map to BadRequestError / NotFoundError / ConflictError;
+ *   an unreachable Kratos surfaces as ServiceUnavailableError
+ */
+
+import {
+  BadRequestError,
+  ConflictError,
+  InternalServerError,
+  NotFoundError,
+  ServiceUnavailableError,
+} from "@/lib/errors";
+import {
+  CourierMessage,
+  CreateIdentityRequest,
+  Identity,
+  JsonPatchOperation,
+  Session,
+} from "@/lib/types";
+import {
+  backoffDelay,
+  describeFetchError,
+  envNumber,
+  fetchWithTimeout,
+  sleep,
+} from "@/lib/http";
+
+export interface KratosClientOptions {
+  // Admin API base URL including the gateway prefix
+  adminUrl: string;
+  // Per attempt
+  timeoutMs: number;
+  // Extra attempts after the first one (idempotent methods only)
+  maxRetries: number;
+  // Backoff before retry n is retryBaseDelayMs * 2^(n-1) plus jitter
+  retryBaseDelayMs: number;
+}
+
+export interface ListIdentitiesQuery {
+  page?: number;
+  perPage?: number;
+  // Exact match on a login identifier (e.g. email)
+  credentialsIdentifier?: string;
+}
+
+export interface IdentityPageOptions {
+  // page_token from the previous page's Link header
+  pageToken?: string;
+  pageSize?: number;
+  credentialsIdentifier?: string;
+}
+
+export type IdentityIterateOptions = Omit<IdentityPageOptions, "pageToken">;
+
+export interface IdentityPage {
+  identities: Identity[];
+  // Absent on the last page
+  nextPageToken?: string;
+}
+
+export interface ListCourierMessagesQuery {
+  status?: CourierMessage["status"];
+  recipient?: string;
+}
+
+// Response of POST /admin/sessions (token location differs by version)
+export interface CreatedKratosSession {
+  token?: string;
+  session?: Session & { token?: string };
+}
+
+type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+interface RequestOptions {
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+  // Used in the NotFoundError message, e.g. "Identity abc"
+  resource?: string;
+}
+
+const IDEMPOTENT_METHODS: HttpMethod[] = ["GET", "PUT", "DELETE"];
+
+function defaultOptions(): KratosClientOptions {
+  const baseUrl = process.env.ORY_KRATOS_ADMIN_URL;
+  return {
+    adminUrl: baseUrl ? `${baseUrl}/kratos-admin` : "",
+    timeoutMs: envNumber("KRATOS_TIMEOUT_MS", 10000),
+    maxRetries: envNumber("KRATOS_MAX_RETRIES", 2),
+    retryBaseDelayMs: envNumber("KRATOS_RETRY_BASE_DELAY_MS", 100),
+  };
+}
+
+/**
+ * page_token of the rel="next" entry of a Link header, e.g.
+ * </admin/identities?page_size=250&page_token=abc>; rel="next"
+ */
+function nextPageTokenFromLink(link: string | null): string | undefined {
+  for (const entry of (link || "").split(",")) {
+    const match = entry.match(/<([^>]*)>\s*;\s*rel="?next"?/);
+    if (match) {
+      const token = new URL(match[1], "http://kratos").searchParams.get(
+        "page_token",
+      );
+      return token || undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Kratos errors look like { error: { message, reason } }
+ */
+async function errorMessage(response: Response): Promise<string> {
+  const text = await response.text();
+  try {
+    const body = JSON.parse(text);
+    return body.error?.reason || body.error?.message || text;
+  } catch {
+    return text || response.statusText;
+  }
+}
+
+export class KratosAdminClient {
+  private readonly options: KratosClientOptions;
+
+  constructor(options: Partial<KratosClientOptions> = {}) {
+    this.options = { ...defaultOptions(), ...options };
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.options.adminUrl);
+  }
+
+  // Identities
+
+  listIdentities(query: ListIdentitiesQuery = {}): Promise<Identity[]> {
+    return this.request("GET", "/identities", {
+      query: {
+        page: query.page,
+        per_page: query.perPage,
+        credentials_identifier: query.credentialsIdentifier,
+      },
+    });
+  }
+
+  /**
+   * One page of identities using Kratos's keyset pagination; the next
+   * page's token comes from the Link header
+   */
+  async listIdentitiesPage(
+    options: IdentityPageOptions = {},
+  ): Promise<IdentityPage> {
+    const { data, headers } = await this.requestWithHeaders<Identity[]>(
+      "GET",
+      "/identities",
+      {
+        query: {
+          page_size: options.pageSize,
+          page_token: options.pageToken,
+          credentials_identifier: options.credentialsIdentifier,
+        },
+      },
+    );
+    return {
+      identities: data || [],
+      nextPageToken: nextPageTokenFromLink(headers.get("link")),
+    };
+  }
+
+  /**
+   * Every identity, fetched page by page as the caller consumes them
+   */
+  async *iterateIdentities(
+    options: IdentityIterateOptions = {},
+  ): AsyncGenerator<Identity> {
+    const seenTokens = new Set<string>();
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.listIdentitiesPage({ ...options, pageToken });
+      yield* page.identities;
+
+      pageToken = page.nextPageToken;
+      if (pageToken && seenTokens.has(pageToken)) {
+        throw new InternalServerError("Kratos repeated a list page token");
+      }
+      if (pageToken) seenTokens.add(pageToken);
+    } while (pageToken);
+  }
+
+  getIdentity(
+    id: string,
+    options: { includeCredentials?: string[] } = {},
+  ): Promise<Identity> {
+    return this.request("GET", `/identities/${encodeURIComponent(id)}`, {
+      query: { include_credential: options.includeCredentials?.join(",") },
+      resource: `Identity ${id}`,
+    });
+  }
+
+  createIdentity(body: CreateIdentityRequest): Promise<Identity> {
+    return this.request("POST", "/identities", { body });
+  }
+
+  updateIdentity(id: string, body: CreateIdentityRequest): Promise<Identity> {
+    return this.request("PUT", `/identities/${encodeURIComponent(id)}`, {
+      body,
+      resource: `Identity ${id}`,
+    });
+  }
+
+  patchIdentity(id: string, patch: JsonPatchOperation[]): Promise<Identity> {
+    return this.request("PATCH", `/identities/${encodeURIComponent(id)}`, {
+      body: patch,
+      resource: `Identity ${id}`,
+    });
+  }
+
+  async deleteIdentity(id: string): Promise<void> {
+    await this.request("DELETE", `/identities/${encodeURIComponent(id)}`, {
+      resource: `Identity ${id}`,
+    });
+  }
+
+  // Identity schemas
+
+  getIdentitySchema(id: string): Promise<Record<string, unknown>> {
+    return this.request("GET", `/schemas/${encodeURIComponent(id)}`, {
+      resource: `Identity schema ${id}`,
+    });
+  }
+
+  // Sessions
+
+  createSession(
+    identityId: string,
+    expiresInSeconds: number,
+  ): Promise<CreatedKratosSession> {
+    return this.request("POST", "/sessions", {
+      body: { identity_id: identityId, expires_in: `${expiresInSeconds}s` },
+    });
+  }
+
+  listIdentitySessions(identityId: string): Promise<Session[]> {
+    return this.request(
+      "GET",
+      `/identities/${encodeURIComponent(identityId)}/sessions`,
+      { resource: `Identity ${identityId}` },
+    );
+  }
+
+  async revokeIdentitySessions(identityId: string): Promise<void> {
+    await this.request(
+      "DELETE",
+      `/identities/${encodeURIComponent(identityId)}/sessions`,
+      { resource: `Identity ${identityId}` },
+    );
+  }
+
+  async disableSession(sessionId: string): Promise<void> {
+    await this.request(
+      "DELETE",
+      `/sessions/${encodeURIComponent(sessionId)}`,
+      { resource: `Session ${sessionId}` },
+    );
+  }
+
+  // Credentials
+
+  async deleteCredential(identityId: string, type: string): Promise<void> {
+    await this.request(
+      "DELETE",
+      `/identities/${encodeURIComponent(identityId)}/credentials/${encodeURIComponent(type)}`,
+      { resource: `Credential ${type} of identity ${identityId}` },
+    );
+  }
+
+  // Courier
+
+  listCourierMessages(
+    query: ListCourierMessagesQuery = {},
+  ): Promise<CourierMessage[]> {
+    return this.request("GET", "/courier/messages", {
+      query: { status: query.status, recipient: query.recipient },
+    });
+  }
+
+  getCourierMessage(id: string): Promise<CourierMessage> {
+    return this.request("GET", `/courier/messages/${encodeURIComponent(id)}`, {
+      resource: `Courier message ${id}`,
+    });
+  }
+
+  /**
+   * Send a request with timeout and retries, mapping error statuses to
+   * lib/errors classes. Resolves with the parsed JSON body (undefined for
+   * 204 No Content).
+   */
+  private async request<T>(
+    method: HttpMethod,
+    path: string,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const { data } = await this.requestWithHeaders<T>(method, path, options);
+    return data;
+  }
+
+  /**
+   * request() that also returns the response headers (pagination links)
+   */
+  private async requestWithHeaders<T>(
+    method: HttpMethod,
+    path: string,
+    options: RequestOptions = {},
+  ): Promise<{ data: T; headers: Headers }> {
+    if (!this.isConfigured()) {
+      throw new InternalServerError(
+        "ORY_KRATOS_ADMIN_URL environment variable is not set",
+      );
+    }
+
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(options.query || {})) {
+      if (value !== undefined && value !== "") params.set(key, String(value));
+    }
+    const search = params.toString();
+    const url = `${this.options.adminUrl}${path}${search ? `?${search}` : ""}`;
+
+    const init: RequestInit = {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body:
+        options.body === undefined ? undefined : JSON.stringify(options.body),
+    };
+
+    const maxAttempts = IDEMPOTENT_METHODS.includes(method)
+      ? this.options.maxRetries + 1
+      : 1;
+    let lastError = "";
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (attempt > 1) {
+        await sleep(backoffDelay(attempt - 1, this.options.retryBaseDelayMs));
+      }
+
+      let response: Response;
+      try {
+        response = await fetchWithTimeout(url, init, this.options.timeoutMs);
+      } catch (error) {
+        lastError = describeFetchError(error, this.options.timeoutMs);
+        continue;
+      }
+
+      if (response.status >= 500) {
+        lastError = `HTTP ${response.status}: ${await errorMessage(response)}`;
+        continue;
+      }
+
+      if (response.ok) {
+        const data =
+          response.status === 204
+            ? (undefined as T)
+            : ((await response.json()) as T);
+        return { data, headers: response.headers };
+      }
+
+      const message = await errorMessage(response);
+      switch (response.status) {
+        case 400:
+          throw new BadRequestError(message);
+        case 404:
+          throw new NotFoundError(
+            options.resource ? `${options.resource} not found` : message,
+          );
+        case 409:
+          throw new ConflictError(message);
+        default:
+          throw new InternalServerError(
+            `Kratos ${method} ${path} failed (${response.status}): ${message}`,
+          );
+      }
+    }
+
+    console.error("[Kratos] Request failed:", {
+      method,
+      path,
+      attempts: maxAttempts,
+      error: lastError,
+    });
+    throw new ServiceUnavailableError(
+      `Identity service unavailable (Kratos ${method} ${path}: ${lastError})`,
+    );
+  }
+}
+
+let defaultClient: KratosAdminClient | null = null;
+
+export function getKratosClient(): KratosAdminClient {
+  if (!defaultClient) {
+    defaultClient = new KratosAdminClient();
+  }
+  return defaultClient;
+}
+
+/**
+ * Replace the shared client (e.g. with different timeouts)
+ */
+export function setKratosClient(client: KratosAdminClient) {
+  defaultClient = client;
+}
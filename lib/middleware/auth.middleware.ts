@@ -1,15 +1,44 @@
 import { getServerSession } from "@ory/nextjs/app";
 import { NextRequest } from "next/server";
-import { checkPermission } from "@/lib/services/keto.service";
-import { UserContext } from "@/lib/types";
+import {
+  checkAllPermissions,
+  checkAnyPermission,
+  checkPermission,
+} from "@/lib/services/keto.service";
+import { hasOrgPermission } from "@/lib/services/permission.service";
+import {
+  ConsistencyToken,
+  OrgPermission,
+  PermissionTarget,
+  UserContext,
+} from "@/lib/types";
 import { UnauthorizedError, ForbiddenError } from "@/lib/errors";
+import {
+  getSessionFromCookies,
+  sessionToIdentity,
+} from "@/lib/services/session.service";
+import { getConsistencyToken } from "@/lib/consistency";
 
 /**
  * Zero-Trust Auth Middleware
  * Verifies user session and extracts user context
  * Every request must be authenticated - no trust by default
  */
-export async function requireAuth(_request: NextRequest): Promise<UserContext> {
+export async function requireAuth(request: NextRequest): Promise<UserContext> {
+  // Read-after-write token from the caller's last permission change
+  const consistency = await getConsistencyToken(request);
+
+  // Signed SimpleLogin session (same verifier as the edge middleware)
+  const simpleLoginSession = await getSessionFromCookies(request.cookies);
+  if (simpleLoginSession) {
+    return {
+      userId: simpleLoginSession.userId,
+      identity: sessionToIdentity(simpleLoginSession),
+      sessionId: simpleLoginSession.jti,
+      consistency,
+    };
+  }
+
   const session = await getServerSession();
 
   if (!session) {
@@ -24,6 +53,7 @@ export async function requireAuth(_request: NextRequest): Promise<UserContext> {
     userId: session.identity.id,
     identity: session.identity as any, // Type mismatch with Ory SDK
     sessionId: session.id,
+    consistency,
   };
 }
 
@@ -34,18 +64,12 @@ export async function requireAuth(_request: NextRequest): Promise<UserContext> {
  */
 export async function requirePermission(
   userContext: UserContext,
-  permission: {
-    namespace: string;
-    object: string;
-    relation: string;
-  },
+  permission: PermissionTarget,
 ): Promise<void> {
-  const hasPermission = await checkPermission({
-    namespace: permission.namespace,
-    object: permission.object,
-    relation: permission.relation,
-    subject: userContext.userId,
-  });
+  const hasPermission = await checkPermission(
+    { ...permission, subject: userContext.userId },
+    userContext.consistency,
+  );
 
   if (!hasPermission) {
     throw new ForbiddenError(
@@ -73,19 +97,51 @@ export async function requireAdmin(request: NextRequest): Promise<UserContext> {
 }
 
 /**
- * Check if user has specific role
+ * Combined auth + permission check for organization-scoped routes
+ * Global admins pass; otherwise the user needs the permission on this org
+ */
+export async function requireOrgPermission(
+  request: NextRequest,
+  orgId: string,
+  permission: OrgPermission,
+): Promise<UserContext> {
+  // Step 1: Authenticate
+  const userContext = await requireAuth(request);
+
+  // Step 2: Authorize against this organization only
+  const allowed = await hasOrgPermission(
+    userContext.userId,
+    orgId,
+    permission,
+    userContext.consistency,
+  );
+
+  if (!allowed) {
+    throw new ForbiddenError(
+      `Permission required: Organization:${orgId}#${permission}`,
+    );
+  }
+
+  return userContext;
+}
+
+/**
+ * Check if user has a specific global role (membership of GlobalRole:<role>)
  */
 export async function hasRole(
   userId: string,
   role: string,
-  namespace = "GlobalRole",
+  consistency?: ConsistencyToken | null,
 ): Promise<boolean> {
-  return checkPermission({
-    namespace,
-    object: role,
-    relation: "is_" + role.toLowerCase(),
-    subject: userId,
-  });
+  return checkPermission(
+    {
+      namespace: "GlobalRole",
+      object: role,
+      relation: "members",
+      subject: userId,
+    },
+    consistency,
+  );
 }
 
 /**
@@ -94,24 +150,14 @@ export async function hasRole(
  */
 export async function requireAnyPermission(
   userContext: UserContext,
-  permissions: Array<{
-    namespace: string;
-    object: string;
-    relation: string;
-  }>,
+  permissions: PermissionTarget[],
 ): Promise<void> {
-  const checks = await Promise.all(
-    permissions.map((perm) =>
-      checkPermission({
-        namespace: perm.namespace,
-        object: perm.object,
-        relation: perm.relation,
-        subject: userContext.userId,
-      }),
-    ),
+  const allowed = await checkAnyPermission(
+    permissions.map((perm) => ({ ...perm, subject: userContext.userId })),
+    userContext.consistency,
   );
 
-  if (!checks.some((allowed: boolean) => allowed)) {
+  if (!allowed) {
     throw new ForbiddenError("Insufficient permissions");
   }
 }
@@ -122,24 +168,14 @@ export async function requireAnyPermission(
  */
 export async function requireAllPermissions(
   userContext: UserContext,
-  permissions: Array<{
-    namespace: string;
-    object: string;
-    relation: string;
-  }>,
+  permissions: PermissionTarget[],
 ): Promise<void> {
-  const checks = await Promise.all(
-    permissions.map((perm) =>
-      checkPermission({
-        namespace: perm.namespace,
-        object: perm.object,
-        relation: perm.relation,
-        subject: userContext.userId,
-      }),
-    ),
+  const allowed = await checkAllPermissions(
+    permissions.map((perm) => ({ ...perm, subject: userContext.userId })),
+    userContext.consistency,
   );
 
-  if (!checks.every((allowed: boolean) => allowed)) {
+  if (!allowed) {
     throw new ForbiddenError("Insufficient permissions");
   }
 }
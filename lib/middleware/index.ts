@@ -7,6 +7,7 @@ export {
   requireAuth,
   requirePermission,
   requireAdmin,
+  requireOrgPermission,
   hasRole,
   requireAnyPermission,
   requireAllPermissions,
@@ -0,0 +1,180 @@
+/**
+ * OAuth Flow Helpers
+ *
+ * Provider-neutral state, nonce and PKCE handling for the OIDC login routes.
+ * The flow is kept in a short-lived signed cookie between the login start
+ * route and the callback.
+ */
+
+import { getSharedRedis } from "@/lib/redis";
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  randomToken,
+  signToken,
+  verifyToken,
+} from "@/lib/signed-token";
+
+export const OAUTH_FLOW_COOKIE_NAME = "oauth_flow";
+export const OAUTH_FLOW_MAX_AGE = 60 * 10; // 10 minutes in seconds
+
+const OAUTH_FLOW_TOKEN_TYPE = "oauth_flow";
+
+/**
+ * Validate OAuth state parameter to prevent CSRF attacks
+ *
+ * @param receivedState - State parameter received from OAuth callback
+ * @param storedState - State parameter stored before OAuth redirect
+ * @returns true if state is valid, false otherwise
+ */
+export function validateOAuthState(
+  receivedState: string | null,
+  storedState: string | null,
+): boolean {
+  if (!receivedState || !storedState) {
+    return false;
+  }
+
+  return receivedState === storedState;
+}
+
+export interface OAuthFlow {
+  id: string;
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  exp: number;
+}
+
+// Flow IDs that already completed a callback, kept until the flow expires.
+// In Redis when REDIS_REST_URL is set, so a replay is caught by every
+// instance and after a restart; this map is the per-process fallback.
+const consumedFlows = new Map<string, number>();
+
+const CONSUMED_FLOW_KEY_PREFIX = "iam:oauth-flow:consumed:";
+
+/**
+ * Record a flow as consumed
+ *
+ * @returns false if it was already consumed
+ */
+async function markFlowConsumed(flow: OAuthFlow): Promise<boolean> {
+  const ttlMs = flow.exp * 1000 - Date.now();
+  const redis = getSharedRedis();
+  if (redis) {
+    return redis.setIfAbsent(
+      `${CONSUMED_FLOW_KEY_PREFIX}${flow.id}`,
+      "1",
+      Math.max(ttlMs, 1),
+    );
+  }
+
+  const now = Date.now();
+  for (const [id, exp] of consumedFlows.entries()) {
+    if (exp * 1000 <= now) {
+      consumedFlows.delete(id);
+    }
+  }
+  if (consumedFlows.has(flow.id)) {
+    return false;
+  }
+  consumedFlows.set(flow.id, flow.exp);
+  return true;
+}
+
+/**
+ * Derive the PKCE S256 code challenge for a code verifier
+ */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(codeVerifier),
+  );
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * Start an OAuth flow: generate state, nonce and PKCE verifier
+ *
+ * @returns The flow and the signed cookie value that stores it
+ */
+export async function createOAuthFlow(provider: string): Promise<{
+  flow: OAuthFlow;
+  cookieValue: string;
+}> {
+  const flow: OAuthFlow = {
+    id: randomToken(16),
+    provider,
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(48),
+    exp: Math.floor(Date.now() / 1000) + OAUTH_FLOW_MAX_AGE,
+  };
+
+  const cookieValue = await signToken({ ...flow }, OAUTH_FLOW_TOKEN_TYPE);
+  return { flow, cookieValue };
+}
+
+/**
+ * Verify the OAuth callback against the flow stored at login start
+ * Checks the cookie signature and expiry, the provider, the state parameter
+ * and replays. A flow can only be consumed once.
+ *
+ * @returns The stored flow, or null if the callback must be rejected
+ */
+export async function consumeOAuthFlow(
+  provider: string,
+  cookieValue: string | undefined,
+  receivedState: string | null,
+): Promise<OAuthFlow | null> {
+  if (!cookieValue) {
+    return null;
+  }
+
+  const flow = await verifyToken<OAuthFlow>(cookieValue, OAUTH_FLOW_TOKEN_TYPE);
+  if (
+    !flow ||
+    flow.provider !== provider ||
+    !validateOAuthState(receivedState, flow.state)
+  ) {
+    return null;
+  }
+
+  // Fail closed: a flow that can't be recorded as consumed is rejected
+  const firstUse = await markFlowConsumed(flow).catch((error) => {
+    console.error("[OAuth] Couldn't record the flow as consumed:", error);
+    return false;
+  });
+  if (!firstUse) {
+    console.error("OAuth flow replay rejected:", flow.id);
+    return null;
+  }
+
+  return flow;
+}
+
+/**
+ * Check that an ID token was issued for this flow's nonce
+ * The token comes straight from the token endpoint over TLS, so only the
+ * nonce claim is compared here.
+ */
+export function validateIdTokenNonce(
+  idToken: string | undefined,
+  expectedNonce: string,
+): boolean {
+  if (!idToken) {
+    return false;
+  }
+
+  try {
+    const [, payload] = idToken.split(".");
+    const claims = JSON.parse(
+      new TextDecoder().decode(base64UrlDecode(payload)),
+    );
+    return claims.nonce === expectedNonce;
+  } catch (error) {
+    console.error("Failed to decode ID token:", error);
+    return false;
+  }
+}
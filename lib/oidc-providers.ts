@@ -0,0 +1,243 @@
+/**
+ * OIDC Provider Registry
+ *
+ * Every external login provider is described by configuration: issuer
+ * (for discovery), client credentials and a claim-to-trait mapper.
+ * Adding a provider means adding its id to OIDC_PROVIDERS and setting:
+ *
+ *   OIDC_<ID>_CLIENT_ID, OIDC_<ID>_CLIENT_SECRET
+ *   OIDC_<ID>_ISSUER        (required unless the preset has one)
+ *   OIDC_<ID>_SCOPE         (optional, default "openid profile email")
+ *   OIDC_<ID>_DISPLAY_NAME  (optional)
+ *
+ * Presets exist for simplelogin, google, gitlab and keycloak; any other id
+ * uses the standard OIDC claim mapper.
+ */
+
+export interface OidcEndpoints {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+// Normalized user produced by a provider's claim mapper
+export interface ProviderUser {
+  subject: string;
+  email: string;
+  // The provider vouches that the user controls the address
+  emailVerified: boolean;
+  name: {
+    first: string;
+    last: string;
+  };
+  avatar_url?: string;
+  // Extra provider-specific values stored in metadata_public
+  metadata?: Record<string, unknown>;
+}
+
+export type ClaimMapper = (claims: Record<string, unknown>) => ProviderUser;
+
+export interface OidcProvider {
+  id: string;
+  displayName: string;
+  issuer?: string;
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  // Static endpoints; when absent they are read from the discovery document
+  endpoints?: OidcEndpoints;
+  // Extra parameters for the authorization request (e.g. Google's `hd`)
+  authorizationParams?: Record<string, string>;
+  mapClaims: ClaimMapper;
+}
+
+interface ProviderPreset {
+  displayName: string;
+  issuer?: string;
+  endpoints?: OidcEndpoints;
+  mapClaims: ClaimMapper;
+}
+
+const DEFAULT_SCOPE = "openid profile email";
+
+function claim(claims: Record<string, unknown>, key: string): string {
+  const value = claims[key];
+  return typeof value === "string" ? value : "";
+}
+
+function requireEmail(claims: Record<string, unknown>): string {
+  const email = claim(claims, "email");
+  if (!email) {
+    throw new Error("Provider did not return an email address");
+  }
+  return email;
+}
+
+// Some providers send the boolean as a string
+function emailVerified(claims: Record<string, unknown>): boolean {
+  const value = claims.email_verified;
+  return value === true || value === "true";
+}
+
+function splitName(fullName: string, fallback: string) {
+  const nameParts = (fullName || fallback).split(" ");
+  return {
+    first: nameParts[0] || fullName || fallback,
+    last: nameParts.slice(1).join(" ") || "",
+  };
+}
+
+/**
+ * Standard OIDC claims (given_name, family_name, name, picture)
+ */
+export const mapStandardClaims: ClaimMapper = (claims) => {
+  const email = requireEmail(claims);
+  const givenName = claim(claims, "given_name");
+  const familyName = claim(claims, "family_name");
+
+  return {
+    subject: claim(claims, "sub"),
+    email,
+    emailVerified: emailVerified(claims),
+    name:
+      givenName || familyName
+        ? { first: givenName, last: familyName }
+        : splitName(claim(claims, "name"), email.split("@")[0]),
+    avatar_url: claim(claims, "picture") || undefined,
+  };
+};
+
+const PRESETS: Record<string, ProviderPreset> = {
+  simplelogin: {
+    displayName: "SimpleLogin",
+    endpoints: {
+      authorization_endpoint: "https://app.simplelogin.io/oauth2/authorize",
+      token_endpoint: "https://app.simplelogin.io/oauth2/token",
+      userinfo_endpoint: "https://app.simplelogin.io/oauth2/userinfo",
+    },
+    mapClaims: (claims) => {
+      const email = requireEmail(claims);
+      return {
+        subject: claim(claims, "sub"),
+        email,
+        emailVerified: emailVerified(claims),
+        name: splitName(claim(claims, "name"), email.split("@")[0]),
+        avatar_url: claim(claims, "avatar_url") || undefined,
+        metadata: {
+          simplelogin_id: claim(claims, "sub"),
+        },
+      };
+    },
+  },
+  google: {
+    displayName: "Google Workspace",
+    issuer: "https://accounts.google.com",
+    mapClaims: (claims) => {
+      // Restrict to one Workspace domain when configured
+      const hostedDomain = process.env.OIDC_GOOGLE_HOSTED_DOMAIN;
+      if (hostedDomain && claim(claims, "hd") !== hostedDomain) {
+        throw new Error(`Account is not part of ${hostedDomain}`);
+      }
+      return {
+        ...mapStandardClaims(claims),
+        metadata: { hosted_domain: claim(claims, "hd") || undefined },
+      };
+    },
+  },
+  gitlab: {
+    displayName: "GitLab",
+    issuer: "https://gitlab.com",
+    mapClaims: (claims) => ({
+      ...mapStandardClaims(claims),
+      metadata: { username: claim(claims, "nickname") || undefined },
+    }),
+  },
+  keycloak: {
+    displayName: "Keycloak",
+    mapClaims: (claims) => ({
+      ...mapStandardClaims(claims),
+      metadata: {
+        username: claim(claims, "preferred_username") || undefined,
+      },
+    }),
+  },
+};
+
+function envKey(id: string, name: string): string {
+  return `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_${name}`;
+}
+
+function loadProvider(id: string): OidcProvider | null {
+  const preset = PRESETS[id];
+  let clientId = process.env[envKey(id, "CLIENT_ID")];
+  let clientSecret = process.env[envKey(id, "CLIENT_SECRET")];
+
+  // SimpleLogin keeps its original environment variable names
+  if (id === "simplelogin") {
+    clientId = clientId || process.env.NEXT_PUBLIC_SIMPLELOGIN_CLIENT_ID;
+    clientSecret = clientSecret || process.env.SIMPLELOGIN_CLIENT_SECRET;
+  }
+
+  const issuer = process.env[envKey(id, "ISSUER")] || preset?.issuer;
+
+  if (!clientId || !clientSecret) {
+    return null;
+  }
+
+  if (!issuer && !preset?.endpoints) {
+    console.error(`[OIDC] Provider ${id} has no issuer configured`);
+    return null;
+  }
+
+  const authorizationParams: Record<string, string> = {};
+  if (id === "google" && process.env.OIDC_GOOGLE_HOSTED_DOMAIN) {
+    authorizationParams.hd = process.env.OIDC_GOOGLE_HOSTED_DOMAIN;
+  }
+
+  return {
+    id,
+    displayName:
+      process.env[envKey(id, "DISPLAY_NAME")] || preset?.displayName || id,
+    issuer,
+    clientId,
+    clientSecret,
+    scope: process.env[envKey(id, "SCOPE")] || DEFAULT_SCOPE,
+    // An explicit issuer switches the preset to discovery
+    endpoints: process.env[envKey(id, "ISSUER")] ? undefined : preset?.endpoints,
+    authorizationParams,
+    mapClaims: preset?.mapClaims || mapStandardClaims,
+  };
+}
+
+function configuredProviderIds(): string[] {
+  const ids = (process.env.OIDC_PROVIDERS || "")
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  // SimpleLogin stays enabled for existing deployments
+  if (!ids.includes("simplelogin")) {
+    ids.unshift("simplelogin");
+  }
+
+  return ids;
+}
+
+/**
+ * Get an enabled provider by id
+ */
+export function getProvider(id: string): OidcProvider | null {
+  if (!configuredProviderIds().includes(id)) {
+    return null;
+  }
+  return loadProvider(id);
+}
+
+/**
+ * List all providers that are enabled and fully configured
+ */
+export function listProviders(): OidcProvider[] {
+  return configuredProviderIds()
+    .map(loadProvider)
+    .filter((provider): provider is OidcProvider => provider !== null);
+}
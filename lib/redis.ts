@@ -0,0 +1,108 @@
+/**
+ * Shared Redis (edge-safe)
+ * The edge middleware and the Node route handlers don't share memory, so
+ * state both must see (session revocations, consumed OAuth flows,
+ * permission decisions) lives in Redis. This is a minimal client for Redis
+ * over HTTP (the Upstash REST protocol: POST a command as a JSON array, get
+ * `{ result }` back), which works in both runtimes without a driver.
+ *
+ * Configure with REDIS_REST_URL and REDIS_REST_TOKEN; getSharedRedis()
+ * returns null when they are not set.
+ */
+
+import { describeFetchError, envNumber, fetchWithTimeout } from "@/lib/http";
+
+export interface RedisRestClientOptions {
+  url: string;
+  token: string;
+  timeoutMs: number;
+}
+
+export class RedisRestClient {
+  constructor(private readonly options: RedisRestClientOptions) {}
+
+  /**
+   * Run one command, e.g. ["SET", "key", "value", "PX", "1000"]
+   */
+  async command<T>(args: (string | number)[]): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(
+        this.options.url,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${this.options.token}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(args.map(String)),
+        },
+        this.options.timeoutMs,
+      );
+    } catch (error) {
+      throw new Error(
+        `Redis ${args[0]} failed: ${describeFetchError(error, this.options.timeoutMs)}`,
+      );
+    }
+
+    const data: { result?: T; error?: string } = await response
+      .json()
+      .catch(() => ({ error: `HTTP ${response.status}` }));
+    if (!response.ok || data.error) {
+      throw new Error(
+        `Redis ${args[0]} failed: ${data.error || `HTTP ${response.status}`}`,
+      );
+    }
+    return data.result as T;
+  }
+
+  get(key: string): Promise<string | null> {
+    return this.command(["GET", key]);
+  }
+
+  mget(...keys: string[]): Promise<(string | null)[]> {
+    return this.command(["MGET", ...keys]);
+  }
+
+  set(key: string, value: string, mode: "PX", ttlMs: number) {
+    return this.command<string>(["SET", key, value, mode, Math.ceil(ttlMs)]);
+  }
+
+  /**
+   * SET NX: true if the key was set, false if it already existed
+   */
+  async setIfAbsent(
+    key: string,
+    value: string,
+    ttlMs: number,
+  ): Promise<boolean> {
+    const result = await this.command<string | null>([
+      "SET",
+      key,
+      value,
+      "NX",
+      "PX",
+      Math.ceil(ttlMs),
+    ]);
+    return result === "OK";
+  }
+}
+
+let sharedRedis: RedisRestClient | null | undefined;
+
+/**
+ * The configured shared Redis, or null if REDIS_REST_URL is not set
+ */
+export function getSharedRedis(): RedisRestClient | null {
+  if (sharedRedis === undefined) {
+    const url = process.env.REDIS_REST_URL;
+    sharedRedis = url
+      ? new RedisRestClient({
+          url: url.replace(/\/$/, ""),
+          token: process.env.REDIS_REST_TOKEN || "",
+          timeoutMs: envNumber("REDIS_TIMEOUT_MS", 2000),
+        })
+      : null;
+  }
+  return sharedRedis;
+}
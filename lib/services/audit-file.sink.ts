@@ -0,0 +1,96 @@
+/**
+ * File Audit Sink - Append-only JSON Lines audit store
+ * Default persistent backend for the audit service (Node.js runtime only)
+ * The chain head is kept in a sibling "<file>.head" file.
+ */
+
+import {
+  appendFile,
+  mkdir,
+  readFile,
+  rename,
+  writeFile,
+} from "node:fs/promises";
+import { createReadStream, existsSync } from "node:fs";
+import { dirname } from "node:path";
+import { createInterface } from "node:readline";
+import type {
+  AuditChainHead,
+  AuditQuery,
+  AuditQueryResult,
+  AuditSink,
+  StoredAuditLogEntry,
+} from "./audit.service";
+import { applyAuditQuery, matchesAuditQuery } from "./audit.service";
+
+export class FileAuditSink implements AuditSink {
+  private ready: Promise<void> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = mkdir(dirname(this.filePath), { recursive: true }).then(
+        () => undefined,
+      );
+    }
+    return this.ready;
+  }
+
+  async write(entry: StoredAuditLogEntry): Promise<void> {
+    await this.ensureDirectory();
+    await appendFile(this.filePath, JSON.stringify(entry) + "\n", "utf8");
+  }
+
+  /**
+   * Stream every stored entry in write order
+   */
+  async *entries(): AsyncGenerator<StoredAuditLogEntry> {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = createInterface({
+      input: createReadStream(this.filePath, { encoding: "utf8" }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        yield JSON.parse(line) as StoredAuditLogEntry;
+      } catch {
+        console.error("[AUDIT] Skipping unreadable audit line");
+      }
+    }
+  }
+
+  async readHead(): Promise<AuditChainHead | null> {
+    const headPath = `${this.filePath}.head`;
+    if (!existsSync(headPath)) {
+      return null;
+    }
+    return JSON.parse(await readFile(headPath, "utf8")) as AuditChainHead;
+  }
+
+  /**
+   * Replace the head file atomically (write, then rename over it)
+   */
+  async writeHead(head: AuditChainHead): Promise<void> {
+    await this.ensureDirectory();
+    const headPath = `${this.filePath}.head`;
+    await writeFile(`${headPath}.tmp`, JSON.stringify(head) + "\n", "utf8");
+    await rename(`${headPath}.tmp`, headPath);
+  }
+
+  async query(query: AuditQuery): Promise<AuditQueryResult> {
+    // Keep only matching entries in memory while scanning the file
+    const matching: StoredAuditLogEntry[] = [];
+    for await (const entry of this.entries()) {
+      if (matchesAuditQuery(entry, query)) {
+        matching.push(entry);
+      }
+    }
+    return applyAuditQuery(matching, query);
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Forwarding Audit Sink - Audit events from the Edge runtime
+ * The edge middleware has no file system and doesn't share memory with the
+ * Node server, so its events (access denials, admin checks) are signed with
+ * the session keys and posted to /api/internal/audit, which writes them to
+ * the Node sink and hash chain. Edge-safe.
+ */
+
+import { fetchWithTimeout } from "@/lib/http";
+import { signToken, verifyToken } from "@/lib/signed-token";
+import type {
+  AuditChainHead,
+  AuditLogEntry,
+  AuditQueryResult,
+  AuditSink,
+  StoredAuditLogEntry,
+} from "./audit.service";
+
+const AUDIT_EVENT_TOKEN_TYPE = "audit_event";
+// Forwarded events must arrive within this many seconds
+const AUDIT_EVENT_MAX_AGE = 60;
+
+interface AuditEventPayload {
+  entry: Omit<AuditLogEntry, "timestamp"> & { timestamp: string };
+  exp: number;
+}
+
+/**
+ * Default ingest URL: the Node server the middleware runs next to
+ */
+export function getAuditForwardUrl(): string {
+  return (
+    process.env.AUDIT_FORWARD_URL ||
+    `http://127.0.0.1:${process.env.PORT || 3000}/api/internal/audit`
+  );
+}
+
+/**
+ * Verify a forwarded event; null unless it was signed by this app and is
+ * still fresh
+ */
+export async function readForwardedAuditEvent(
+  token: string,
+): Promise<AuditLogEntry | null> {
+  const payload = await verifyToken<AuditEventPayload>(
+    token,
+    AUDIT_EVENT_TOKEN_TYPE,
+  );
+  const entry = payload?.entry;
+  if (
+    !entry ||
+    typeof entry.userId !== "string" ||
+    typeof entry.action !== "string" ||
+    typeof entry.resource !== "string" ||
+    !["granted", "denied", "success", "failure"].includes(entry.result)
+  ) {
+    return null;
+  }
+
+  return { ...entry, timestamp: new Date(entry.timestamp) };
+}
+
+export class ForwardingAuditSink implements AuditSink {
+  constructor(
+    private readonly url: string,
+    private readonly timeoutMs = 2000,
+  ) {}
+
+  /**
+   * Forward the event itself; the receiving side chains it
+   */
+  async write(entry: StoredAuditLogEntry): Promise<void> {
+    const { userId, action, resource, result, timestamp } = entry;
+    const payload: AuditEventPayload = {
+      entry: {
+        userId,
+        action,
+        resource,
+        result,
+        timestamp,
+        ipAddress: entry.ipAddress,
+        userAgent: entry.userAgent,
+        metadata: entry.metadata,
+      },
+      exp: Math.floor(Date.now() / 1000) + AUDIT_EVENT_MAX_AGE,
+    };
+
+    const response = await fetchWithTimeout(
+      this.url,
+      {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: await signToken({ ...payload }, AUDIT_EVENT_TOKEN_TYPE),
+      },
+      this.timeoutMs,
+    );
+    if (!response.ok) {
+      throw new Error(`Audit forward failed: HTTP ${response.status}`);
+    }
+  }
+
+  async query(): Promise<AuditQueryResult> {
+    throw new Error("Audit queries are not available in the Edge runtime");
+  }
+
+  // Nothing is stored here, so every forwarded event starts a fresh link;
+  // the receiving side recomputes the chain
+  async *entries(): AsyncGenerator<StoredAuditLogEntry> {}
+
+  async readHead(): Promise<AuditChainHead | null> {
+    return null;
+  }
+
+  async writeHead(): Promise<void> {}
+}
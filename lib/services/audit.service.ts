@@ -14,25 +14,416 @@ export interface AuditLogEntry {
   metadata?: Record<string, any>;
 }
 
+// Audit event as persisted by a sink
+// Each entry carries the keyed hash of its predecessor, forming a
+// tamper-evident chain
+export interface StoredAuditLogEntry extends Omit<AuditLogEntry, "timestamp"> {
+  id: string;
+  timestamp: string;
+  prevHash: string;
+  hash: string;
+}
+
+// prevHash of the first entry in the chain
+export const AUDIT_GENESIS_HASH = "0".repeat(64);
+
+export interface AuditQuery {
+  userId?: string;
+  action?: string;
+  // Matches resources starting with this value (e.g. "Organization:acme")
+  resource?: string;
+  result?: AuditLogEntry["result"];
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditQueryResult {
+  entries: StoredAuditLogEntry[];
+  total: number;
+}
+
+// Newest link of the chain, stored next to the entries so that removing
+// entries from the end is detected
+export interface AuditChainHead {
+  count: number;
+  hash: string;
+}
+
+/**
+ * Pluggable audit storage backend
+ */
+export interface AuditSink {
+  write(entry: StoredAuditLogEntry): Promise<void>;
+  query(query: AuditQuery): Promise<AuditQueryResult>;
+  // Every stored entry in write order (used to walk the hash chain)
+  entries(): AsyncIterable<StoredAuditLogEntry>;
+  readHead(): Promise<AuditChainHead | null>;
+  writeHead(head: AuditChainHead): Promise<void>;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  // First broken link, if any
+  brokenAt?: {
+    index: number;
+    id: string;
+    timestamp: string;
+    reason: "hash_mismatch" | "prev_hash_mismatch";
+    expected: string;
+    actual: string;
+  };
+  // Set when the chain ends before the recorded head
+  truncated?: {
+    head: AuditChainHead;
+    found: number;
+  };
+  // Recorded head; compare with a copy kept elsewhere (e.g. the shipped
+  // [AUDIT] console lines) to catch a head rolled back along with the log
+  head: AuditChainHead | null;
+}
+
+// JSON with sorted object keys, so hashes survive storage round-trips
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort();
+    return `{${keys
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`,
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+let chainKey: { secret: string; key: Promise<CryptoKey> } | null = null;
+
+// HMAC key for the chain, so whoever can edit the log can't recompute it
+function getChainKey(): Promise<CryptoKey> {
+  const secret = process.env.AUDIT_CHAIN_KEY;
+  if (!secret) {
+    throw new Error("AUDIT_CHAIN_KEY environment variable is not set");
+  }
+  if (chainKey?.secret !== secret) {
+    chainKey = {
+      secret,
+      key: crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(secret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"],
+      ),
+    };
+  }
+  return chainKey.key;
+}
+
+/**
+ * Compute the chain hash of an entry
+ * HMAC-SHA256 (AUDIT_CHAIN_KEY) over every field except the hash itself
+ * (prevHash included)
+ */
+export async function computeAuditHash(
+  entry: Omit<StoredAuditLogEntry, "hash">,
+): Promise<string> {
+  const content: Record<string, unknown> = { ...entry };
+  delete content.hash;
+  const digest = await crypto.subtle.sign(
+    "HMAC",
+    await getChainKey(),
+    new TextEncoder().encode(canonicalJson(content)),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Check whether a stored entry matches a query's filters
+ */
+export function matchesAuditQuery(
+  entry: StoredAuditLogEntry,
+  query: AuditQuery,
+): boolean {
+  if (query.userId && entry.userId !== query.userId) return false;
+  if (query.action && entry.action !== query.action) return false;
+  if (query.resource && !entry.resource.startsWith(query.resource)) {
+    return false;
+  }
+  if (query.result && entry.result !== query.result) return false;
+
+  const timestamp = new Date(entry.timestamp).getTime();
+  if (query.from && timestamp < query.from.getTime()) return false;
+  if (query.to && timestamp > query.to.getTime()) return false;
+
+  return true;
+}
+
+/**
+ * Filter, order (newest first) and paginate entries for a query
+ */
+export function applyAuditQuery(
+  entries: StoredAuditLogEntry[],
+  query: AuditQuery,
+): AuditQueryResult {
+  const matching = entries
+    .filter((entry) => matchesAuditQuery(entry, query))
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  const offset = query.offset || 0;
+  const limit = query.limit || 100;
+
+  return {
+    entries: matching.slice(offset, offset + limit),
+    total: matching.length,
+  };
+}
+
+/**
+ * In-memory sink (per process, lost on restart)
+ * For tests and development; nothing uses it by default
+ */
+export class MemoryAuditSink implements AuditSink {
+  private stored: StoredAuditLogEntry[] = [];
+  private head: AuditChainHead | null = null;
+
+  async write(entry: StoredAuditLogEntry): Promise<void> {
+    this.stored.push(entry);
+  }
+
+  async query(query: AuditQuery): Promise<AuditQueryResult> {
+    return applyAuditQuery(this.stored, query);
+  }
+
+  async *entries(): AsyncGenerator<StoredAuditLogEntry> {
+    yield* this.stored;
+  }
+
+  async readHead(): Promise<AuditChainHead | null> {
+    return this.head;
+  }
+
+  async writeHead(head: AuditChainHead): Promise<void> {
+    this.head = head;
+  }
+}
+
+let auditSink: AuditSink | null = null;
+
+// Newest link (null until recovered from the sink)
+let lastLink: AuditChainHead | null = null;
+// Set when the stored head doesn't match the stored chain; the head is then
+// left alone so verification keeps reporting it
+let headMismatch = false;
+// Writes are serialized so every entry links to the one before it
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Replace the audit sink (database, log service, etc.)
+ */
+export function setAuditSink(sink: AuditSink) {
+  auditSink = sink;
+  lastLink = null;
+  headMismatch = false;
+}
+
+/**
+ * Resolve the active sink
+ * Defaults to the append-only file sink; the Edge runtime has no file
+ * system, so it forwards its events to the Node server's sink
+ * (AUDIT_FORWARD_URL, see audit-forward.sink.ts).
+ */
+async function getAuditSink(): Promise<AuditSink> {
+  if (!auditSink) {
+    if (process.env.NEXT_RUNTIME === "edge") {
+      const { ForwardingAuditSink, getAuditForwardUrl } = await import(
+        "./audit-forward.sink"
+      );
+      auditSink = new ForwardingAuditSink(getAuditForwardUrl());
+    } else {
+      const { FileAuditSink } = await import("./audit-file.sink");
+      auditSink = new FileAuditSink(
+        process.env.AUDIT_LOG_FILE || "data/audit/audit.jsonl",
+      );
+    }
+  }
+  return auditSink;
+}
+
+/**
+ * Newest stored link, recovered from the sink on first use
+ */
+async function getLastLink(sink: AuditSink): Promise<AuditChainHead> {
+  if (lastLink === null) {
+    const head = await sink.readHead();
+    let link: AuditChainHead = { count: 0, hash: AUDIT_GENESIS_HASH };
+    let headFound = !head || head.count === 0;
+    for await (const entry of sink.entries()) {
+      link = { count: link.count + 1, hash: entry.hash };
+      if (head && link.count === head.count && link.hash === head.hash) {
+        headFound = true;
+      }
+    }
+    if (!headFound) {
+      console.error(
+        "[AUDIT] Stored chain doesn't reach the recorded head; run audit:verify",
+      );
+      headMismatch = true;
+    }
+    lastLink = link;
+  }
+  return lastLink;
+}
+
 /**
  * Log an audit event
- * In production, this should write to a persistent store (database, log service, etc.)
+ * Chains it to the previous event, writes it to the configured sink and
+ * echoes it to the console for log shipping.
+ * The chain assumes a single writer process per sink.
  */
 export async function logAudit(entry: AuditLogEntry): Promise<void> {
-  const logEntry = {
-    ...entry,
-    timestamp: entry.timestamp || new Date(),
-  };
+  const write = writeQueue.then(async () => {
+    const timestamp = (entry.timestamp || new Date()).toISOString();
 
-  // For now, log to console. In production:
-  // - Write to database (PostgreSQL, MongoDB, etc.)
-  // - Send to log aggregation service (ELK, Splunk, DataDog, etc.)
-  // - Use structured logging library (Winston, Pino, etc.)
+    try {
+      const sink = await getAuditSink();
+      const previous = await getLastLink(sink);
+      const unhashed = {
+        ...entry,
+        id: crypto.randomUUID(),
+        timestamp,
+        prevHash: previous.hash,
+      };
+      const logEntry: StoredAuditLogEntry = {
+        ...unhashed,
+        hash: await computeAuditHash(unhashed),
+      };
 
-  console.log("[AUDIT]", JSON.stringify(logEntry, null, 2));
+      console.log("[AUDIT]", JSON.stringify(logEntry));
 
-  // TODO: Implement persistent storage
-  // await saveAuditLog(logEntry);
+      await sink.write(logEntry);
+      lastLink = { count: previous.count + 1, hash: logEntry.hash };
+      if (!headMismatch) {
+        await sink.writeHead(lastLink);
+      }
+    } catch (error) {
+      // Never let audit storage failures break the request being audited
+      console.error(
+        "[AUDIT] Failed to persist audit event:",
+        JSON.stringify({ ...entry, timestamp }),
+        error,
+      );
+      // Re-read the chain head on the next write
+      lastLink = null;
+    }
+  });
+
+  writeQueue = write;
+  await write;
+}
+
+/**
+ * Walk the hash chain in write order and report the first broken link, or
+ * a chain that ends before the recorded head
+ */
+export async function verifyAuditChain(): Promise<AuditChainVerification> {
+  const sink = await getAuditSink();
+  const head = await sink.readHead();
+  let expectedPrevHash = AUDIT_GENESIS_HASH;
+  let index = 0;
+
+  for await (const entry of sink.entries()) {
+    if (entry.prevHash !== expectedPrevHash) {
+      return {
+        valid: false,
+        checked: index,
+        head,
+        brokenAt: {
+          index,
+          id: entry.id,
+          timestamp: entry.timestamp,
+          reason: "prev_hash_mismatch",
+          expected: expectedPrevHash,
+          actual: String(entry.prevHash),
+        },
+      };
+    }
+
+    const hash = await computeAuditHash(entry);
+    if (entry.hash !== hash) {
+      return {
+        valid: false,
+        checked: index,
+        head,
+        brokenAt: {
+          index,
+          id: entry.id,
+          timestamp: entry.timestamp,
+          reason: "hash_mismatch",
+          expected: hash,
+          actual: String(entry.hash),
+        },
+      };
+    }
+
+    expectedPrevHash = entry.hash;
+    index++;
+
+    // Entries were removed from the end and the chain continued from there
+    if (head && index === head.count && entry.hash !== head.hash) {
+      return {
+        valid: false,
+        checked: index,
+        head,
+        truncated: { head, found: index },
+      };
+    }
+  }
+
+  if (head && index < head.count) {
+    return {
+      valid: false,
+      checked: index,
+      head,
+      truncated: { head, found: index },
+    };
+  }
+
+  return { valid: true, checked: index, head };
+}
+
+/**
+ * Every stored event matching the query's filters, oldest first, read from
+ * the sink as it goes (limit and offset are ignored)
+ */
+export async function* iterateAuditLog(
+  query: AuditQuery = {},
+): AsyncGenerator<StoredAuditLogEntry> {
+  const sink = await getAuditSink();
+  for await (const entry of sink.entries()) {
+    if (matchesAuditQuery(entry, query)) {
+      yield entry;
+    }
+  }
+}
+
+/**
+ * Query stored audit events
+ */
+export async function queryAuditLog(
+  query: AuditQuery = {},
+): Promise<AuditQueryResult> {
+  const sink = await getAuditSink();
+  return sink.query(query);
 }
 
 /**
@@ -0,0 +1,253 @@
+/**
+ * Group Service - BFF Layer for Groups
+ * Groups are Keto objects in the `Group` namespace. Members are users or
+ * other groups (subject sets), and permissions are granted to a whole
+ * group with the subject set Group:<id>#members.
+ */
+
+import { Group, GroupDetail, RelationTuple } from "@/lib/types";
+import { BadRequestError, NotFoundError } from "@/lib/errors";
+import { formatSubjectSet, parseSubjectSet } from "@/lib/subject-set";
+import {
+  grantPermission,
+  listNamespacePermissions,
+  listObjectPermissions,
+  listUserPermissions,
+  revokePermission,
+} from "./keto.service";
+import { logAdminAction } from "./audit.service";
+
+export const GROUP_NAMESPACE = "Group";
+export const GROUP_MEMBER_RELATION = "members";
+
+const GROUP_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{1,62}$/;
+
+/**
+ * Subject set for every member of a group
+ */
+export function groupSubject(groupId: string): string {
+  return formatSubjectSet({
+    namespace: GROUP_NAMESPACE,
+    object: groupId,
+    relation: GROUP_MEMBER_RELATION,
+  });
+}
+
+/**
+ * Group ID of a subject, or null if the subject is not a group's members
+ */
+export function groupIdFromSubject(subject: string): string | null {
+  const subjectSet = parseSubjectSet(subject);
+  if (
+    subjectSet?.namespace === GROUP_NAMESPACE &&
+    subjectSet.relation === GROUP_MEMBER_RELATION
+  ) {
+    return subjectSet.object;
+  }
+  return null;
+}
+
+function assertGroupId(groupId: string) {
+  if (!GROUP_ID_PATTERN.test(groupId)) {
+    throw new BadRequestError(
+      "group id must be 2-63 lowercase letters, digits, dashes or underscores",
+    );
+  }
+}
+
+function membershipTuple(groupId: string, member: string): RelationTuple {
+  return {
+    namespace: GROUP_NAMESPACE,
+    object: groupId,
+    relation: GROUP_MEMBER_RELATION,
+    subject: member,
+  };
+}
+
+// Split member tuples into direct users and nested groups
+function toGroup(groupId: string, tuples: RelationTuple[]): Group {
+  const group: Group = { id: groupId, members: [], subgroups: [] };
+  for (const tuple of tuples) {
+    if (tuple.relation !== GROUP_MEMBER_RELATION) continue;
+
+    const subgroupId = groupIdFromSubject(tuple.subject);
+    if (subgroupId) {
+      group.subgroups.push(subgroupId);
+    } else if (!parseSubjectSet(tuple.subject)) {
+      group.members.push(tuple.subject);
+    }
+  }
+  return group;
+}
+
+/**
+ * List all groups (every group with at least one member)
+ */
+export async function listGroups(): Promise<Group[]> {
+  const tuples = await listNamespacePermissions(
+    GROUP_NAMESPACE,
+    GROUP_MEMBER_RELATION,
+  );
+
+  const byGroup = new Map<string, RelationTuple[]>();
+  for (const tuple of tuples) {
+    byGroup.set(tuple.object, [...(byGroup.get(tuple.object) || []), tuple]);
+  }
+
+  return Array.from(byGroup.entries())
+    .map(([groupId, groupTuples]) => toGroup(groupId, groupTuples))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Get a group with its members, parent groups and grants
+ */
+export async function getGroup(groupId: string): Promise<GroupDetail> {
+  const [memberTuples, subjectTuples] = await Promise.all([
+    listObjectPermissions(GROUP_NAMESPACE, groupId),
+    listUserPermissions(groupSubject(groupId)),
+  ]);
+
+  if (memberTuples.length === 0 && subjectTuples.length === 0) {
+    throw new NotFoundError(`Group ${groupId} not found`);
+  }
+
+  const parents: string[] = [];
+  const grants: RelationTuple[] = [];
+  for (const tuple of subjectTuples) {
+    if (
+      tuple.namespace === GROUP_NAMESPACE &&
+      tuple.relation === GROUP_MEMBER_RELATION
+    ) {
+      parents.push(tuple.object);
+    } else {
+      grants.push(tuple);
+    }
+  }
+
+  return { ...toGroup(groupId, memberTuples), parents, grants };
+}
+
+/**
+ * All groups nested (directly or transitively) inside a group
+ */
+async function listDescendantGroups(groupId: string): Promise<Set<string>> {
+  const descendants = new Set<string>();
+  const queue = [groupId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const tuples = await listObjectPermissions(GROUP_NAMESPACE, current);
+    for (const subgroupId of toGroup(current, tuples).subgroups) {
+      if (!descendants.has(subgroupId)) {
+        descendants.add(subgroupId);
+        queue.push(subgroupId);
+      }
+    }
+  }
+
+  return descendants;
+}
+
+/**
+ * Add a user or a nested group to a group (creates the group if needed)
+ *
+ * @param member - User ID, or a group's subject set (Group:<id>#members)
+ */
+export async function addGroupMember(
+  groupId: string,
+  member: string,
+  actorId: string,
+): Promise<GroupDetail> {
+  assertGroupId(groupId);
+
+  const subgroupId = groupIdFromSubject(member);
+  if (parseSubjectSet(member) && !subgroupId) {
+    throw new BadRequestError(
+      `Only users or ${GROUP_NAMESPACE}:<id>#${GROUP_MEMBER_RELATION} can be group members`,
+    );
+  }
+
+  // Nesting must stay acyclic: the new subgroup may not contain this group
+  if (subgroupId) {
+    if (subgroupId === groupId) {
+      throw new BadRequestError("A group cannot contain itself");
+    }
+    const descendants = await listDescendantGroups(subgroupId);
+    if (descendants.has(groupId)) {
+      throw new BadRequestError(
+        `${subgroupId} already contains ${groupId}; nesting it would create a cycle`,
+      );
+    }
+  }
+
+  // Granting to a subject set clears the permission cache (permission.service)
+  await grantPermission(membershipTuple(groupId, member));
+
+  await logAdminAction(
+    actorId,
+    "add_group_member",
+    `${GROUP_NAMESPACE}:${groupId}`,
+    true,
+    {
+      groupId,
+      member,
+    },
+  );
+
+  return getGroup(groupId);
+}
+
+/**
+ * Remove a user or nested group from a group
+ */
+export async function removeGroupMember(
+  groupId: string,
+  member: string,
+  actorId: string,
+): Promise<void> {
+  await revokePermission(membershipTuple(groupId, member));
+
+  await logAdminAction(
+    actorId,
+    "remove_group_member",
+    `${GROUP_NAMESPACE}:${groupId}`,
+    true,
+    {
+      groupId,
+      member,
+    },
+  );
+}
+
+/**
+ * Delete a group: its memberships, its nesting and everything granted to it
+ */
+export async function deleteGroup(
+  groupId: string,
+  actorId: string,
+): Promise<void> {
+  const [memberTuples, subjectTuples] = await Promise.all([
+    listObjectPermissions(GROUP_NAMESPACE, groupId),
+    listUserPermissions(groupSubject(groupId)),
+  ]);
+
+  if (memberTuples.length === 0 && subjectTuples.length === 0) {
+    throw new NotFoundError(`Group ${groupId} not found`);
+  }
+
+  for (const tuple of [...memberTuples, ...subjectTuples]) {
+    await revokePermission(tuple);
+  }
+
+  await logAdminAction(
+    actorId,
+    "delete_group",
+    `${GROUP_NAMESPACE}:${groupId}`,
+    true,
+    {
+      groupId,
+      removedTuples: memberTuples.length + subjectTuples.length,
+    },
+  );
+}
@@ -0,0 +1,238 @@
+/**
+ * Identity Bulk Service - One action applied to many identities
+ * Backs the multi-select on the identities table: activate / deactivate
+ * (identity state; deactivating also signs the identity out), delete,
+ * grant or revoke a global role (GlobalRole membership in Keto) and add to
+ * an organization. Items are processed one by one; a failing item is
+ * reported and the rest still run. The batch is audited once, with every
+ * item and its outcome.
+ */
+
+import { OrgRole, RelationTuple } from "@/lib/types";
+import { BadRequestError } from "@/lib/errors";
+import { envNumber } from "@/lib/http";
+import { patchIdentity } from "./kratos.service";
+import { grantPermission, revokePermission } from "./keto.service";
+import {
+  ORG_ROLES,
+  addOrgMember,
+  getOrganization,
+  isOrgRole,
+} from "./organization.service";
+import { offboardIdentity } from "./offboarding.service";
+import { deactivateIdentity } from "./identity-lifecycle.service";
+import { logAdminAction } from "./audit.service";
+
+export const MAX_BULK_IDENTITIES = envNumber("IDENTITY_BULK_MAX_ITEMS", 500);
+
+export const BULK_IDENTITY_ACTIONS = [
+  "activate",
+  "deactivate",
+  "delete",
+  "grant_role",
+  "revoke_role",
+  "add_to_org",
+] as const;
+
+export type BulkIdentityAction = (typeof BULK_IDENTITY_ACTIONS)[number];
+
+export interface BulkIdentityRequest {
+  action: BulkIdentityAction;
+  identityIds: string[];
+  // grant_role / revoke_role: the GlobalRole object (e.g. "admin")
+  role?: string;
+  // add_to_org
+  orgId?: string;
+  orgRole?: OrgRole;
+}
+
+export interface BulkIdentityItemResult {
+  identityId: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface BulkIdentityResult {
+  action: BulkIdentityAction;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkIdentityItemResult[];
+}
+
+// Actions an admin can't apply to their own identity
+const SELF_PROTECTED: BulkIdentityAction[] = [
+  "deactivate",
+  "delete",
+  "revoke_role",
+];
+
+function isBulkIdentityAction(value: unknown): value is BulkIdentityAction {
+  return BULK_IDENTITY_ACTIONS.includes(value as BulkIdentityAction);
+}
+
+/**
+ * Validate a request body; throws BadRequestError naming the problem
+ */
+export function parseBulkIdentityRequest(body: unknown): BulkIdentityRequest {
+  if (!body || typeof body !== "object") {
+    throw new BadRequestError("Body must be an object");
+  }
+  const { action, identityIds, role, orgId, orgRole } = body as Record<
+    string,
+    unknown
+  >;
+
+  if (!isBulkIdentityAction(action)) {
+    throw new BadRequestError(
+      `action must be one of ${BULK_IDENTITY_ACTIONS.join(", ")}`,
+    );
+  }
+  if (
+    !Array.isArray(identityIds) ||
+    identityIds.length === 0 ||
+    identityIds.some((id) => typeof id !== "string" || !id)
+  ) {
+    throw new BadRequestError("identityIds must be a non-empty list of IDs");
+  }
+  const ids = [...new Set(identityIds as string[])];
+  if (ids.length > MAX_BULK_IDENTITIES) {
+    throw new BadRequestError(
+      `Bulk actions are limited to ${MAX_BULK_IDENTITIES} identities`,
+    );
+  }
+
+  const request: BulkIdentityRequest = { action, identityIds: ids };
+  if (action === "grant_role" || action === "revoke_role") {
+    if (typeof role !== "string" || !role.trim()) {
+      throw new BadRequestError(`role is required for ${action}`);
+    }
+    request.role = role.trim();
+  }
+  if (action === "add_to_org") {
+    if (typeof orgId !== "string" || !orgId.trim()) {
+      throw new BadRequestError("orgId is required for add_to_org");
+    }
+    if (orgRole !== undefined && !isOrgRole(orgRole)) {
+      throw new BadRequestError(
+        `orgRole must be one of ${ORG_ROLES.join(", ")}`,
+      );
+    }
+    request.orgId = orgId.trim();
+    request.orgRole = orgRole || "members";
+  }
+  return request;
+}
+
+function roleTuple(role: string, identityId: string): RelationTuple {
+  return {
+    namespace: "GlobalRole",
+    object: role,
+    relation: "members",
+    subject: identityId,
+  };
+}
+
+async function applyToIdentity(
+  request: BulkIdentityRequest,
+  identityId: string,
+  actorId: string,
+): Promise<void> {
+  switch (request.action) {
+    case "activate":
+      // A patch keeps traits and metadata exactly as they are
+      await patchIdentity(identityId, [
+        { op: "replace", path: "/state", value: "active" },
+      ]);
+      return;
+    case "deactivate":
+      // Same path as a scheduled deactivation: inactive and signed out
+      await deactivateIdentity(identityId);
+      return;
+    case "delete":
+      // Offboarded first so no relation tuples are left behind
+      await offboardIdentity(identityId, {
+        actorId,
+        deleteIdentity: true,
+        audit: false,
+      });
+      return;
+    case "grant_role":
+      await grantPermission(roleTuple(request.role || "", identityId));
+      return;
+    case "revoke_role":
+      await revokePermission(roleTuple(request.role || "", identityId));
+      return;
+    case "add_to_org":
+      await addOrgMember(
+        request.orgId || "",
+        identityId,
+        request.orgRole || "members",
+        actorId,
+        { audit: false },
+      );
+      return;
+  }
+}
+
+/**
+ * Apply the action to every identity in order and report each outcome
+ * Throws before anything changes if the target organization doesn't exist
+ */
+export async function runBulkIdentityAction(
+  request: BulkIdentityRequest,
+  actorId: string,
+): Promise<BulkIdentityResult> {
+  if (request.action === "add_to_org") {
+    await getOrganization(request.orgId || "");
+  }
+
+  const results: BulkIdentityItemResult[] = [];
+  for (const identityId of request.identityIds) {
+    if (identityId === actorId && SELF_PROTECTED.includes(request.action)) {
+      results.push({
+        identityId,
+        success: false,
+        error: "Not applied to your own identity",
+      });
+      continue;
+    }
+
+    try {
+      await applyToIdentity(request, identityId, actorId);
+      results.push({ identityId, success: true });
+    } catch (error) {
+      results.push({
+        identityId,
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  const succeeded = results.filter((result) => result.success).length;
+  const result: BulkIdentityResult = {
+    action: request.action,
+    total: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  };
+
+  await logAdminAction(
+    actorId,
+    `bulk_${request.action}`,
+    "Identity",
+    result.failed === 0,
+    {
+      role: request.role,
+      orgId: request.orgId,
+      orgRole: request.orgRole,
+      succeeded: result.succeeded,
+      failed: result.failed,
+      items: results,
+    },
+  );
+
+  return result;
+}
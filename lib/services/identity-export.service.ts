@@ -0,0 +1,298 @@
+/**
+ * Identity Export Service - Snapshot of identities for reconciliation
+ * Walks Kratos page by page and yields the export as text chunks (CSV,
+ * a JSON array or JSON Lines), so the caller can stream any number of
+ * identities without holding them in memory. Columns are chosen per
+ * export: trait paths, state, addresses, metadata, credential metadata
+ * (types and identifiers, never secrets) and optionally Keto tuples.
+ */
+
+import { Identity, RelationTuple } from "@/lib/types";
+import { BadRequestError } from "@/lib/errors";
+import { toCsvRow } from "@/lib/csv";
+import { getKratosClient } from "@/lib/kratos-client";
+import { listUserPermissions } from "@/lib/keto-client";
+import { IdentityListQuery, matchesIdentityQuery } from "./kratos.service";
+import { logAdminAction } from "./audit.service";
+
+export type IdentityExportFormat = "csv" | "json" | "ndjson";
+
+export const IDENTITY_EXPORT_FIELDS = [
+  "schema_id",
+  "state",
+  "verifiable_addresses",
+  "metadata_public",
+  "credentials",
+  "created_at",
+  "updated_at",
+] as const;
+
+export type IdentityExportField = (typeof IDENTITY_EXPORT_FIELDS)[number];
+
+// Identities per Kratos list call
+const EXPORT_PAGE_SIZE = 250;
+
+export const DEFAULT_EXPORT_TRAITS = ["email", "name.first", "name.last"];
+
+export type IdentityExportFilters = Omit<
+  IdentityListQuery,
+  "pageToken" | "pageSize" | "sort" | "order"
+>;
+
+export interface IdentityExportOptions {
+  format: IdentityExportFormat;
+  // Dotted trait paths, one column each
+  traits?: string[];
+  fields?: IdentityExportField[];
+  // Add each identity's relation tuples (one Keto list per identity)
+  permissions?: boolean;
+  filters?: IdentityExportFilters;
+  // Admin running the export (audit log)
+  actorId: string;
+}
+
+interface ExportedCredential {
+  type: string;
+  identifiers: string[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+interface ExportedIdentity {
+  id: string;
+  traits: Record<string, unknown>;
+  schema_id?: string;
+  state?: string;
+  verifiable_addresses?: { value: string; verified: boolean; via: string }[];
+  metadata_public?: Record<string, unknown> | null;
+  credentials?: ExportedCredential[];
+  created_at?: string;
+  updated_at?: string;
+  permissions?: string[];
+}
+
+export const CONTENT_TYPES: Record<IdentityExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+};
+
+export function isIdentityExportField(
+  value: string,
+): value is IdentityExportField {
+  return IDENTITY_EXPORT_FIELDS.includes(value as IdentityExportField);
+}
+
+function getPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split(".")) {
+    if (!current || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+// The subject is the exported identity itself
+function formatTuple(tuple: RelationTuple): string {
+  return `${tuple.namespace}:${tuple.object}#${tuple.relation}`;
+}
+
+/**
+ * The exported view of one identity: selected traits and fields only
+ */
+async function toExportedIdentity(
+  identity: Identity,
+  traits: string[],
+  fields: Set<IdentityExportField>,
+  permissions: boolean,
+): Promise<ExportedIdentity> {
+  const exported: ExportedIdentity = {
+    id: identity.id,
+    traits: Object.fromEntries(
+      traits.map((path) => [path, getPath(identity.traits, path) ?? null]),
+    ),
+  };
+
+  if (fields.has("schema_id")) exported.schema_id = identity.schema_id;
+  if (fields.has("state")) exported.state = identity.state;
+  if (fields.has("verifiable_addresses")) {
+    exported.verifiable_addresses = (identity.verifiable_addresses || []).map(
+      ({ value, verified, via }) => ({ value, verified, via }),
+    );
+  }
+  if (fields.has("metadata_public")) {
+    exported.metadata_public = identity.metadata_public || null;
+  }
+  if (fields.has("credentials")) {
+    // Configs hold password hashes and tokens; only metadata leaves
+    exported.credentials = Object.values(identity.credentials || {}).map(
+      ({ type, identifiers, created_at, updated_at }) => ({
+        type,
+        identifiers: identifiers || [],
+        created_at,
+        updated_at,
+      }),
+    );
+  }
+  if (fields.has("created_at")) exported.created_at = identity.created_at;
+  if (fields.has("updated_at")) exported.updated_at = identity.updated_at;
+  if (permissions) {
+    exported.permissions = (await listUserPermissions(identity.id)).map(
+      formatTuple,
+    );
+  }
+
+  return exported;
+}
+
+function csvHeader(
+  traits: string[],
+  fields: IdentityExportField[],
+  permissions: boolean,
+): string {
+  return toCsvRow([
+    "id",
+    ...traits.map((path) => `traits.${path}`),
+    ...fields,
+    ...(permissions ? ["permissions"] : []),
+  ]);
+}
+
+/**
+ * Lists and objects are flattened so each identity stays one CSV row
+ */
+function csvRow(
+  exported: ExportedIdentity,
+  traits: string[],
+  fields: IdentityExportField[],
+  permissions: boolean,
+): string {
+  const cells: unknown[] = [
+    exported.id,
+    ...traits.map((path) => {
+      const value = exported.traits[path];
+      return value !== null && typeof value === "object"
+        ? JSON.stringify(value)
+        : value;
+    }),
+  ];
+
+  for (const field of fields) {
+    switch (field) {
+      case "verifiable_addresses":
+        cells.push(
+          exported.verifiable_addresses
+            ?.map(({ value, verified }) =>
+              verified ? `${value} (verified)` : `${value} (unverified)`,
+            )
+            .join("; "),
+        );
+        break;
+      case "metadata_public":
+        cells.push(
+          exported.metadata_public
+            ? JSON.stringify(exported.metadata_public)
+            : "",
+        );
+        break;
+      case "credentials":
+        cells.push(
+          exported.credentials
+            ?.map(
+              (credential) =>
+                `${credential.type}: ${credential.identifiers.join(", ")}`,
+            )
+            .join("; "),
+        );
+        break;
+      default:
+        cells.push(exported[field]);
+    }
+  }
+
+  if (permissions) cells.push(exported.permissions?.join("; "));
+  return toCsvRow(cells);
+}
+
+/**
+ * Yield the export in chunks: a header (CSV) or opening bracket (JSON),
+ * one chunk per identity, then the closing bracket
+ * Writes one export_identities audit entry with the number of identities
+ * sent and how the export ended
+ */
+export async function* exportIdentities(
+  options: IdentityExportOptions,
+): AsyncGenerator<string> {
+  const traits = options.traits?.length
+    ? options.traits
+    : DEFAULT_EXPORT_TRAITS;
+  const fields = options.fields || [];
+  const fieldSet = new Set(fields);
+  const permissions = Boolean(options.permissions);
+  const filters = options.filters || {};
+  if (traits.some((path) => !/^[\w-]+(\.[\w-]+)*$/.test(path))) {
+    throw new BadRequestError("traits must be dotted trait paths");
+  }
+
+  if (options.format === "csv") {
+    yield csvHeader(traits, fields, permissions);
+  } else if (options.format === "json") {
+    yield "[";
+  }
+
+  // Audited however the export ends: finished, failed, or stopped because
+  // the client went away (the generator is returned early)
+  let count = 0;
+  let outcome: "completed" | "failed" | "cancelled" = "cancelled";
+  let failure: string | undefined;
+  try {
+    for await (const identity of getKratosClient().iterateIdentities({
+      pageSize: EXPORT_PAGE_SIZE,
+      credentialsIdentifier: filters.credentialsIdentifier,
+    })) {
+      if (!matchesIdentityQuery(identity, filters)) continue;
+
+      const exported = await toExportedIdentity(
+        identity,
+        traits,
+        fieldSet,
+        permissions,
+      );
+      // Counted before it is handed over, so a cancelled export counts it
+      count++;
+      if (options.format === "csv") {
+        yield csvRow(exported, traits, fields, permissions);
+      } else if (options.format === "json") {
+        yield `${count > 1 ? "," : ""}\n${JSON.stringify(exported)}`;
+      } else {
+        yield JSON.stringify(exported) + "\n";
+      }
+    }
+
+    if (options.format === "json") {
+      yield "\n]\n";
+    }
+    outcome = "completed";
+  } catch (error) {
+    outcome = "failed";
+    failure = error instanceof Error ? error.message : "Unknown error";
+    throw error;
+  } finally {
+    await logAdminAction(
+      options.actorId,
+      "export_identities",
+      "Identity",
+      outcome === "completed",
+      {
+        format: options.format,
+        count,
+        outcome,
+        error: failure,
+        traits,
+        fields,
+        permissions,
+        filters,
+      },
+    );
+  }
+}
@@ -0,0 +1,435 @@
+/**
+ * Identity Import Service - Bulk identity creation from CSV or JSON Lines
+ * Rows are parsed and checked against the Kratos identity schema, the file
+ * itself (duplicate emails) and the organizations they join, then created
+ * one at a time through createIdentity. Results are yielded per row as
+ * they happen so the caller can stream them; a dry run stops after the
+ * checks.
+ *
+ * CSV columns (header row required): email, first_name, last_name,
+ * schema_id, state, password, hashed_password, org, role, plus
+ * traits.<path> and metadata_public.<path> for anything else.
+ * JSON Lines: one object per line with the same keys, or traits /
+ * metadata_public as objects.
+ */
+
+import { CreateIdentityRequest, Identity, OrgRole } from "@/lib/types";
+import { BadRequestError, NotFoundError } from "@/lib/errors";
+import { parseCsv } from "@/lib/csv";
+import { envNumber } from "@/lib/http";
+import { getKratosClient } from "@/lib/kratos-client";
+import { traitsSchema, validateAgainstSchema } from "@/lib/identity-schema";
+import {
+  IDENTITY_STATES,
+  createIdentity,
+  findIdentityByEmail,
+} from "./kratos.service";
+import {
+  ORG_ROLES,
+  addOrgMember,
+  getOrganization,
+  isOrgRole,
+} from "./organization.service";
+import { logAdminAction } from "./audit.service";
+
+export const MAX_IMPORT_ROWS = envNumber("IDENTITY_IMPORT_MAX_ROWS", 5000);
+
+export type IdentityImportFormat = "csv" | "jsonl";
+
+export interface IdentityImportRow {
+  // Spreadsheet row (CSV, header is row 1) or line number (JSON Lines)
+  row: number;
+  identity?: CreateIdentityRequest;
+  orgId?: string;
+  role?: OrgRole;
+  // Why the row couldn't be read
+  error?: string;
+}
+
+export interface IdentityImportOptions {
+  dryRun?: boolean;
+  // Admin running the import (audit log, org membership)
+  actorId: string;
+}
+
+export interface IdentityImportResult {
+  type: "result";
+  row: number;
+  // valid: passed every check in a dry run
+  status: "created" | "valid" | "failed";
+  email?: string;
+  identityId?: string;
+  error?: string;
+}
+
+export interface IdentityImportSummary {
+  type: "summary";
+  dryRun: boolean;
+  total: number;
+  created: number;
+  valid: number;
+  failed: number;
+}
+
+export type IdentityImportEvent = IdentityImportResult | IdentityImportSummary;
+
+/**
+ * Set a dotted path ("name.first") on an object, creating parents
+ */
+function setPath(
+  target: Record<string, unknown>,
+  path: string,
+  value: unknown,
+) {
+  const keys = path.split(".");
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof current[key] !== "object" || current[key] === null) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+function optionalString(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") {
+    throw new BadRequestError(`${name} must be a string`);
+  }
+  return value.trim();
+}
+
+function optionalObject(
+  value: unknown,
+  name: string,
+): Record<string, unknown> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new BadRequestError(`${name} must be an object`);
+  }
+  return { ...value } as Record<string, unknown>;
+}
+
+/**
+ * Turn one CSV record or JSON object into a create request
+ */
+function toImportRow(
+  record: Record<string, unknown>,
+  row: number,
+): IdentityImportRow {
+  try {
+    const traits = optionalObject(record.traits, "traits");
+    const metadata = optionalObject(record.metadata_public, "metadata_public");
+
+    for (const [key, value] of Object.entries(record)) {
+      if (value === "" || value === undefined) continue;
+      if (key.startsWith("traits.")) {
+        setPath(traits, key.slice("traits.".length), value);
+      } else if (key.startsWith("metadata_public.")) {
+        setPath(metadata, key.slice("metadata_public.".length), value);
+      }
+    }
+
+    const email = optionalString(record.email, "email");
+    const firstName = optionalString(record.first_name, "first_name");
+    const lastName = optionalString(record.last_name, "last_name");
+    if (email) traits.email = email;
+    if (firstName) setPath(traits, "name.first", firstName);
+    if (lastName) setPath(traits, "name.last", lastName);
+
+    const state = optionalString(record.state, "state");
+    if (state && !IDENTITY_STATES.includes(state)) {
+      throw new BadRequestError(
+        `state must be one of ${IDENTITY_STATES.join(", ")}`,
+      );
+    }
+
+    const orgId = optionalString(record.org, "org");
+    const role = optionalString(record.role, "role");
+    if (role && !orgId) {
+      throw new BadRequestError("role needs an org");
+    }
+    if (role && !isOrgRole(role)) {
+      throw new BadRequestError(`role must be one of ${ORG_ROLES.join(", ")}`);
+    }
+
+    const password = optionalString(record.password, "password");
+    const hashedPassword = optionalString(
+      record.hashed_password,
+      "hashed_password",
+    );
+
+    const identity: CreateIdentityRequest = {
+      schema_id: optionalString(record.schema_id, "schema_id") || "default",
+      traits,
+      state,
+      metadata_public: Object.keys(metadata).length > 0 ? metadata : undefined,
+    };
+    if (password || hashedPassword) {
+      identity.credentials = {
+        password: {
+          config: hashedPassword
+            ? { hashed_password: hashedPassword }
+            : { password },
+        },
+      };
+    }
+
+    return {
+      row,
+      identity,
+      orgId,
+      role: orgId ? (role as OrgRole) || "members" : undefined,
+    };
+  } catch (error) {
+    return {
+      row,
+      error: error instanceof Error ? error.message : "Invalid row",
+    };
+  }
+}
+
+/**
+ * Parse an uploaded file into rows; unreadable rows carry an error instead
+ * of failing the whole file
+ * Throws BadRequestError for an empty file, a CSV without an email column
+ * or more than MAX_IMPORT_ROWS rows
+ */
+export function parseIdentityImport(
+  text: string,
+  format: IdentityImportFormat,
+): IdentityImportRow[] {
+  const rows: IdentityImportRow[] = [];
+  // Spreadsheet exports often start with a byte order mark
+  const content = text.replace(/^\uFEFF/, "");
+
+  if (format === "csv") {
+    const [header, ...records] = parseCsv(content);
+    const columns = (header || []).map((column) => column.trim());
+    if (!columns.includes("email") && !columns.includes("traits.email")) {
+      throw new BadRequestError(
+        "CSV needs a header row with an email (or traits.email) column",
+      );
+    }
+    records.forEach((values, index) => {
+      const record = Object.fromEntries(
+        columns.map((column, i) => [column, values[i]?.trim() ?? ""]),
+      );
+      // Header is row 1
+      rows.push(toImportRow(record, index + 2));
+    });
+  } else {
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        rows.push({ row: index + 1, error: "Invalid JSON" });
+        return;
+      }
+      if (!record || typeof record !== "object" || Array.isArray(record)) {
+        rows.push({ row: index + 1, error: "Each line must be an object" });
+        return;
+      }
+      rows.push(toImportRow(record as Record<string, unknown>, index + 1));
+    });
+  }
+
+  if (rows.length === 0) {
+    throw new BadRequestError("The file has no identities");
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new BadRequestError(
+      `Imports are limited to ${MAX_IMPORT_ROWS} rows; split the file`,
+    );
+  }
+  return rows;
+}
+
+function emailOf(row: IdentityImportRow): string | undefined {
+  const email = row.identity?.traits.email;
+  return typeof email === "string" ? email : undefined;
+}
+
+/**
+ * Check a row against its identity schema and organization
+ * Schemas and organizations are looked up once per import
+ */
+async function checkRow(
+  identity: CreateIdentityRequest,
+  orgId: string | undefined,
+  schemas: Map<string, Promise<unknown>>,
+  organizations: Map<string, Promise<unknown>>,
+): Promise<string[]> {
+  let schema = schemas.get(identity.schema_id);
+  if (!schema) {
+    schema = getKratosClient().getIdentitySchema(identity.schema_id);
+    schemas.set(identity.schema_id, schema);
+  }
+
+  const errors: string[] = [];
+  try {
+    errors.push(
+      ...validateAgainstSchema(traitsSchema(await schema), identity.traits),
+    );
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) throw error;
+    errors.push(`Unknown identity schema ${identity.schema_id}`);
+  }
+
+  if (orgId) {
+    let organization = organizations.get(orgId);
+    if (!organization) {
+      organization = getOrganization(orgId).catch(() => null);
+      organizations.set(orgId, organization);
+    }
+    if (!(await organization)) {
+      errors.push(`Organization ${orgId} not found`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate and (unless dry run) create every row, yielding one result per
+ * row in file order and a summary last
+ * Rows that fail never stop the import; an identity whose organization
+ * membership fails is reported as failed with its identityId
+ */
+export async function* importIdentities(
+  rows: IdentityImportRow[],
+  options: IdentityImportOptions,
+): AsyncGenerator<IdentityImportEvent> {
+  const dryRun = Boolean(options.dryRun);
+  const summary: IdentityImportSummary = {
+    type: "summary",
+    dryRun,
+    total: rows.length,
+    created: 0,
+    valid: 0,
+    failed: 0,
+  };
+  const schemas = new Map<string, Promise<unknown>>();
+  const organizations = new Map<string, Promise<unknown>>();
+
+  // Rows repeating an earlier row's email
+  const seenEmails = new Set<string>();
+  const duplicates = new Set<number>();
+  for (const row of rows) {
+    const email = emailOf(row)?.toLowerCase();
+    if (!email) continue;
+    if (seenEmails.has(email)) duplicates.add(row.row);
+    seenEmails.add(email);
+  }
+
+  // Audited however the import ends: finished, failed, or stopped because
+  // the client went away (the generator is returned early)
+  let completed = false;
+  try {
+    for (const row of rows) {
+      const email = emailOf(row);
+      const fail = (
+        error: string,
+        identityId?: string,
+      ): IdentityImportResult => {
+        summary.failed++;
+        return {
+          type: "result",
+          row: row.row,
+          status: "failed",
+          email,
+          identityId,
+          error,
+        };
+      };
+
+      if (row.error || !row.identity) {
+        yield fail(row.error || "Invalid row");
+        continue;
+      }
+      if (duplicates.has(row.row)) {
+        yield fail(`${email} appears earlier in the file`);
+        continue;
+      }
+
+      let identity: Identity;
+      try {
+        const errors = await checkRow(
+          row.identity,
+          row.orgId,
+          schemas,
+          organizations,
+        );
+        if (dryRun && email && (await findIdentityByEmail(email))) {
+          errors.push(`An identity with ${email} already exists`);
+        }
+        if (errors.length > 0) {
+          yield fail(errors.join("; "));
+          continue;
+        }
+        if (dryRun) {
+          summary.valid++;
+          yield { type: "result", row: row.row, status: "valid", email };
+          continue;
+        }
+
+        identity = await createIdentity(row.identity);
+      } catch (error) {
+        yield fail(
+          error instanceof Error ? error.message : "Unknown error",
+        );
+        continue;
+      }
+
+      if (row.orgId && row.role) {
+        try {
+          await addOrgMember(
+            row.orgId,
+            identity.id,
+            row.role,
+            options.actorId,
+          );
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Unknown";
+          yield fail(
+            `Identity created, but adding it to ${row.orgId} failed: ${message}`,
+            identity.id,
+          );
+          continue;
+        }
+      }
+
+      summary.created++;
+      yield {
+        type: "result",
+        row: row.row,
+        status: "created",
+        email,
+        identityId: identity.id,
+      };
+    }
+
+    completed = true;
+  } finally {
+    if (!dryRun) {
+      await logAdminAction(
+        options.actorId,
+        "import_identities",
+        "Identity",
+        completed && summary.failed === 0,
+        {
+          total: summary.total,
+          processed: summary.created + summary.failed,
+          created: summary.created,
+          failed: summary.failed,
+          completed,
+        },
+      );
+    }
+  }
+
+  yield summary;
+}
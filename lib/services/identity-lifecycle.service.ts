@@ -0,0 +1,392 @@
+/**
+ * Identity Lifecycle Service - Access that ends on a date
+ * Two dates live in an identity's metadata_admin (never shown to the user):
+ * - deactivate_at: the identity is set inactive and signed out; its
+ *   permissions stay, so reactivating it restores access
+ * - expires_at: the identity is set inactive and offboarded (signed out,
+ *   every relation tuple it is the subject of removed from Keto); an
+ *   identity that is the only owner of an organization is left as it is
+ *   and marked offboard_blocked until an admin hands ownership over
+ * runIdentityLifecycle applies due dates once each, recording
+ * deactivated_at / offboarded_at next to them; the scheduler runs it every
+ * IDENTITY_LIFECYCLE_INTERVAL_MS in the server process.
+ */
+
+import { Identity } from "@/lib/types";
+import { BadRequestError } from "@/lib/errors";
+import { envNumber } from "@/lib/http";
+import { getKratosClient } from "@/lib/kratos-client";
+import {
+  getIdentity,
+  patchIdentity,
+  revokeIdentitySessions,
+} from "./kratos.service";
+import {
+  OffboardingReport,
+  findSoleOwnedOrganizations,
+  offboardIdentity,
+} from "./offboarding.service";
+import { revokeUserSessions } from "./session.service";
+import { logAdminAction, logAudit } from "./audit.service";
+
+// 0 turns the scheduler off (e.g. when an external cron calls the run API)
+const LIFECYCLE_INTERVAL_MS = envNumber(
+  "IDENTITY_LIFECYCLE_INTERVAL_MS",
+  5 * 60 * 1000,
+);
+
+// Kratos page size while checking every identity
+const SCAN_PAGE_SIZE = 250;
+
+// Audit userId for changes made by the scheduler
+export const LIFECYCLE_ACTOR = "system:identity-lifecycle";
+
+export interface IdentityLifecycle {
+  deactivateAt?: string;
+  expiresAt?: string;
+  // When the job applied each date
+  deactivatedAt?: string;
+  offboardedAt?: string;
+  // Why expires_at couldn't be applied; the job skips it until the date is
+  // set again
+  offboardBlocked?: string;
+}
+
+export interface IdentityLifecycleUpdate {
+  // ISO date-time; null clears the date
+  deactivateAt?: string | null;
+  expiresAt?: string | null;
+}
+
+export interface ExpiringIdentity {
+  identity: Identity;
+  lifecycle: IdentityLifecycle;
+  // Earliest pending date and what happens then
+  dueAt: string;
+  action: "deactivate" | "offboard";
+  overdue: boolean;
+}
+
+export interface IdentityLifecycleRun {
+  startedAt: string;
+  checked: number;
+  deactivated: string[];
+  offboarded: string[];
+  // Left for an admin (see offboardBlocked)
+  blocked: string[];
+  failed: { identityId: string; error: string }[];
+}
+
+function metadataDate(
+  metadata: Record<string, unknown>,
+  key: string,
+): string | undefined {
+  const value = metadata[key];
+  return typeof value === "string" && !Number.isNaN(Date.parse(value))
+    ? value
+    : undefined;
+}
+
+/**
+ * Lifecycle dates of an identity (invalid values are ignored)
+ */
+export function getIdentityLifecycle(identity: Identity): IdentityLifecycle {
+  const metadata = identity.metadata_admin || {};
+  return {
+    deactivateAt: metadataDate(metadata, "deactivate_at"),
+    expiresAt: metadataDate(metadata, "expires_at"),
+    deactivatedAt: metadataDate(metadata, "deactivated_at"),
+    offboardedAt: metadataDate(metadata, "offboarded_at"),
+    offboardBlocked:
+      typeof metadata.offboard_blocked === "string"
+        ? metadata.offboard_blocked
+        : undefined,
+  };
+}
+
+function isDue(date: string | undefined, now: Date): boolean {
+  return date !== undefined && Date.parse(date) <= now.getTime();
+}
+
+function parseDate(value: unknown, name: string): string | null | undefined {
+  if (value === undefined || value === null) return value;
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+    throw new BadRequestError(`${name} must be an ISO date-time or null`);
+  }
+  return new Date(value).toISOString();
+}
+
+/**
+ * Validate a request body for setIdentityLifecycle
+ */
+export function parseIdentityLifecycleUpdate(
+  body: unknown,
+): IdentityLifecycleUpdate {
+  if (!body || typeof body !== "object") {
+    throw new BadRequestError("Body must be an object");
+  }
+  const { deactivateAt, expiresAt } = body as Record<string, unknown>;
+  return {
+    deactivateAt: parseDate(deactivateAt, "deactivateAt"),
+    expiresAt: parseDate(expiresAt, "expiresAt"),
+  };
+}
+
+/**
+ * Set or clear an identity's lifecycle dates; other metadata_admin keys
+ * are kept. Changing a date re-arms it (its applied marker is cleared).
+ */
+export async function setIdentityLifecycle(
+  id: string,
+  update: IdentityLifecycleUpdate,
+  actorId: string,
+): Promise<Identity> {
+  const identity = await getIdentity(id);
+  const metadata: Record<string, unknown> = {
+    ...(identity.metadata_admin || {}),
+  };
+
+  const dates = [
+    ["deactivateAt", "deactivate_at", "deactivated_at"],
+    ["expiresAt", "expires_at", "offboarded_at"],
+  ] as const;
+  for (const [field, key, appliedKey] of dates) {
+    const value = update[field];
+    if (value === undefined || value === metadata[key]) continue;
+    if (value === null) {
+      delete metadata[key];
+    } else {
+      metadata[key] = value;
+    }
+    delete metadata[appliedKey];
+  }
+  // Sending expiresAt again (even unchanged) retries a blocked offboarding
+  if (update.expiresAt !== undefined) delete metadata.offboard_blocked;
+
+  const updated = await patchIdentity(id, [
+    { op: "add", path: "/metadata_admin", value: metadata },
+  ]);
+
+  await logAdminAction(
+    actorId,
+    "set_identity_lifecycle",
+    `Identity:${id}`,
+    true,
+    {
+      identityId: id,
+      deactivateAt: update.deactivateAt,
+      expiresAt: update.expiresAt,
+    },
+  );
+
+  return updated;
+}
+
+/**
+ * Set an identity inactive and sign it out (Kratos sessions and this app's
+ * signed sessions); its permissions stay, so reactivating it restores
+ * access
+ * Used for scheduled deactivation and the bulk deactivate action
+ */
+export async function deactivateIdentity(identityId: string): Promise<void> {
+  // Inactive first so no new session can start while the rest runs
+  await patchIdentity(identityId, [
+    { op: "replace", path: "/state", value: "inactive" },
+  ]);
+  await revokeIdentitySessions(identityId);
+  await revokeUserSessions(identityId);
+}
+
+/**
+ * Apply the identity's due dates, returning what was done
+ */
+async function applyLifecycle(
+  identity: Identity,
+  now: Date,
+): Promise<"deactivated" | "offboarded" | "blocked" | null> {
+  const lifecycle = getIdentityLifecycle(identity);
+  let offboard =
+    isDue(lifecycle.expiresAt, now) &&
+    !lifecycle.offboardedAt &&
+    !lifecycle.offboardBlocked;
+  const deactivate =
+    isDue(lifecycle.deactivateAt, now) && !lifecycle.deactivatedAt;
+  if (!offboard && !deactivate) return null;
+
+  const metadata: Record<string, unknown> = {
+    ...(identity.metadata_admin || {}),
+  };
+
+  // Checked before anything changes: offboarding would refuse, and an
+  // organization must not lose its only owner on a schedule
+  const soleOwner = offboard
+    ? await findSoleOwnedOrganizations(identity.id)
+    : [];
+  if (soleOwner.length > 0) {
+    offboard = false;
+    metadata.offboard_blocked = `Only owner of ${soleOwner.join(", ")}`;
+    await patchIdentity(identity.id, [
+      { op: "add", path: "/metadata_admin", value: metadata },
+    ]);
+    await logAudit({
+      userId: LIFECYCLE_ACTOR,
+      action: "offboard_identity",
+      resource: `Identity:${identity.id}`,
+      result: "failure",
+      metadata: {
+        identityId: identity.id,
+        reason: "expired",
+        expiresAt: lifecycle.expiresAt,
+        blocked: metadata.offboard_blocked,
+        soleOwnerOf: soleOwner,
+      },
+    });
+    if (!deactivate) return "blocked";
+  }
+
+  // Signed out everywhere first, so nothing new happens while access is
+  // removed
+  await deactivateIdentity(identity.id);
+  const report: OffboardingReport | null = offboard
+    ? await offboardIdentity(identity.id, {
+        actorId: LIFECYCLE_ACTOR,
+        audit: false,
+      })
+    : null;
+
+  // Marked applied last, so a step that failed is retried next run
+  const appliedAt = now.toISOString();
+  if (deactivate) metadata.deactivated_at = appliedAt;
+  if (offboard) metadata.offboarded_at = appliedAt;
+  await patchIdentity(identity.id, [
+    { op: "add", path: "/metadata_admin", value: metadata },
+  ]);
+
+  await logAudit({
+    userId: LIFECYCLE_ACTOR,
+    action: offboard ? "offboard_identity" : "deactivate_identity",
+    resource: `Identity:${identity.id}`,
+    result: "success",
+    metadata: {
+      identityId: identity.id,
+      reason: offboard ? "expired" : "scheduled_deactivation",
+      deactivateAt: lifecycle.deactivateAt,
+      expiresAt: lifecycle.expiresAt,
+      removedPermissions: report?.removedPermissions || [],
+    },
+  });
+
+  return offboard ? "offboarded" : "deactivated";
+}
+
+/**
+ * Check every identity and apply lifecycle dates that have passed
+ * A failing identity is logged and retried on the next run
+ */
+export async function runIdentityLifecycle(
+  now = new Date(),
+): Promise<IdentityLifecycleRun> {
+  const run: IdentityLifecycleRun = {
+    startedAt: now.toISOString(),
+    checked: 0,
+    deactivated: [],
+    offboarded: [],
+    blocked: [],
+    failed: [],
+  };
+
+  for await (const identity of getKratosClient().iterateIdentities({
+    pageSize: SCAN_PAGE_SIZE,
+  })) {
+    run.checked++;
+    try {
+      const applied = await applyLifecycle(identity, now);
+      if (applied === "deactivated") run.deactivated.push(identity.id);
+      if (applied === "offboarded") run.offboarded.push(identity.id);
+      if (applied === "blocked") run.blocked.push(identity.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown";
+      console.error(`[Identity Lifecycle] ${identity.id} failed:`, error);
+      run.failed.push({ identityId: identity.id, error: message });
+      await logAudit({
+        userId: LIFECYCLE_ACTOR,
+        action: "apply_identity_lifecycle",
+        resource: `Identity:${identity.id}`,
+        result: "failure",
+        metadata: { identityId: identity.id, error: message },
+      });
+    }
+  }
+
+  return run;
+}
+
+/**
+ * Identities with a date pending within the next `days` days, soonest
+ * first; dates that passed but haven't been applied yet are included
+ * as overdue
+ */
+export async function listExpiringIdentities(
+  days: number,
+  now = new Date(),
+): Promise<ExpiringIdentity[]> {
+  const horizon = now.getTime() + days * 24 * 60 * 60 * 1000;
+  const expiring: ExpiringIdentity[] = [];
+
+  for await (const identity of getKratosClient().iterateIdentities({
+    pageSize: SCAN_PAGE_SIZE,
+  })) {
+    const lifecycle = getIdentityLifecycle(identity);
+    const pending: Pick<ExpiringIdentity, "dueAt" | "action">[] = [];
+    if (lifecycle.deactivateAt && !lifecycle.deactivatedAt) {
+      pending.push({ dueAt: lifecycle.deactivateAt, action: "deactivate" });
+    }
+    if (lifecycle.expiresAt && !lifecycle.offboardedAt) {
+      pending.push({ dueAt: lifecycle.expiresAt, action: "offboard" });
+    }
+    pending.sort((a, b) => Date.parse(a.dueAt) - Date.parse(b.dueAt));
+
+    const next = pending[0];
+    if (!next || Date.parse(next.dueAt) > horizon) continue;
+    expiring.push({
+      identity,
+      lifecycle,
+      ...next,
+      overdue: Date.parse(next.dueAt) <= now.getTime(),
+    });
+  }
+
+  return expiring.sort((a, b) => Date.parse(a.dueAt) - Date.parse(b.dueAt));
+}
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+let runInProgress: Promise<unknown> | null = null;
+
+/**
+ * Run the lifecycle job now unless a run is already going
+ */
+export function triggerIdentityLifecycle(): Promise<
+  IdentityLifecycleRun | null
+> {
+  if (runInProgress) return Promise.resolve(null);
+  const run = runIdentityLifecycle().finally(() => {
+    runInProgress = null;
+  });
+  runInProgress = run;
+  return run;
+}
+
+/**
+ * Start running the lifecycle job every IDENTITY_LIFECYCLE_INTERVAL_MS
+ * (called once per server process from instrumentation.ts)
+ */
+export function startIdentityLifecycleScheduler() {
+  if (schedulerTimer || LIFECYCLE_INTERVAL_MS <= 0) return;
+  schedulerTimer = setInterval(() => {
+    triggerIdentityLifecycle().catch((error) => {
+      console.error("[Identity Lifecycle] Run failed:", error);
+    });
+  }, LIFECYCLE_INTERVAL_MS);
+  // Don't keep the process alive just for the job
+  schedulerTimer.unref?.();
+}
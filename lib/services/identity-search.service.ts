@@ -0,0 +1,332 @@
+/**
+ * Identity Search Service - In-process search index over Kratos identities
+ * Kratos has no search API, so identities are indexed locally by email,
+ * name and metadata (public and admin) and searched by prefix with typo
+ * tolerance.
+ *
+ * The index follows writes made through kratos.service (onIdentityChange)
+ * and is rebuilt from a full Kratos listing when it is first used and again
+ * once it is older than IDENTITY_SEARCH_RECONCILE_MS, which picks up
+ * changes made elsewhere (self-service registration, the Kratos CLI).
+ * Searches never wait for a refresh once the index has been built.
+ */
+
+import { Identity } from "@/lib/types";
+import { envNumber } from "@/lib/http";
+import { getKratosClient } from "@/lib/kratos-client";
+import {
+  IdentityChange,
+  IdentityListQuery,
+  matchesIdentityQuery,
+  onIdentityChange,
+} from "./kratos.service";
+
+const RECONCILE_INTERVAL_MS = envNumber(
+  "IDENTITY_SEARCH_RECONCILE_MS",
+  5 * 60 * 1000,
+);
+
+// Metadata nesting followed when collecting searchable values
+const MAX_METADATA_DEPTH = 3;
+
+// Identity filters that can be combined with a search
+export type IdentitySearchFilters = Omit<
+  IdentityListQuery,
+  "pageToken" | "pageSize" | "credentialsIdentifier" | "sort" | "order"
+>;
+
+export interface IdentitySearchOptions extends IdentitySearchFilters {
+  offset?: number;
+  limit?: number;
+}
+
+export interface IdentitySearchPage {
+  // Best matches first
+  identities: Identity[];
+  // Matches in total, for paging
+  total: number;
+}
+
+/**
+ * Lowercase, strip accents and split into alphanumeric terms
+ * "Zoë.O'Brien@Example.com" -> ["zoe", "o", "brien", "example", "com"]
+ */
+export function tokenize(value: string): string[] {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function collectMetadata(value: unknown, out: string[], depth = 0) {
+  if (typeof value === "string" || typeof value === "number") {
+    out.push(String(value));
+  } else if (value && typeof value === "object" && depth < MAX_METADATA_DEPTH) {
+    for (const nested of Object.values(value)) {
+      collectMetadata(nested, out, depth + 1);
+    }
+  }
+}
+
+/**
+ * The searchable text of an identity: email, name, ID and metadata values
+ */
+function searchableValues(identity: Identity): string[] {
+  const values = [identity.id];
+  const { email, name } = identity.traits || {};
+  if (typeof email === "string") values.push(email);
+  if (typeof name === "string") {
+    values.push(name);
+  } else if (name && typeof name === "object") {
+    values.push(name.first || "", name.last || "");
+  }
+  collectMetadata(identity.metadata_public, values);
+  collectMetadata(identity.metadata_admin, values);
+  return values;
+}
+
+/**
+ * Edit distance counting an adjacent transposition as one edit
+ * (optimal string alignment); gives up early once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previousRow[j] + 1,
+        row[j - 1] + 1,
+        previousRow[j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+}
+
+// Typos tolerated in a query term of this length
+function allowedTypos(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * How well a query term matches an indexed term: 3 exact, 2 prefix,
+ * 1 within the typo budget (of the whole term or a prefix of it), 0 none
+ */
+function termScore(queryTerm: string, term: string): number {
+  if (term === queryTerm) return 3;
+  if (term.startsWith(queryTerm)) return 2;
+
+  const typos = allowedTypos(queryTerm);
+  if (
+    typos > 0 &&
+    (editDistance(queryTerm, term, typos) <= typos ||
+      editDistance(queryTerm, term.slice(0, queryTerm.length), typos) <=
+        typos)
+  ) {
+    return 1;
+  }
+  return 0;
+}
+
+function emailOf(identity: Identity): string {
+  return String(identity.traits?.email || "").toLowerCase();
+}
+
+/**
+ * Inverted index from terms to identity IDs
+ */
+export class IdentitySearchIndex {
+  private readonly identities = new Map<string, Identity>();
+  private readonly termsById = new Map<string, string[]>();
+  private readonly idsByTerm = new Map<string, Set<string>>();
+
+  get size(): number {
+    return this.identities.size;
+  }
+
+  upsert(identity: Identity): void {
+    this.remove(identity.id);
+
+    const terms = [...new Set(searchableValues(identity).flatMap(tokenize))];
+    this.identities.set(identity.id, identity);
+    this.termsById.set(identity.id, terms);
+    for (const term of terms) {
+      let ids = this.idsByTerm.get(term);
+      if (!ids) {
+        ids = new Set();
+        this.idsByTerm.set(term, ids);
+      }
+      ids.add(identity.id);
+    }
+  }
+
+  remove(id: string): void {
+    for (const term of this.termsById.get(id) || []) {
+      const ids = this.idsByTerm.get(term);
+      ids?.delete(id);
+      if (ids?.size === 0) this.idsByTerm.delete(term);
+    }
+    this.identities.delete(id);
+    this.termsById.delete(id);
+  }
+
+  replaceAll(identities: Iterable<Identity>): void {
+    this.identities.clear();
+    this.termsById.clear();
+    this.idsByTerm.clear();
+    for (const identity of identities) {
+      this.upsert(identity);
+    }
+  }
+
+  /**
+   * Identities matching every query term, best matches first
+   */
+  search(
+    query: string,
+    filter: (identity: Identity) => boolean = () => true,
+  ): Identity[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) return [];
+
+    // Summed per identity; only identities matching every term so far
+    let scores = new Map<string, number>();
+    for (const [index, queryTerm] of queryTerms.entries()) {
+      const candidates = index === 0 ? null : scores;
+      // Best score of this query term per identity
+      const termScores = new Map<string, number>();
+      for (const [term, ids] of this.idsByTerm) {
+        const score = termScore(queryTerm, term);
+        if (score === 0) continue;
+        for (const id of ids) {
+          if (candidates && !candidates.has(id)) continue;
+          termScores.set(id, Math.max(termScores.get(id) || 0, score));
+        }
+      }
+
+      for (const [id, score] of termScores) {
+        termScores.set(id, score + (candidates?.get(id) || 0));
+      }
+      scores = termScores;
+      if (scores.size === 0) return [];
+    }
+
+    const matches: { identity: Identity; score: number }[] = [];
+    for (const [id, score] of scores) {
+      const identity = this.identities.get(id);
+      if (identity && filter(identity)) matches.push({ identity, score });
+    }
+
+    return matches
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          emailOf(a.identity).localeCompare(emailOf(b.identity)) ||
+          a.identity.id.localeCompare(b.identity.id),
+      )
+      .map((match) => match.identity);
+  }
+}
+
+const searchIndex = new IdentitySearchIndex();
+let reconciledAt = 0;
+let reconciling: Promise<void> | null = null;
+// Writes seen while a reconcile is listing Kratos; replayed over its result
+let changesDuringReconcile: IdentityChange[] | null = null;
+
+function applyChange(change: IdentityChange) {
+  if (change.action === "delete") {
+    searchIndex.remove(change.id);
+  } else if (change.identity) {
+    searchIndex.upsert(change.identity);
+  }
+}
+
+onIdentityChange((change) => {
+  changesDuringReconcile?.push(change);
+  applyChange(change);
+});
+
+/**
+ * Rebuild the index from a full Kratos listing
+ * Concurrent calls share one rebuild
+ */
+export function reconcileIdentitySearchIndex(): Promise<void> {
+  if (!reconciling) {
+    reconciling = (async () => {
+      changesDuringReconcile = [];
+      try {
+        const identities: Identity[] = [];
+        for await (const identity of getKratosClient().iterateIdentities({
+          pageSize: 250,
+        })) {
+          identities.push(identity);
+        }
+
+        searchIndex.replaceAll(identities);
+        // The listing may predate writes made while it ran
+        for (const change of changesDuringReconcile) {
+          applyChange(change);
+        }
+        reconciledAt = Date.now();
+      } finally {
+        changesDuringReconcile = null;
+        reconciling = null;
+      }
+    })();
+  }
+  return reconciling;
+}
+
+/**
+ * Build the index on first use; afterwards refresh a stale index in the
+ * background and answer from the current one
+ */
+async function ensureIndex(): Promise<void> {
+  if (!reconciledAt) {
+    await reconcileIdentitySearchIndex();
+    return;
+  }
+  if (Date.now() - reconciledAt > RECONCILE_INTERVAL_MS) {
+    reconcileIdentitySearchIndex().catch((error) => {
+      console.error("[Identity Search] Reconcile failed:", error);
+    });
+  }
+}
+
+/**
+ * Search identities by email, name and metadata (prefix and typo tolerant)
+ */
+export async function searchIdentities(
+  searchTerm: string,
+  options: IdentitySearchOptions = {},
+): Promise<IdentitySearchPage> {
+  await ensureIndex();
+
+  const { offset = 0, limit = 50, ...filters } = options;
+  const matches = searchIndex.search(searchTerm, (identity) =>
+    matchesIdentityQuery(identity, filters),
+  );
+  return {
+    identities: matches.slice(offset, offset + limit),
+    total: matches.length,
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * Identity Sync Service
+ *
+ * Synchronizes users from external OIDC providers to Ory Kratos identities
+ * and creates Kratos sessions for them, so every provider gets the same
+ * IAM features regardless of where the user signed in.
+ *
+ * An email address alone never hands over an existing identity: a provider
+ * user is matched to one only through a stored (provider, subject) link, or
+ * when the provider says the email is verified, which then stores the link.
+ * The stored link is looked up before creating, so a returning user whose
+ * email changed at the provider keeps their identity.
+ */
+
+import { ProviderUser } from "@/lib/oidc-providers";
+import { BadRequestError, ConflictError } from "@/lib/errors";
+import { getKratosClient } from "@/lib/kratos-client";
+import { Identity } from "@/lib/types";
+import {
+  createIdentity,
+  findIdentityByEmail,
+  patchIdentity,
+} from "./kratos.service";
+import { logAudit } from "./audit.service";
+
+export interface IdentitySyncResult {
+  success: boolean;
+  identityId?: string;
+  // Kratos isn't configured, so there is no identity to sync to
+  skipped?: boolean;
+  error?: string;
+}
+
+// metadata_admin key holding the "provider:subject" links of an identity
+const LINKS_KEY = "oidc_links";
+
+function providerLink(providerId: string, subject: string): string {
+  return `${providerId}:${subject}`;
+}
+
+/**
+ * Provider links stored on an identity, including the one recorded in
+ * metadata_public when a provider created it
+ */
+function identityLinks(identity: Identity): string[] {
+  const stored = identity.metadata_admin?.[LINKS_KEY];
+  const links = Array.isArray(stored)
+    ? stored.filter((link): link is string => typeof link === "string")
+    : [];
+
+  const { provider, provider_subject } = identity.metadata_public || {};
+  if (typeof provider === "string" && typeof provider_subject === "string") {
+    links.push(providerLink(provider, provider_subject));
+  }
+  return links;
+}
+
+/**
+ * Kratos answers a taken identifier with 409, older versions with a 400
+ * saying it "exists already"; any other 400 is a real validation error
+ */
+function isDuplicateIdentifierError(error: unknown): boolean {
+  if (error instanceof ConflictError) return true;
+  return (
+    error instanceof BadRequestError &&
+    /(exists|existing) already|already exists/i.test(error.message)
+  );
+}
+
+/**
+ * The identity linked to this provider subject, if any: the one with the
+ * user's email is checked first, then every identity (the email may have
+ * changed at the provider since the link was stored)
+ */
+async function findLinkedIdentity(
+  providerId: string,
+  user: ProviderUser,
+): Promise<Identity | null> {
+  const link = providerLink(providerId, user.subject);
+  const byEmail = await findIdentityByEmail(user.email);
+  if (byEmail && identityLinks(byEmail).includes(link)) return byEmail;
+
+  for await (const identity of getKratosClient().iterateIdentities()) {
+    if (identityLinks(identity).includes(link)) return identity;
+  }
+  return null;
+}
+
+/**
+ * Create or look up the Kratos identity for an external provider user
+ */
+export async function syncProviderUserToKratos(
+  providerId: string,
+  user: ProviderUser,
+): Promise<IdentitySyncResult> {
+  const kratos = getKratosClient();
+
+  if (!kratos.isConfigured()) {
+    console.warn("ORY_KRATOS_ADMIN_URL not configured, skipping Kratos sync");
+    return { success: false, skipped: true, error: "Admin URL not configured" };
+  }
+
+  try {
+    const linked = await findLinkedIdentity(providerId, user);
+    if (linked) {
+      if (linked.state !== "active") {
+        return { success: false, error: "Identity is not active" };
+      }
+      return { success: true, identityId: linked.id };
+    }
+
+    // Through the service so identity listeners (search index) see it
+    const identity = await createIdentity({
+      schema_id: "default",
+      traits: {
+        email: user.email,
+        name: user.name,
+      },
+      metadata_public: {
+        ...user.metadata,
+        provider: providerId,
+        provider_subject: user.subject,
+        avatar_url: user.avatar_url,
+        synced_at: new Date().toISOString(),
+      },
+      metadata_admin: {
+        [LINKS_KEY]: [providerLink(providerId, user.subject)],
+      },
+    });
+    return {
+      success: true,
+      identityId: identity.id,
+    };
+  } catch (error) {
+    if (isDuplicateIdentifierError(error)) {
+      return linkExistingIdentity(providerId, user);
+    }
+
+    console.error(`Failed to sync ${providerId} user to Kratos:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * An identity with the user's email already exists: use it only if it is
+ * linked to this provider subject, or link it if the email is verified
+ */
+async function linkExistingIdentity(
+  providerId: string,
+  user: ProviderUser,
+): Promise<IdentitySyncResult> {
+  let identity: Identity | null;
+  try {
+    identity = await findIdentityByEmail(user.email);
+  } catch (lookupError) {
+    console.error("Failed to lookup existing identity:", lookupError);
+    return { success: false, error: "Couldn't look up the existing identity" };
+  }
+
+  if (!identity) {
+    return { success: false, error: "Identity already exists but wasn't found" };
+  }
+  if (identity.state !== "active") {
+    return { success: false, error: "Identity is not active" };
+  }
+
+  const link = providerLink(providerId, user.subject);
+  const links = identityLinks(identity);
+  if (links.includes(link)) {
+    return { success: true, identityId: identity.id };
+  }
+
+  if (!user.emailVerified) {
+    await logAudit({
+      userId: link,
+      action: "link_identity",
+      resource: `Identity:${identity.id}`,
+      result: "denied",
+      metadata: { provider: providerId, reason: "email_not_verified" },
+    });
+    return {
+      success: false,
+      error: "Email not verified by the provider; not linking the identity",
+    };
+  }
+
+  const stored = identity.metadata_admin?.[LINKS_KEY];
+  await patchIdentity(identity.id, [
+    {
+      op: "add",
+      path: "/metadata_admin",
+      value: {
+        ...(identity.metadata_admin || {}),
+        [LINKS_KEY]: [...(Array.isArray(stored) ? stored : []), link],
+      },
+    },
+  ]);
+  await logAudit({
+    userId: link,
+    action: "link_identity",
+    resource: `Identity:${identity.id}`,
+    result: "success",
+    metadata: { provider: providerId, reason: "verified_email" },
+  });
+
+  return { success: true, identityId: identity.id };
+}
+
+/**
+ * Create a Kratos session for an identity
+ *
+ * @returns The session token, or null if no session could be created
+ */
+export async function createKratosSession(
+  identityId: string,
+  expiresInSeconds: number,
+): Promise<string | null> {
+  try {
+    const sessionData = await getKratosClient().createSession(
+      identityId,
+      expiresInSeconds,
+    );
+
+    // Extract session token from response
+    const sessionToken = sessionData.token || sessionData.session?.token;
+    if (!sessionToken) {
+      console.error("[Identity Sync] No session token in Kratos response");
+      return null;
+    }
+
+    return sessionToken;
+  } catch (error) {
+    console.error("Error creating Kratos session:", error);
+    return null;
+  }
+}
@@ -6,36 +6,104 @@
 // Kratos Service (Identity Management)
 export {
   listIdentities,
+  listIdentitiesPage,
   getIdentity,
   createIdentity,
   updateIdentity,
   deleteIdentity,
-  searchIdentities,
+  patchIdentity,
+  revokeIdentitySessions,
+  findIdentityByEmail,
+  onIdentityChange,
 } from "./kratos.service";
 
-// Keto Service (Authorization)
+// Identity Import (bulk creation from CSV / JSON Lines)
+export {
+  parseIdentityImport,
+  importIdentities,
+} from "./identity-import.service";
+
+// Identity Bulk Actions (one action, many identities, one audit entry)
+export {
+  parseBulkIdentityRequest,
+  runBulkIdentityAction,
+} from "./identity-bulk.service";
+
+// Offboarding (sessions, permissions and org ownership before deletion)
+export { offboardIdentity } from "./offboarding.service";
+
+// Identity Lifecycle (scheduled deactivation and expiry)
+export {
+  getIdentityLifecycle,
+  setIdentityLifecycle,
+  runIdentityLifecycle,
+  listExpiringIdentities,
+  startIdentityLifecycleScheduler,
+} from "./identity-lifecycle.service";
+
+// Identity Export (streamed CSV / JSON / NDJSON)
+export { exportIdentities } from "./identity-export.service";
+
+// Identity Search (in-process index over Kratos identities)
+export {
+  searchIdentities,
+  reconcileIdentitySearchIndex,
+  IdentitySearchIndex,
+} from "./identity-search.service";
+
+// Kratos Client (Admin API: identities, sessions, credentials, courier)
+export {
+  getKratosClient,
+  setKratosClient,
+  KratosAdminClient,
+} from "../kratos-client";
+
+// Keto Client (Authorization: timeouts, retries, circuit breaker, metrics)
 export {
   checkPermission,
   grantPermission,
   revokePermission,
   listUserPermissions,
+  listUserPermissionsPage,
+  iterateUserPermissions,
   listObjectPermissions,
+  listObjectPermissionsPage,
+  iterateObjectPermissions,
+  listNamespacePermissions,
+  listNamespacePermissionsPage,
+  iterateNamespacePermissions,
+  listPermissionsPage,
+  iteratePermissions,
+  expandPermission,
   checkPermissions,
-  hasAnyRole,
-  hasAllRoles,
-} from "./keto.service";
+  checkAnyPermission,
+  checkAllPermissions,
+  checkKetoHealth,
+  getKetoClient,
+  setKetoClient,
+  getKetoMetrics,
+  setKetoMetricsSink,
+  onRelationTupleChange,
+  KetoClient,
+} from "../keto-client";
+
+// Keto Service (Role helpers, explain)
+export { hasAnyRole, hasAllRoles, explainPermission } from "./keto.service";
 
 // Permission Service (Permission checks with caching)
 export {
   checkPermissionCached,
   invalidateUserCache,
   clearPermissionCache,
+  setPermissionCache,
+  LruPermissionCache,
   isGlobalAdmin,
   hasOrgPermission,
   getUserDashboardRoute,
   canAccessAdmin,
   isMemberOfAnyOrg,
 } from "./permission.service";
+export { RedisPermissionCache } from "./permission-redis.cache";
 
 // Audit Service (Security logging)
 export {
@@ -44,8 +112,53 @@ export {
   logAdminAction,
   logAuthEvent,
   logAccessDenied,
+  queryAuditLog,
+  iterateAuditLog,
+  verifyAuditChain,
+  setAuditSink,
+  MemoryAuditSink,
 } from "./audit.service";
 
+// Session Service (Signed external login sessions)
+export {
+  SESSION_COOKIE_NAME,
+  issueSessionToken,
+  verifySessionToken,
+  revokeSessionToken,
+  revokeUserSessions,
+  getSessionFromCookies,
+  setRevocationStore,
+} from "./session.service";
+export { RedisRevocationStore } from "./session-redis.store";
+
+// Organization Service (Organization metadata and membership)
+export {
+  ORG_ROLES,
+  listOrganizations,
+  getOrganization,
+  createOrganization,
+  updateOrganization,
+  deleteOrganization,
+  listOrgMembers,
+  listUserOrganizations,
+  addOrgMember,
+  changeOrgMemberRole,
+  removeOrgMember,
+  setOrganizationStore,
+  MemoryOrganizationStore,
+} from "./organization.service";
+
+// Group Service (Groups and nested membership via subject sets)
+export {
+  GROUP_NAMESPACE,
+  groupSubject,
+  listGroups,
+  getGroup,
+  addGroupMember,
+  removeGroupMember,
+  deleteGroup,
+} from "./group.service";
+
 // User Setup Service (New user onboarding)
 export {
   assignDefaultPermissions,
@@ -55,7 +168,6 @@ export {
 
 // Keto Helper Functions (Direct Keto operations)
 export {
-  checkKetoHealth,
   makeGlobalAdmin,
   revokeGlobalAdmin,
   addUserToOrg,
@@ -2,309 +2,124 @@
  * Keto Service - BFF Layer for Authorization
  * Handles all communication with Ory Keto Permission API
  * Implements Zanzibar-style permissions (Google's authorization system)
+ * HTTP, timeouts, retries and the circuit breaker live in lib/keto-client.ts
  */
 
-import { RelationTuple, PermissionCheck } from "@/lib/types";
-import { InternalServerError, BadRequestError } from "@/lib/errors";
-
-const KETO_READ_URL = process.env.ORY_KETO_READ_URL || "http://localhost:4466";
-const KETO_WRITE_URL =
-  process.env.ORY_KETO_WRITE_URL || "http://localhost:4467";
-
-/**
- * Format tuple for Keto API
- */
-function formatTupleForApi(tuple: RelationTuple) {
-  return {
-    namespace: tuple.namespace,
-    object: tuple.object,
-    relation: tuple.relation,
-    subject_id: tuple.subject,
-  };
+import {
+  checkAllPermissions,
+  checkAnyPermission,
+  checkPermission,
+  expandPermission,
+} from "@/lib/keto-client";
+import {
+  ConsistencyToken,
+  PermissionExplanation,
+  PermissionQuery,
+  PermissionTreeNode,
+} from "@/lib/types";
+
+export {
+  checkPermission,
+  checkPermissions,
+  checkAnyPermission,
+  checkAllPermissions,
+  grantPermission,
+  revokePermission,
+  listUserPermissions,
+  listUserPermissionsPage,
+  iterateUserPermissions,
+  listObjectPermissions,
+  listObjectPermissionsPage,
+  iterateObjectPermissions,
+  listNamespacePermissions,
+  listNamespacePermissionsPage,
+  iterateNamespacePermissions,
+  listPermissionsPage,
+  iteratePermissions,
+  expandPermission,
+  checkKetoHealth,
+} from "@/lib/keto-client";
+
+function globalRoleChecks(userId: string, roles: string[]): PermissionQuery[] {
+  return roles.map((role) => ({
+    namespace: "GlobalRole",
+    object: role,
+    relation: "members",
+    subject: userId,
+  }));
 }
 
 /**
- * Check if a subject has permission (Zero-Trust verification)
+ * Check if user has any of the specified global roles
+ * (membership of GlobalRole:<role>, one batch check)
  */
-export async function checkPermission(tuple: RelationTuple): Promise<boolean> {
-  try {
-    // Validate input
-    if (
-      !tuple.namespace ||
-      !tuple.object ||
-      !tuple.relation ||
-      !tuple.subject
-    ) {
-      throw new BadRequestError("Invalid permission tuple");
-    }
-
-    const url = `${KETO_READ_URL}/relation-tuples/check`;
-    console.log("[Keto] Checking permission:", {
-      url,
-      KETO_READ_URL,
-      tuple,
-    });
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(formatTupleForApi(tuple)),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("[Keto] Check failed:", {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorText,
-        url,
-      });
-      return false; // Fail closed - deny by default
-    }
-
-    const data: PermissionCheck = await response.json();
-    console.log("[Keto] Check result:", { allowed: data.allowed, tuple });
-    return data.allowed === true;
-  } catch (error) {
-    console.error("[Keto] Error checking permission:", error, {
-      url: `${KETO_READ_URL}/relation-tuples/check`,
-      tuple,
-    });
-    return false; // Fail closed - deny by default
-  }
+export async function hasAnyRole(
+  userId: string,
+  roles: string[],
+  consistency?: ConsistencyToken | null,
+): Promise<boolean> {
+  return checkAnyPermission(globalRoleChecks(userId, roles), consistency);
 }
 
 /**
- * Grant permission (create relation tuple)
+ * Check if user has all of the specified global roles
  */
-export async function grantPermission(tuple: RelationTuple): Promise<void> {
-  try {
-    // Validate input
-    if (
-      !tuple.namespace ||
-      !tuple.object ||
-      !tuple.relation ||
-      !tuple.subject
-    ) {
-      throw new BadRequestError("Invalid permission tuple");
-    }
-
-    const url = `${KETO_WRITE_URL}/admin/relation-tuples`;
-    const response = await fetch(url, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(formatTupleForApi(tuple)),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new InternalServerError(`Failed to grant permission: ${error}`);
-    }
-  } catch (error) {
-    if (
-      error instanceof BadRequestError ||
-      error instanceof InternalServerError
-    ) {
-      throw error;
-    }
-    throw new InternalServerError("Failed to grant permission");
-  }
+export async function hasAllRoles(
+  userId: string,
+  roles: string[],
+  consistency?: ConsistencyToken | null,
+): Promise<boolean> {
+  return checkAllPermissions(globalRoleChecks(userId, roles), consistency);
 }
 
 /**
- * Revoke permission (delete relation tuple)
+ * Mark the nodes on the way to `subject` and collect each route to it
  */
-export async function revokePermission(tuple: RelationTuple): Promise<void> {
-  try {
-    // Validate input
-    if (
-      !tuple.namespace ||
-      !tuple.object ||
-      !tuple.relation ||
-      !tuple.subject
-    ) {
-      throw new BadRequestError("Invalid permission tuple");
-    }
-
-    const params = new URLSearchParams({
-      namespace: tuple.namespace,
-      object: tuple.object,
-      relation: tuple.relation,
-      "subject_id.id": tuple.subject,
-    });
-
-    const url = `${KETO_WRITE_URL}/admin/relation-tuples?${params}`;
-    const response = await fetch(url, {
-      method: "DELETE",
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new InternalServerError(`Failed to revoke permission: ${error}`);
-    }
-  } catch (error) {
-    if (
-      error instanceof BadRequestError ||
-      error instanceof InternalServerError
-    ) {
-      throw error;
-    }
-    throw new InternalServerError("Failed to revoke permission");
+function markSubject(
+  node: PermissionTreeNode,
+  subject: string,
+  path: string[],
+  paths: string[][],
+): boolean {
+  // Rewrite nodes repeat their parent's subject; keep one entry per hop
+  const route =
+    path[path.length - 1] === node.subject ? path : [...path, node.subject];
+
+  let grants = node.subject === subject;
+  if (grants) {
+    paths.push(route);
   }
-}
-
-/**
- * List all permissions for a subject (user)
- */
-export async function listUserPermissions(
-  userId: string,
-  namespace?: string,
-): Promise<RelationTuple[]> {
-  try {
-    if (!userId) {
-      throw new BadRequestError("userId is required");
+  for (const child of node.children) {
+    if (markSubject(child, subject, route, paths)) {
+      grants = true;
     }
-
-    const params = new URLSearchParams({
-      "subject_id.id": userId,
-    });
-
-    if (namespace) {
-      params.append("namespace", namespace);
-    }
-
-    const url = `${KETO_READ_URL}/relation-tuples?${params}`;
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new InternalServerError(`Failed to list permissions: ${error}`);
-    }
-
-    const data = await response.json();
-    return (data.relation_tuples || []).map((rt: Record<string, any>) => ({
-      namespace: rt.namespace,
-      object: rt.object,
-      relation: rt.relation,
-      subject: rt.subject_id?.id || rt.subject_id,
-    }));
-  } catch (error) {
-    if (
-      error instanceof BadRequestError ||
-      error instanceof InternalServerError
-    ) {
-      throw error;
-    }
-    throw new InternalServerError("Failed to list user permissions");
   }
-}
 
-/**
- * List all permissions for an object
- */
-export async function listObjectPermissions(
-  namespace: string,
-  object: string,
-): Promise<RelationTuple[]> {
-  try {
-    if (!namespace || !object) {
-      throw new BadRequestError("namespace and object are required");
-    }
-
-    const params = new URLSearchParams({
-      namespace,
-      object,
-    });
-
-    const url = `${KETO_READ_URL}/relation-tuples?${params}`;
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new InternalServerError(`Failed to list permissions: ${error}`);
-    }
-
-    const data = await response.json();
-    return (data.relation_tuples || []).map((rt: Record<string, any>) => ({
-      namespace: rt.namespace,
-      object: rt.object,
-      relation: rt.relation,
-      subject: rt.subject_id?.id || rt.subject_id,
-    }));
-  } catch (error) {
-    if (
-      error instanceof BadRequestError ||
-      error instanceof InternalServerError
-    ) {
-      throw error;
-    }
-    throw new InternalServerError("Failed to list object permissions");
+  if (grants) {
+    node.grants = true;
   }
+  return grants;
 }
 
 /**
- * Batch permission check for multiple permissions
+ * Explain a permission decision: Keto's check result plus the expand tree
+ * of namespace:object#relation with the routes to the subject marked.
+ * For intersections and exclusions a route alone does not grant access;
+ * `allowed` is the decision.
  */
-export async function checkPermissions(
-  tuples: RelationTuple[],
-): Promise<boolean[]> {
-  return Promise.all(tuples.map((tuple) => checkPermission(tuple)));
-}
-
-/**
- * Check if user has any of the specified roles
- */
-export async function hasAnyRole(
-  userId: string,
-  roles: string[],
-  namespace = "GlobalRole",
-): Promise<boolean> {
-  const checks = await Promise.all(
-    roles.map((role) =>
-      checkPermission({
-        namespace,
-        object: role,
-        relation: "is_" + role.toLowerCase(),
-        subject: userId,
-      }),
-    ),
-  );
-
-  return checks.some((allowed) => allowed);
-}
-
-/**
- * Check if user has all of the specified roles
- */
-export async function hasAllRoles(
-  userId: string,
-  roles: string[],
-  namespace = "GlobalRole",
-): Promise<boolean> {
-  const checks = await Promise.all(
-    roles.map((role) =>
-      checkPermission({
-        namespace,
-        object: role,
-        relation: "is_" + role.toLowerCase(),
-        subject: userId,
-      }),
-    ),
-  );
+export async function explainPermission(
+  query: PermissionQuery,
+  maxDepth?: number,
+): Promise<PermissionExplanation> {
+  const [allowed, tree] = await Promise.all([
+    checkPermission(query),
+    expandPermission(query, maxDepth),
+  ]);
+
+  const paths: string[][] = [];
+  if (tree) {
+    markSubject(tree, query.subject, [], paths);
+  }
 
-  return checks.every((allowed) => allowed);
+  return { query, allowed, tree, paths };
 }
@@ -2,241 +2,414 @@
  * Kratos Service - BFF Layer for Identity Management
  * Handles all communication with Ory Kratos Admin API
  * Implements Zero-Trust: always validate responses
+ * HTTP, timeouts, retries and error mapping live in lib/kratos-client.ts
  */
 
-import { Identity, CreateIdentityRequest } from "@/lib/types";
 import {
-  InternalServerError,
-  NotFoundError,
-  BadRequestError,
-} from "@/lib/errors";
+  Identity,
+  CreateIdentityRequest,
+  JsonPatchOperation,
+} from "@/lib/types";
+import { BadRequestError } from "@/lib/errors";
+import { envNumber } from "@/lib/http";
+import { getKratosClient } from "@/lib/kratos-client";
+import { base64UrlDecode, base64UrlEncode } from "@/lib/signed-token";
 
-const KRATOS_ADMIN_URL = process.env.ORY_KRATOS_ADMIN_URL;
+// Kratos page size used while scanning for filter matches
+const SCAN_PAGE_SIZE = 250;
+// Kratos pages one filtered request may read before returning what it has
+const MAX_SCAN_PAGES = envNumber("IDENTITY_LIST_MAX_SCAN_PAGES", 20);
+// Kratos can't sort, so sorted listings load matches into memory
+const MAX_SORTED_IDENTITIES = envNumber("IDENTITY_LIST_MAX_SORTED", 10000);
 
-if (!KRATOS_ADMIN_URL) {
-  throw new Error("ORY_KRATOS_ADMIN_URL environment variable is not set");
+export const IDENTITY_SORT_FIELDS = [
+  "created_at",
+  "updated_at",
+  "email",
+  "state",
+] as const;
+
+export type IdentitySortField = (typeof IDENTITY_SORT_FIELDS)[number];
+
+export const IDENTITY_STATES = ["active", "inactive"];
+
+export interface IdentityListQuery {
+  // nextPageToken of the previous page
+  pageToken?: string;
+  pageSize?: number;
+  state?: Identity["state"];
+  schemaId?: string;
+  // true: at least one verified address; false: none verified
+  verified?: boolean;
+  // Exact login identifier match (e.g. email), answered by Kratos
+  credentialsIdentifier?: string;
+  // metadata_public.provider (e.g. "google", "simplelogin")
+  provider?: string;
+  sort?: IdentitySortField;
+  order?: "asc" | "desc";
+}
+
+export interface IdentityListPage {
+  identities: Identity[];
+  // Absent on the last page
+  nextPageToken?: string;
+}
+
+// Unsorted: Kratos page token plus how many identities of that page were
+// already consumed. Sorted: offset into the sorted matches.
+interface IdentityCursor {
+  kratosToken?: string;
+  offset: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function encodeCursor(cursor: IdentityCursor): string {
+  return base64UrlEncode(encoder.encode(JSON.stringify(cursor)));
+}
+
+function decodeCursor(pageToken: string | undefined): IdentityCursor {
+  if (!pageToken) return { offset: 0 };
+  try {
+    const cursor = JSON.parse(decoder.decode(base64UrlDecode(pageToken)));
+    if (
+      Number.isSafeInteger(cursor.offset) &&
+      cursor.offset >= 0 &&
+      (cursor.kratosToken === undefined ||
+        typeof cursor.kratosToken === "string")
+    ) {
+      return { kratosToken: cursor.kratosToken, offset: cursor.offset };
+    }
+  } catch {
+    // Fall through
+  }
+  throw new BadRequestError("Invalid pageToken");
 }
 
 /**
- * Fetch all identities with pagination
+ * Build an identity list query from request search params
+ * Query: state, schema, verified, credentialsIdentifier, provider, sort,
+ * order (paging parameters are left to the caller)
  */
-export async function listIdentities(
-  page = 0,
-  perPage = 250,
-): Promise<Identity[]> {
-  try {
-    const url = `${KRATOS_ADMIN_URL}/kratos-admin/identities?page=${page}&per_page=${perPage}`;
+export function parseIdentityListQuery(
+  searchParams: URLSearchParams,
+): IdentityListQuery {
+  const state = searchParams.get("state");
+  if (state && !IDENTITY_STATES.includes(state)) {
+    throw new BadRequestError(
+      `state must be one of ${IDENTITY_STATES.join(", ")}`,
+    );
+  }
 
-    console.log("Fetching identities from:", url); // Debug log
+  const verified = searchParams.get("verified");
+  if (verified && verified !== "true" && verified !== "false") {
+    throw new BadRequestError("verified must be true or false");
+  }
 
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
+  const sort = searchParams.get("sort");
+  if (sort && !IDENTITY_SORT_FIELDS.includes(sort as IdentitySortField)) {
+    throw new BadRequestError(
+      `sort must be one of ${IDENTITY_SORT_FIELDS.join(", ")}`,
+    );
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Kratos API error:", {
-        status: response.status,
-        statusText: response.statusText,
-        body: errorText,
-        url,
-      });
-      throw new InternalServerError(
-        `Kratos API error: ${response.status} ${response.statusText} - ${errorText}`,
-      );
-    }
+  const order = searchParams.get("order");
+  if (order && order !== "asc" && order !== "desc") {
+    throw new BadRequestError("order must be asc or desc");
+  }
 
-    const identities: Identity[] = await response.json();
-    return identities;
-  } catch (error) {
-    console.error("Failed to list identities:", error); // Debug log
-    if (error instanceof InternalServerError) throw error;
-    throw new InternalServerError(
-      "Failed to list identities: " + (error as Error).message,
+  return {
+    state: state || undefined,
+    schemaId: searchParams.get("schema") || undefined,
+    verified: verified ? verified === "true" : undefined,
+    credentialsIdentifier:
+      searchParams.get("credentialsIdentifier") || undefined,
+    provider: searchParams.get("provider") || undefined,
+    sort: (sort as IdentitySortField) || undefined,
+    order: (order as IdentityListQuery["order"]) || undefined,
+  };
+}
+
+export interface IdentityChange {
+  action: "create" | "update" | "delete";
+  id: string;
+  // The identity as Kratos returned it; absent for deletes
+  identity?: Identity;
+}
+
+export type IdentityChangeListener = (
+  change: IdentityChange,
+) => void | Promise<void>;
+
+const identityListeners = new Set<IdentityChangeListener>();
+
+/**
+ * Subscribe to identity creates, updates and deletes made through this
+ * service (e.g. the search index)
+ * Returns a function that removes the listener
+ */
+export function onIdentityChange(listener: IdentityChangeListener): () => void {
+  identityListeners.add(listener);
+  return () => {
+    identityListeners.delete(listener);
+  };
+}
+
+/**
+ * Run every listener; a failing listener never fails the write itself
+ */
+async function notifyIdentityChange(change: IdentityChange) {
+  await Promise.all(
+    Array.from(identityListeners, async (listener) => {
+      try {
+        await listener(change);
+      } catch (error) {
+        console.error("[Kratos] Identity listener failed:", error);
+      }
+    }),
+  );
+}
+
+/**
+ * Whether an identity passes the filters Kratos can't apply itself
+ * (everything but credentialsIdentifier)
+ */
+export function matchesIdentityQuery(
+  identity: Identity,
+  query: IdentityListQuery,
+): boolean {
+  if (query.state && identity.state !== query.state) return false;
+  if (query.schemaId && identity.schema_id !== query.schemaId) return false;
+  if (query.verified !== undefined) {
+    const verified = (identity.verifiable_addresses || []).some(
+      (address) => address.verified,
     );
+    if (verified !== query.verified) return false;
+  }
+  if (
+    query.provider &&
+    identity.metadata_public?.provider !== query.provider
+  ) {
+    return false;
   }
+  return true;
+}
+
+function sortValue(identity: Identity, field: IdentitySortField): string {
+  if (field === "email") {
+    return String(identity.traits?.email || "").toLowerCase();
+  }
+  return identity[field] || "";
+}
+
+function compareIdentities(
+  a: Identity,
+  b: Identity,
+  field: IdentitySortField,
+): number {
+  const left = sortValue(a, field);
+  const right = sortValue(b, field);
+  if (left !== right) return left < right ? -1 : 1;
+  // Stable across requests so offsets keep pointing at the same rows
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
 }
 
 /**
- * Get a single identity by ID
+ * Fetch all identities with pagination
  */
-export async function getIdentity(id: string): Promise<Identity> {
-  try {
-    const url = `${KRATOS_ADMIN_URL}/kratos-admin/identities/${id}`;
-    console.log("Fetching identity from:", url);
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      signal: controller.signal,
+export async function listIdentities(
+  page = 0,
+  perPage = 250,
+): Promise<Identity[]> {
+  return getKratosClient().listIdentities({ page, perPage });
+}
+
+/**
+ * One page of identities matching the query
+ * Unsorted listings walk Kratos's keyset pages, filtering as they go, and
+ * stop after MAX_SCAN_PAGES so a rare filter can't read every identity in
+ * one request (the page may then be short, but nextPageToken continues the
+ * scan). Sorted listings load every match, up to MAX_SORTED_IDENTITIES.
+ * The page token is opaque; it is only valid with the same query.
+ */
+export async function listIdentitiesPage(
+  query: IdentityListQuery = {},
+): Promise<IdentityListPage> {
+  const pageSize = query.pageSize || 50;
+  const cursor = decodeCursor(query.pageToken);
+
+  return query.sort
+    ? listSortedIdentitiesPage(query, query.sort, pageSize, cursor.offset)
+    : listScannedIdentitiesPage(query, pageSize, cursor);
+}
+
+async function listScannedIdentitiesPage(
+  query: IdentityListQuery,
+  pageSize: number,
+  cursor: IdentityCursor,
+): Promise<IdentityListPage> {
+  const client = getKratosClient();
+  const identities: Identity[] = [];
+  let { kratosToken, offset } = cursor;
+
+  for (let scanned = 0; scanned < MAX_SCAN_PAGES; scanned++) {
+    const page = await client.listIdentitiesPage({
+      pageToken: kratosToken,
+      pageSize: SCAN_PAGE_SIZE,
+      credentialsIdentifier: query.credentialsIdentifier,
     });
 
-    clearTimeout(timeoutId);
+    for (let i = offset; i < page.identities.length; i++) {
+      if (!matchesIdentityQuery(page.identities[i], query)) continue;
+      identities.push(page.identities[i]);
 
-    if (response.status === 404) {
-      throw new NotFoundError(`Identity ${id} not found`);
+      if (identities.length === pageSize) {
+        const rest = i + 1 < page.identities.length;
+        if (!rest && !page.nextPageToken) return { identities };
+        return {
+          identities,
+          nextPageToken: rest
+            ? encodeCursor({ kratosToken, offset: i + 1 })
+            : encodeCursor({ kratosToken: page.nextPageToken, offset: 0 }),
+        };
+      }
     }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new InternalServerError(`Failed to fetch identity: ${error}`);
-    }
+    if (!page.nextPageToken) return { identities };
+    kratosToken = page.nextPageToken;
+    offset = 0;
+  }
 
-    return await response.json();
-  } catch (error) {
-    if (
-      error instanceof NotFoundError ||
-      error instanceof InternalServerError
-    ) {
-      throw error;
-    }
-    if (error instanceof Error && error.name === "AbortError") {
-      console.error("Timeout fetching identity:", id);
-      throw new InternalServerError("Request timeout while fetching identity");
+  return {
+    identities,
+    nextPageToken: encodeCursor({ kratosToken, offset: 0 }),
+  };
+}
+
+async function listSortedIdentitiesPage(
+  query: IdentityListQuery,
+  sort: IdentitySortField,
+  pageSize: number,
+  offset: number,
+): Promise<IdentityListPage> {
+  const matches: Identity[] = [];
+  for await (const identity of getKratosClient().iterateIdentities({
+    pageSize: SCAN_PAGE_SIZE,
+    credentialsIdentifier: query.credentialsIdentifier,
+  })) {
+    if (!matchesIdentityQuery(identity, query)) continue;
+    if (matches.length === MAX_SORTED_IDENTITIES) {
+      throw new BadRequestError(
+        `More than ${MAX_SORTED_IDENTITIES} identities match; narrow the filters or list unsorted`,
+      );
     }
-    console.error("Failed to get identity:", error);
-    throw new InternalServerError(
-      "Failed to get identity: " + (error as Error).message,
-    );
+    matches.push(identity);
   }
+
+  const direction = query.order === "desc" ? -1 : 1;
+  matches.sort((a, b) => direction * compareIdentities(a, b, sort));
+
+  const end = offset + pageSize;
+  return {
+    identities: matches.slice(offset, end),
+    nextPageToken:
+      end < matches.length ? encodeCursor({ offset: end }) : undefined,
+  };
+}
+
+/**
+ * Get a single identity by ID
+ */
+export async function getIdentity(id: string): Promise<Identity> {
+  return getKratosClient().getIdentity(id);
 }
 
 /**
  * Create a new identity
+ * Throws ConflictError if an identity with the same identifier exists
+ * Listeners registered with onIdentityChange run before this resolves
  */
 export async function createIdentity(
   data: CreateIdentityRequest,
 ): Promise<Identity> {
-  try {
-    // Validate request
-    if (!data.schema_id || !data.traits) {
-      throw new BadRequestError("schema_id and traits are required");
-    }
-
-    const response = await fetch(
-      `${KRATOS_ADMIN_URL}/kratos-admin/identities`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(data),
-      },
-    );
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new InternalServerError(`Failed to create identity: ${error}`);
-    }
-
-    return await response.json();
-  } catch (error) {
-    if (
-      error instanceof BadRequestError ||
-      error instanceof InternalServerError
-    ) {
-      throw error;
-    }
-    throw new InternalServerError("Failed to create identity");
+  // Validate request
+  if (!data.schema_id || !data.traits) {
+    throw new BadRequestError("schema_id and traits are required");
   }
+
+  const identity = await getKratosClient().createIdentity(data);
+  await notifyIdentityChange({
+    action: "create",
+    id: identity.id,
+    identity,
+  });
+  return identity;
 }
 
 /**
  * Update an identity
+ * metadata_public and metadata_admin are kept as they are unless given
+ * (Kratos would clear them)
+ * Listeners registered with onIdentityChange run before this resolves
  */
 export async function updateIdentity(
   id: string,
   data: Partial<CreateIdentityRequest>,
 ): Promise<Identity> {
-  try {
-    const response = await fetch(
-      `${KRATOS_ADMIN_URL}/kratos-admin/identities/${id}`,
-      {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          schema_id: data.schema_id || "default",
-          traits: data.traits || {},
-          state: data.state,
-          metadata_public: data.metadata_public,
-        }),
-      },
-    );
-
-    if (response.status === 404) {
-      throw new NotFoundError(`Identity ${id} not found`);
-    }
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new InternalServerError(`Failed to update identity: ${error}`);
-    }
+  const current =
+    data.metadata_public === undefined || data.metadata_admin === undefined
+      ? await getKratosClient().getIdentity(id)
+      : null;
+  const identity = await getKratosClient().updateIdentity(id, {
+    schema_id: data.schema_id || "default",
+    traits: data.traits || {},
+    state: data.state,
+    metadata_public: data.metadata_public ?? current?.metadata_public,
+    metadata_admin: data.metadata_admin ?? current?.metadata_admin,
+  });
+  await notifyIdentityChange({ action: "update", id, identity });
+  return identity;
+}
 
-    return await response.json();
-  } catch (error) {
-    if (
-      error instanceof NotFoundError ||
-      error instanceof InternalServerError
-    ) {
-      throw error;
-    }
-    throw new InternalServerError("Failed to update identity");
-  }
+/**
+ * Apply JSON Patch operations to an identity (e.g. replace /state),
+ * leaving every field the patch doesn't touch as it is
+ * Listeners registered with onIdentityChange run before this resolves
+ */
+export async function patchIdentity(
+  id: string,
+  patch: JsonPatchOperation[],
+): Promise<Identity> {
+  const identity = await getKratosClient().patchIdentity(id, patch);
+  await notifyIdentityChange({ action: "update", id, identity });
+  return identity;
 }
 
 /**
  * Delete an identity
+ * Listeners registered with onIdentityChange run before this resolves
  */
 export async function deleteIdentity(id: string): Promise<void> {
-  try {
-    const response = await fetch(
-      `${KRATOS_ADMIN_URL}/kratos-admin/identities/${id}`,
-      {
-        method: "DELETE",
-      },
-    );
-
-    if (response.status === 404) {
-      throw new NotFoundError(`Identity ${id} not found`);
-    }
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new InternalServerError(`Failed to delete identity: ${error}`);
-    }
-  } catch (error) {
-    if (
-      error instanceof NotFoundError ||
-      error instanceof InternalServerError
-    ) {
-      throw error;
-    }
-    throw new InternalServerError("Failed to delete identity");
-  }
+  await getKratosClient().deleteIdentity(id);
+  await notifyIdentityChange({ action: "delete", id });
 }
 
 /**
- * Search identities by traits
+ * Sign an identity out everywhere (revokes all its Kratos sessions)
  */
-export async function searchIdentities(
-  searchTerm: string,
-): Promise<Identity[]> {
-  // Note: Kratos doesn't have native search, so we fetch all and filter
-  // For production, consider implementing a search index
-  const identities = await listIdentities(0, 1000);
+export async function revokeIdentitySessions(id: string): Promise<void> {
+  await getKratosClient().revokeIdentitySessions(id);
+}
 
-  return identities.filter((identity) => {
-    const traitsString = JSON.stringify(identity.traits).toLowerCase();
-    return traitsString.includes(searchTerm.toLowerCase());
+/**
+ * Find the identity that signs in with an email address
+ */
+export async function findIdentityByEmail(
+  email: string,
+): Promise<Identity | null> {
+  const identities = await getKratosClient().listIdentities({
+    credentialsIdentifier: email,
   });
+  return identities[0] || null;
 }
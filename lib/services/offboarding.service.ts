@@ -0,0 +1,208 @@
+/**
+ * Offboarding Service - Removing a user's access everywhere
+ * Kratos and Keto don't know about each other: deleting an identity leaves
+ * its relation tuples behind as orphans. Offboarding revokes the identity's
+ * sessions, hands over organizations it owns, removes every tuple it is
+ * the subject of and, when asked, deletes the identity, then reports what
+ * was removed. Identity deletion in the admin API goes through here.
+ */
+
+import { RelationTuple } from "@/lib/types";
+import { BadRequestError } from "@/lib/errors";
+import {
+  deleteIdentity,
+  getIdentity,
+  revokeIdentitySessions,
+} from "./kratos.service";
+import { iterateUserPermissions, revokePermission } from "./keto.service";
+import {
+  addOrgMember,
+  changeOrgMemberRole,
+  listOrgMembers,
+  listUserOrganizations,
+} from "./organization.service";
+import { revokeUserSessions } from "./session.service";
+import { logAdminAction } from "./audit.service";
+
+export interface OffboardingOptions {
+  // Admin (or system actor) doing the offboarding
+  actorId: string;
+  // Make this user an owner of every organization the identity owns
+  transferOwnershipTo?: string;
+  // Delete the Kratos identity once its access is gone
+  deleteIdentity?: boolean;
+  // Callers that write their own audit entry pass false
+  audit?: boolean;
+}
+
+export interface OffboardingReport {
+  identityId: string;
+  email?: string;
+  sessionsRevoked: boolean;
+  // Organizations whose ownership went to transferOwnershipTo
+  transferredOrganizations: string[];
+  // "Namespace:object#relation" of every removed tuple
+  removedPermissions: string[];
+  identityDeleted: boolean;
+  completedAt: string;
+}
+
+function formatTuple(tuple: RelationTuple): string {
+  return `${tuple.namespace}:${tuple.object}#${tuple.relation}`;
+}
+
+/**
+ * Organizations the identity owns, and those it is the only owner of
+ */
+async function ownedOrganizations(
+  identityId: string,
+): Promise<{ owned: string[]; soleOwner: string[] }> {
+  const owned: string[] = [];
+  const soleOwner: string[] = [];
+  const memberships = await listUserOrganizations(identityId);
+  for (const { organization, role } of memberships) {
+    if (role !== "owners") continue;
+    owned.push(organization.id);
+    const members = await listOrgMembers(organization.id);
+    if (members.owners.length === 1) soleOwner.push(organization.id);
+  }
+  return { owned, soleOwner };
+}
+
+/**
+ * Organizations nobody but this identity owns; offboarding them needs a
+ * transferOwnershipTo
+ */
+export async function findSoleOwnedOrganizations(
+  identityId: string,
+): Promise<string[]> {
+  const { soleOwner } = await ownedOrganizations(identityId);
+  return soleOwner;
+}
+
+/**
+ * Make newOwnerId an owner of the organization, keeping anyone else as is
+ */
+async function transferOwnership(
+  orgId: string,
+  newOwnerId: string,
+  actorId: string,
+): Promise<void> {
+  const members = await listOrgMembers(orgId);
+  if (members.owners.includes(newOwnerId)) return;
+
+  const isMember = Object.values(members).some((subjects) =>
+    subjects.includes(newOwnerId),
+  );
+  if (isMember) {
+    await changeOrgMemberRole(orgId, newOwnerId, "owners", actorId);
+  } else {
+    await addOrgMember(orgId, newOwnerId, "owners", actorId);
+  }
+}
+
+/**
+ * Offboard an identity: revoke its sessions, transfer organizations it
+ * owns, remove every relation tuple it is the subject of (all pages) and
+ * optionally delete it
+ * Throws BadRequestError before changing anything if the identity is the
+ * only owner of an organization and no transferOwnershipTo is given;
+ * throws NotFoundError for an unknown identity or transfer target.
+ * A failure part way leaves the identity in place so it can be retried;
+ * the audit entry records what was removed before it and the error.
+ */
+export async function offboardIdentity(
+  identityId: string,
+  options: OffboardingOptions,
+): Promise<OffboardingReport> {
+  const identity = await getIdentity(identityId);
+  const { transferOwnershipTo } = options;
+  if (transferOwnershipTo) {
+    if (transferOwnershipTo === identityId) {
+      throw new BadRequestError("Can't transfer ownership to the same user");
+    }
+    await getIdentity(transferOwnershipTo);
+  }
+
+  const { owned, soleOwner } = await ownedOrganizations(identityId);
+  if (soleOwner.length > 0 && !transferOwnershipTo) {
+    throw new BadRequestError(
+      `${identityId} is the only owner of ${soleOwner.join(", ")}; ` +
+        "pass transferOwnershipTo",
+    );
+  }
+
+  const traitEmail = identity.traits?.email;
+  const email = typeof traitEmail === "string" ? traitEmail : undefined;
+  const transferredOrganizations: string[] = [];
+  const removedPermissions: string[] = [];
+  let sessionsRevoked = false;
+  let identityDeleted = false;
+  let failure: unknown;
+  try {
+    // Signed out first (Kratos sessions and this app's signed sessions), so
+    // nothing new happens while access is removed
+    await revokeIdentitySessions(identityId);
+    await revokeUserSessions(identityId);
+    sessionsRevoked = true;
+
+    if (transferOwnershipTo) {
+      for (const orgId of owned) {
+        await transferOwnership(orgId, transferOwnershipTo, options.actorId);
+        transferredOrganizations.push(orgId);
+      }
+    }
+
+    // Collect every page before deleting, so removals don't shift the pages
+    const tuples: RelationTuple[] = [];
+    for await (const tuple of iterateUserPermissions(identityId)) {
+      tuples.push(tuple);
+    }
+    for (const tuple of tuples) {
+      await revokePermission(tuple);
+      removedPermissions.push(formatTuple(tuple));
+    }
+
+    if (options.deleteIdentity) {
+      await deleteIdentity(identityId);
+      identityDeleted = true;
+    }
+  } catch (error) {
+    failure = error;
+    throw error;
+  } finally {
+    // Audited however it ends, with what was removed before any failure
+    if (options.audit !== false) {
+      await logAdminAction(
+        options.actorId,
+        options.deleteIdentity ? "delete_identity" : "offboard_identity",
+        `Identity:${identityId}`,
+        failure === undefined,
+        {
+          identityId,
+          email,
+          transferOwnershipTo,
+          sessionsRevoked,
+          transferredOrganizations,
+          removedPermissions,
+          identityDeleted,
+          ...(failure !== undefined && {
+            error: failure instanceof Error ? failure.message : "Unknown",
+          }),
+        },
+      );
+    }
+  }
+
+  const report: OffboardingReport = {
+    identityId,
+    email,
+    sessionsRevoked,
+    transferredOrganizations,
+    removedPermissions,
+    identityDeleted,
+    completedAt: new Date().toISOString(),
+  };
+
+  return report;
+}
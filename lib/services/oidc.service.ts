@@ -0,0 +1,153 @@
+/**
+ * OIDC Service - Generic OpenID Connect client for external login providers
+ * Discovery, authorization URL, code exchange and userinfo for any provider
+ * registered in lib/oidc-providers.ts
+ */
+
+import { OidcEndpoints, OidcProvider, ProviderUser } from "@/lib/oidc-providers";
+import { OAuthFlow, createCodeChallenge, validateIdTokenNonce } from "@/lib/oauth-flow";
+
+// Discovery documents are cached for an hour
+const DISCOVERY_TTL = 60 * 60 * 1000;
+const discoveryCache = new Map<
+  string,
+  { endpoints: OidcEndpoints; fetchedAt: number }
+>();
+
+/**
+ * Resolve a provider's endpoints (static config or discovery document)
+ */
+export async function getProviderEndpoints(
+  provider: OidcProvider,
+): Promise<OidcEndpoints> {
+  if (provider.endpoints) {
+    return provider.endpoints;
+  }
+
+  const issuer = provider.issuer!.replace(/\/$/, "");
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL) {
+    return cached.endpoints;
+  }
+
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(
+      `OIDC discovery failed for ${provider.id}: ${response.status}`,
+    );
+  }
+
+  const document = await response.json();
+  if (
+    !document.authorization_endpoint ||
+    !document.token_endpoint ||
+    !document.userinfo_endpoint
+  ) {
+    throw new Error(`OIDC discovery document for ${provider.id} is incomplete`);
+  }
+
+  const endpoints: OidcEndpoints = {
+    authorization_endpoint: document.authorization_endpoint,
+    token_endpoint: document.token_endpoint,
+    userinfo_endpoint: document.userinfo_endpoint,
+  };
+  discoveryCache.set(issuer, { endpoints, fetchedAt: Date.now() });
+
+  return endpoints;
+}
+
+/**
+ * Redirect URI registered with the provider
+ * Uses the gateway URL (routes through nginx to app) when configured
+ */
+export function getRedirectUri(provider: OidcProvider, origin: string): string {
+  const gatewayUrl = process.env.NEXT_PUBLIC_ORY_SDK_URL || origin;
+  return `${gatewayUrl}/auth/callback/${provider.id}`;
+}
+
+/**
+ * Build the authorization URL for a new OAuth flow
+ */
+export async function buildAuthorizationUrl(
+  provider: OidcProvider,
+  flow: OAuthFlow,
+  redirectUri: string,
+): Promise<string> {
+  const endpoints = await getProviderEndpoints(provider);
+
+  const params = new URLSearchParams({
+    ...provider.authorizationParams,
+    client_id: provider.clientId,
+    redirect_uri: redirectUri,
+    state: flow.state,
+    nonce: flow.nonce,
+    code_challenge: await createCodeChallenge(flow.codeVerifier),
+    code_challenge_method: "S256",
+    response_type: "code",
+    scope: provider.scope,
+  });
+
+  return `${endpoints.authorization_endpoint}?${params.toString()}`;
+}
+
+/**
+ * Exchange the authorization code, check the nonce and fetch the user
+ */
+export async function authenticateWithCode(
+  provider: OidcProvider,
+  flow: OAuthFlow,
+  code: string,
+  redirectUri: string,
+): Promise<ProviderUser> {
+  const endpoints = await getProviderEndpoints(provider);
+
+  // Exchange authorization code for access token
+  const tokenResponse = await fetch(endpoints.token_endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      redirect_uri: redirectUri,
+      code_verifier: flow.codeVerifier,
+    }),
+  });
+
+  if (!tokenResponse.ok) {
+    const errorData = await tokenResponse.text();
+    console.error(`[OIDC] Token exchange failed for ${provider.id}:`, errorData);
+    throw new Error("Failed to exchange code for token");
+  }
+
+  const tokenData = await tokenResponse.json();
+
+  // The ID token must carry the nonce we generated for this flow
+  if (!validateIdTokenNonce(tokenData.id_token, flow.nonce)) {
+    throw new Error("ID token nonce mismatch");
+  }
+
+  // Fetch user information
+  const userResponse = await fetch(endpoints.userinfo_endpoint, {
+    headers: {
+      Authorization: `Bearer ${tokenData.access_token}`,
+    },
+  });
+
+  if (!userResponse.ok) {
+    throw new Error("Failed to fetch user info");
+  }
+
+  const claims = await userResponse.json();
+  const user = provider.mapClaims(claims);
+
+  if (!user.subject) {
+    throw new Error("Provider did not return a subject");
+  }
+
+  return user;
+}
@@ -0,0 +1,64 @@
+/**
+ * File Organization Store - JSON file backed organization metadata
+ * Default persistent backend for the organization service (Node.js runtime only)
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Organization } from "@/lib/types";
+import type { OrganizationStore } from "./organization.service";
+
+export class FileOrganizationStore implements OrganizationStore {
+  private cache: Map<string, Organization> | null = null;
+  // Serialize writes so concurrent saves don't clobber each other
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async load(): Promise<Map<string, Organization>> {
+    if (!this.cache) {
+      try {
+        const content = await readFile(this.filePath, "utf8");
+        const organizations: Organization[] = JSON.parse(content);
+        this.cache = new Map(organizations.map((org) => [org.id, org]));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+        this.cache = new Map();
+      }
+    }
+    return this.cache;
+  }
+
+  private persist(): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const organizations = Array.from((await this.load()).values());
+      await mkdir(dirname(this.filePath), { recursive: true });
+      // Write to a temp file first so a crash never leaves a truncated store
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, JSON.stringify(organizations, null, 2), "utf8");
+      await rename(tempPath, this.filePath);
+    });
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  async list(): Promise<Organization[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  async get(id: string): Promise<Organization | null> {
+    return (await this.load()).get(id) || null;
+  }
+
+  async save(organization: Organization): Promise<void> {
+    (await this.load()).set(organization.id, organization);
+    await this.persist();
+  }
+
+  async delete(id: string): Promise<void> {
+    (await this.load()).delete(id);
+    await this.persist();
+  }
+}
@@ -0,0 +1,495 @@
+/**
+ * Organization Service - BFF Layer for Organization Management
+ * Organization metadata lives in a pluggable store; membership and roles
+ * are relation tuples in the Keto `Organization` namespace
+ */
+
+import {
+  CreateOrganizationRequest,
+  OrgMembers,
+  OrgRole,
+  Organization,
+} from "@/lib/types";
+import { BadRequestError, NotFoundError } from "@/lib/errors";
+import {
+  grantPermission,
+  listObjectPermissions,
+  listUserPermissions,
+  revokePermission,
+} from "./keto.service";
+import { logAdminAction } from "./audit.service";
+
+export const ORG_ROLES: OrgRole[] = ["owners", "admins", "members", "viewers"];
+
+// Lowercase slug, used as the Keto object id
+const ORG_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{1,62}$/;
+
+/**
+ * Pluggable organization metadata backend
+ */
+export interface OrganizationStore {
+  list(): Promise<Organization[]>;
+  get(id: string): Promise<Organization | null>;
+  save(organization: Organization): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * In-memory store (per process, lost on restart)
+ */
+export class MemoryOrganizationStore implements OrganizationStore {
+  private organizations = new Map<string, Organization>();
+
+  async list(): Promise<Organization[]> {
+    return Array.from(this.organizations.values());
+  }
+
+  async get(id: string): Promise<Organization | null> {
+    return this.organizations.get(id) || null;
+  }
+
+  async save(organization: Organization): Promise<void> {
+    this.organizations.set(organization.id, organization);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.organizations.delete(id);
+  }
+}
+
+let organizationStore: OrganizationStore | null = null;
+
+/**
+ * Replace the organization store (database, etc.)
+ */
+export function setOrganizationStore(store: OrganizationStore) {
+  organizationStore = store;
+}
+
+async function getOrganizationStore(): Promise<OrganizationStore> {
+  if (!organizationStore) {
+    const { FileOrganizationStore } = await import("./organization-file.store");
+    organizationStore = new FileOrganizationStore(
+      process.env.ORG_STORE_FILE || "data/orgs/organizations.json",
+    );
+  }
+  return organizationStore;
+}
+
+export function isOrgRole(value: unknown): value is OrgRole {
+  return ORG_ROLES.includes(value as OrgRole);
+}
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 63);
+}
+
+/**
+ * List all organizations (sorted by name)
+ */
+export async function listOrganizations(): Promise<Organization[]> {
+  const store = await getOrganizationStore();
+  const organizations = await store.list();
+  return organizations.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get a single organization by ID
+ */
+export async function getOrganization(orgId: string): Promise<Organization> {
+  const store = await getOrganizationStore();
+  const organization = await store.get(orgId);
+
+  if (!organization) {
+    throw new NotFoundError(`Organization ${orgId} not found`);
+  }
+
+  return organization;
+}
+
+/**
+ * Create an organization and make its owner the first member
+ */
+export async function createOrganization(
+  request: CreateOrganizationRequest,
+  createdBy: string,
+): Promise<Organization> {
+  const name = request.name?.trim();
+  if (!name) {
+    throw new BadRequestError("name is required");
+  }
+
+  const id = request.id?.trim() || slugify(name);
+  if (!ORG_ID_PATTERN.test(id)) {
+    throw new BadRequestError(
+      "id must be 2-63 lowercase letters, digits, dashes or underscores",
+    );
+  }
+
+  const store = await getOrganizationStore();
+  if (await store.get(id)) {
+    throw new BadRequestError(`Organization ${id} already exists`);
+  }
+
+  const now = new Date().toISOString();
+  const organization: Organization = {
+    id,
+    name,
+    description: request.description?.trim() || undefined,
+    created_by: createdBy,
+    created_at: now,
+    updated_at: now,
+  };
+
+  await store.save(organization);
+
+  const ownerId = request.ownerId || createdBy;
+  await grantPermission({
+    namespace: "Organization",
+    object: id,
+    relation: "owners",
+    subject: ownerId,
+  });
+
+  await logAdminAction(
+    createdBy,
+    "create_organization",
+    `Organization:${id}`,
+    true,
+    {
+      orgId: id,
+      name,
+      ownerId,
+    },
+  );
+
+  return organization;
+}
+
+/**
+ * Create the organization metadata if it does not exist yet (idempotent)
+ */
+export async function ensureOrganization(
+  orgId: string,
+  name: string,
+  createdBy?: string,
+): Promise<Organization> {
+  const store = await getOrganizationStore();
+  const existing = await store.get(orgId);
+  if (existing) {
+    return existing;
+  }
+
+  const now = new Date().toISOString();
+  const organization: Organization = {
+    id: orgId,
+    name,
+    created_by: createdBy,
+    created_at: now,
+    updated_at: now,
+  };
+  await store.save(organization);
+  console.log(`[Organization] Created organization record ${orgId}`);
+
+  return organization;
+}
+
+/**
+ * Update organization metadata
+ */
+export async function updateOrganization(
+  orgId: string,
+  updates: Partial<Pick<Organization, "name" | "description">>,
+  updatedBy: string,
+): Promise<Organization> {
+  const organization = await getOrganization(orgId);
+
+  if (updates.name !== undefined && !updates.name.trim()) {
+    throw new BadRequestError("name cannot be empty");
+  }
+
+  const updated: Organization = {
+    ...organization,
+    name: updates.name?.trim() || organization.name,
+    description:
+      updates.description !== undefined
+        ? updates.description.trim() || undefined
+        : organization.description,
+    updated_at: new Date().toISOString(),
+  };
+
+  const store = await getOrganizationStore();
+  await store.save(updated);
+
+  await logAdminAction(
+    updatedBy,
+    "update_organization",
+    `Organization:${orgId}`,
+    true,
+    {
+      orgId,
+      updates,
+    },
+  );
+
+  return updated;
+}
+
+/**
+ * Delete an organization and all of its relation tuples
+ */
+export async function deleteOrganization(
+  orgId: string,
+  deletedBy: string,
+): Promise<void> {
+  await getOrganization(orgId);
+
+  const tuples = await listObjectPermissions("Organization", orgId);
+  for (const tuple of tuples) {
+    await revokePermission(tuple);
+  }
+
+  const store = await getOrganizationStore();
+  await store.delete(orgId);
+
+  await logAdminAction(
+    deletedBy,
+    "delete_organization",
+    `Organization:${orgId}`,
+    true,
+    {
+      orgId,
+      removedTuples: tuples.length,
+      criticality: "high",
+    },
+  );
+}
+
+/**
+ * List organization members grouped by role
+ */
+export async function listOrgMembers(orgId: string): Promise<OrgMembers> {
+  const members: OrgMembers = {
+    owners: [],
+    admins: [],
+    members: [],
+    viewers: [],
+  };
+
+  const tuples = await listObjectPermissions("Organization", orgId);
+  for (const tuple of tuples) {
+    if (isOrgRole(tuple.relation)) {
+      members[tuple.relation].push(tuple.subject);
+    }
+  }
+
+  return members;
+}
+
+/**
+ * Organizations a user belongs to, with the role they hold in each
+ */
+export async function listUserOrganizations(
+  userId: string,
+): Promise<{ organization: Organization; role: OrgRole }[]> {
+  const store = await getOrganizationStore();
+  const tuples = await listUserPermissions(userId, "Organization");
+  const memberships: { organization: Organization; role: OrgRole }[] = [];
+
+  for (const tuple of tuples) {
+    if (!isOrgRole(tuple.relation)) continue;
+
+    const organization = await store.get(tuple.object);
+    if (organization) {
+      memberships.push({ organization, role: tuple.relation });
+    }
+  }
+
+  return memberships;
+}
+
+/**
+ * Roles a user currently holds in an organization
+ */
+function getMemberRoles(members: OrgMembers, userId: string): OrgRole[] {
+  return ORG_ROLES.filter((role) => members[role].includes(userId));
+}
+
+/**
+ * Refuse changes that would leave an organization without an owner
+ */
+function assertKeepsOwner(
+  members: OrgMembers,
+  userId: string,
+  newRole: OrgRole | null,
+) {
+  const isOnlyOwner =
+    members.owners.length === 1 && members.owners[0] === userId;
+  if (isOnlyOwner && newRole !== "owners") {
+    throw new BadRequestError("An organization must keep at least one owner");
+  }
+}
+
+/**
+ * Give a user exactly one role in an organization
+ * Replaces any role the user already holds
+ */
+async function setMemberRole(
+  orgId: string,
+  userId: string,
+  role: OrgRole,
+  members: OrgMembers,
+): Promise<void> {
+  const currentRoles = getMemberRoles(members, userId);
+
+  if (!currentRoles.includes(role)) {
+    await grantPermission({
+      namespace: "Organization",
+      object: orgId,
+      relation: role,
+      subject: userId,
+    });
+  }
+
+  for (const currentRole of currentRoles) {
+    if (currentRole !== role) {
+      await revokePermission({
+        namespace: "Organization",
+        object: orgId,
+        relation: currentRole,
+        subject: userId,
+      });
+    }
+  }
+}
+
+/**
+ * Add a member to an organization
+ * Bulk callers that audit the whole batch pass audit: false
+ */
+export async function addOrgMember(
+  orgId: string,
+  userId: string,
+  role: OrgRole,
+  actorId: string,
+  options: { audit?: boolean } = {},
+): Promise<OrgMembers> {
+  await getOrganization(orgId);
+
+  if (!userId) {
+    throw new BadRequestError("userId is required");
+  }
+  if (!isOrgRole(role)) {
+    throw new BadRequestError(`role must be one of ${ORG_ROLES.join(", ")}`);
+  }
+
+  const members = await listOrgMembers(orgId);
+  if (getMemberRoles(members, userId).length > 0) {
+    throw new BadRequestError(`User ${userId} is already a member of ${orgId}`);
+  }
+
+  await setMemberRole(orgId, userId, role, members);
+
+  if (options.audit !== false) {
+    await logAdminAction(
+      actorId,
+      "add_org_member",
+      `Organization:${orgId}`,
+      true,
+      {
+        orgId,
+        memberId: userId,
+        role,
+      },
+    );
+  }
+
+  return listOrgMembers(orgId);
+}
+
+/**
+ * Change the role of an existing member
+ */
+export async function changeOrgMemberRole(
+  orgId: string,
+  userId: string,
+  role: OrgRole,
+  actorId: string,
+): Promise<OrgMembers> {
+  await getOrganization(orgId);
+
+  if (!isOrgRole(role)) {
+    throw new BadRequestError(`role must be one of ${ORG_ROLES.join(", ")}`);
+  }
+
+  const members = await listOrgMembers(orgId);
+  const previousRoles = getMemberRoles(members, userId);
+  if (previousRoles.length === 0) {
+    throw new NotFoundError(`User ${userId} is not a member of ${orgId}`);
+  }
+
+  assertKeepsOwner(members, userId, role);
+  await setMemberRole(orgId, userId, role, members);
+
+  await logAdminAction(
+    actorId,
+    "change_org_member_role",
+    `Organization:${orgId}`,
+    true,
+    {
+      orgId,
+      memberId: userId,
+      previousRoles,
+      role,
+    },
+  );
+
+  return listOrgMembers(orgId);
+}
+
+/**
+ * Remove a member (all of their roles) from an organization
+ */
+export async function removeOrgMember(
+  orgId: string,
+  userId: string,
+  actorId: string,
+): Promise<OrgMembers> {
+  await getOrganization(orgId);
+
+  const members = await listOrgMembers(orgId);
+  const roles = getMemberRoles(members, userId);
+  if (roles.length === 0) {
+    throw new NotFoundError(`User ${userId} is not a member of ${orgId}`);
+  }
+
+  assertKeepsOwner(members, userId, null);
+
+  for (const role of roles) {
+    await revokePermission({
+      namespace: "Organization",
+      object: orgId,
+      relation: role,
+      subject: userId,
+    });
+  }
+
+  await logAdminAction(
+    actorId,
+    "remove_org_member",
+    `Organization:${orgId}`,
+    true,
+    {
+      orgId,
+      memberId: userId,
+      roles,
+    },
+  );
+
+  return listOrgMembers(orgId);
+}
@@ -0,0 +1,109 @@
+/**
+ * Redis Permission Cache - Shared permission decision cache
+ * Works with any client exposing the Redis MGET / SET PX commands
+ * (ioredis, node-redis legacy mode, Upstash, or an in-memory stand-in),
+ * so every instance sees the same decisions and invalidations.
+ *
+ * Invalidation writes a timestamp marker instead of scanning keys: a
+ * decision is only used if it was checked after the marker for its subject
+ * and after the global clear marker. One MGET per lookup reads all three.
+ */
+
+import type { PermissionQuery } from "@/lib/types";
+import {
+  CachedDecision,
+  PermissionCache,
+  permissionCacheKey,
+} from "./permission.service";
+
+/**
+ * The subset of a Redis client the cache needs
+ */
+export interface RedisLikeClient {
+  mget(...keys: string[]): Promise<(string | null)[]>;
+  set(key: string, value: string, mode: "PX", ttlMs: number): Promise<unknown>;
+}
+
+export interface RedisPermissionCacheOptions {
+  keyPrefix?: string;
+  // How long invalidation markers live; must cover the longest decision TTL
+  markerTtlMs?: number;
+}
+
+export class RedisPermissionCache implements PermissionCache {
+  readonly shared = true;
+  private readonly keyPrefix: string;
+  private readonly markerTtlMs: number;
+
+  constructor(
+    private readonly client: RedisLikeClient,
+    options: RedisPermissionCacheOptions = {},
+  ) {
+    this.keyPrefix = options.keyPrefix ?? "iam:perm:";
+    this.markerTtlMs = options.markerTtlMs ?? 24 * 60 * 60 * 1000;
+  }
+
+  private decisionKey(tuple: PermissionQuery): string {
+    return `${this.keyPrefix}decision:${permissionCacheKey(tuple)}`;
+  }
+
+  private subjectMarkerKey(subject: string): string {
+    return `${this.keyPrefix}invalidated:${subject}`;
+  }
+
+  private get clearMarkerKey(): string {
+    return `${this.keyPrefix}cleared`;
+  }
+
+  async get(tuple: PermissionQuery): Promise<CachedDecision | undefined> {
+    const [decision, subjectMarker, clearMarker] = await this.client.mget(
+      this.decisionKey(tuple),
+      this.subjectMarkerKey(tuple.subject),
+      this.clearMarkerKey,
+    );
+    if (!decision) return undefined;
+
+    // Stored as "<0|1>:<checkedAt>"
+    const [allowed, checkedAt] = decision.split(":");
+    const invalidatedAt = Math.max(
+      Number(subjectMarker) || 0,
+      Number(clearMarker) || 0,
+    );
+    if (Number(checkedAt) <= invalidatedAt) return undefined;
+
+    return { allowed: allowed === "1", checkedAt: Number(checkedAt) };
+  }
+
+  async set(
+    tuple: PermissionQuery,
+    allowed: boolean,
+    checkedAt: number,
+    ttlMs: number,
+  ): Promise<void> {
+    if (ttlMs <= 0) return;
+    await this.client.set(
+      this.decisionKey(tuple),
+      `${allowed ? 1 : 0}:${checkedAt}`,
+      "PX",
+      ttlMs,
+    );
+  }
+
+  async invalidateSubject(subject: string): Promise<void> {
+    await this.client.set(
+      this.subjectMarkerKey(subject),
+      String(Date.now()),
+      "PX",
+      this.markerTtlMs,
+    );
+  }
+
+  async clear(): Promise<void> {
+    await this.client.set(
+      this.clearMarkerKey,
+      String(Date.now()),
+      "PX",
+      this.markerTtlMs,
+    );
+  }
+}
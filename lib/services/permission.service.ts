@@ -1,66 +1,202 @@
 /**
  * Permission Service - Handles Keto permission checks with caching
- * Implements session caching to reduce load on Keto
+ * Decisions live in a pluggable cache (Redis when configured, else a
+ * per-process LRU) that is invalidated on every grant / revoke made through
+ * lib/keto-client.ts
  */
 
-import { checkPermission, RelationTuple } from "@/lib/keto";
+import { checkPermission } from "@/lib/keto";
+import { onRelationTupleChange, RelationTupleChange } from "@/lib/keto-client";
+import { envNumber } from "@/lib/http";
+import { getSharedRedis } from "@/lib/redis";
+import { isSubjectSet } from "@/lib/subject-set";
+import {
+  ConsistencyToken,
+  OrgPermission,
+  PermissionQuery,
+} from "@/lib/types";
 import { logAudit } from "./audit.service";
+import { RedisPermissionCache } from "./permission-redis.cache";
 
-// Simple in-memory cache with TTL
-interface CacheEntry {
+// Allowed decisions are cached for 5 minutes, denials for 30 seconds so a
+// fresh grant made outside this app shows up quickly
+const CACHE_TTL = envNumber("PERMISSION_CACHE_TTL_MS", 5 * 60 * 1000);
+const NEGATIVE_CACHE_TTL = envNumber("PERMISSION_CACHE_NEGATIVE_TTL_MS", 30000);
+const CACHE_MAX_ENTRIES = envNumber("PERMISSION_CACHE_MAX_ENTRIES", 10000);
+
+/**
+ * Pluggable permission decision cache
+ * `checkedAt` is when the Keto check started: a backend must drop decisions
+ * checked before a later invalidation of the same subject, so a check that
+ * raced a revoke can't put the old answer back.
+ */
+export interface PermissionCache {
+  // Whether every instance and the edge middleware see its invalidations
+  readonly shared: boolean;
+  get(tuple: PermissionQuery): Promise<CachedDecision | undefined>;
+  set(
+    tuple: PermissionQuery,
+    allowed: boolean,
+    checkedAt: number,
+    ttlMs: number,
+  ): Promise<void>;
+  invalidateSubject(subject: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CachedDecision {
   allowed: boolean;
-  timestamp: number;
+  checkedAt: number;
 }
 
-// Cache for 5 minutes (300000ms)
-const CACHE_TTL = 5 * 60 * 1000;
-const permissionCache = new Map<string, CacheEntry>();
+export interface PermissionCheckOptions {
+  // Bypass the cache entirely
+  skipCache?: boolean;
+  // From a recent grant / revoke: cached decisions older than it are ignored
+  consistency?: ConsistencyToken | null;
+}
 
-// Generate cache key from tuple
-function getCacheKey(tuple: RelationTuple): string {
+// Subjects may contain ":" and "#" (subject sets), so it goes last
+export function permissionCacheKey(tuple: PermissionQuery): string {
   return `${tuple.namespace}:${tuple.object}:${tuple.relation}:${tuple.subject}`;
 }
 
-// Clear expired cache entries
-function cleanCache() {
-  const now = Date.now();
-  for (const [key, entry] of permissionCache.entries()) {
-    if (now - entry.timestamp > CACHE_TTL) {
-      permissionCache.delete(key);
+interface LruEntry extends CachedDecision {
+  subject: string;
+  expiresAt: number;
+}
+
+/**
+ * In-memory LRU cache (per process)
+ * Expired entries are dropped on read or evicted by size, so no timers run
+ * (timers don't survive in edge middleware)
+ */
+export class LruPermissionCache implements PermissionCache {
+  readonly shared = false;
+  // Map iteration order is insertion order: the first key is the oldest
+  private entries = new Map<string, LruEntry>();
+  private invalidatedAt = 0;
+
+  constructor(private readonly maxEntries = CACHE_MAX_ENTRIES) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(tuple: PermissionQuery): Promise<CachedDecision | undefined> {
+    const key = permissionCacheKey(tuple);
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return { allowed: entry.allowed, checkedAt: entry.checkedAt };
+  }
+
+  async set(
+    tuple: PermissionQuery,
+    allowed: boolean,
+    checkedAt: number,
+    ttlMs: number,
+  ): Promise<void> {
+    // One watermark for all subjects: a few extra misses, never stale data
+    if (ttlMs <= 0 || checkedAt <= this.invalidatedAt) return;
+
+    const key = permissionCacheKey(tuple);
+    this.entries.delete(key);
+    this.entries.set(key, {
+      allowed,
+      checkedAt,
+      subject: tuple.subject,
+      expiresAt: Date.now() + ttlMs,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
     }
   }
+
+  async invalidateSubject(subject: string): Promise<void> {
+    this.invalidatedAt = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.subject === subject) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.invalidatedAt = Date.now();
+    this.entries.clear();
+  }
 }
 
-// Clean cache every minute
-setInterval(cleanCache, 60000);
+let permissionCache: PermissionCache | null = null;
+
+// Shared Redis when configured (REDIS_REST_URL), else per process
+function getPermissionCache(): PermissionCache {
+  if (!permissionCache) {
+    const redis = getSharedRedis();
+    permissionCache = redis
+      ? new RedisPermissionCache(redis)
+      : new LruPermissionCache();
+  }
+  return permissionCache;
+}
+
+/**
+ * Replace the permission cache (e.g. with another shared backend)
+ */
+export function setPermissionCache(cache: PermissionCache) {
+  permissionCache = cache;
+}
 
 /**
  * Check permission with caching
+ * Pass the consistency token of a recent write for read-after-write checks
  */
 export async function checkPermissionCached(
-  tuple: RelationTuple,
-  skipCache = false,
+  tuple: PermissionQuery,
+  options: PermissionCheckOptions = {},
 ): Promise<boolean> {
-  const cacheKey = getCacheKey(tuple);
+  const { consistency } = options;
+  const cache = getPermissionCache();
+  // Grants and revokes happen in route handlers, so the edge middleware's
+  // own copy of a per-process cache would never be invalidated
+  const skipCache =
+    options.skipCache ||
+    (process.env.NEXT_RUNTIME === "edge" && !cache.shared);
 
   // Check cache first
   if (!skipCache) {
-    const cached = permissionCache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-      console.log("[Permission] Cache hit:", cacheKey);
+    const cached = await cache.get(tuple).catch((error) => {
+      console.error("[Permission] Cache read failed:", error);
+      return undefined;
+    });
+    if (cached && cached.checkedAt > (consistency?.writtenAt ?? 0)) {
       return cached.allowed;
     }
   }
 
-  // Not in cache or expired, check with Keto
-  console.log("[Permission] Cache miss, checking Keto:", cacheKey);
-  const allowed = await checkPermission(tuple);
+  // Not in cache, expired or older than the caller's write: ask Keto
+  const checkedAt = Date.now();
+  const allowed = await checkPermission(tuple, consistency);
+
+  if (skipCache) {
+    return allowed;
+  }
 
   // Store in cache
-  permissionCache.set(cacheKey, {
-    allowed,
-    timestamp: Date.now(),
-  });
+  await cache
+    .set(tuple, allowed, checkedAt, allowed ? CACHE_TTL : NEGATIVE_CACHE_TTL)
+    .catch((error) => {
+      console.error("[Permission] Cache write failed:", error);
+    });
 
   return allowed;
 }
@@ -68,31 +204,49 @@ export async function checkPermissionCached(
 /**
  * Invalidate cache for a specific user
  */
-export function invalidateUserCache(userId: string) {
-  for (const [key] of permissionCache.entries()) {
-    if (key.endsWith(`:${userId}`)) {
-      permissionCache.delete(key);
-    }
-  }
+export async function invalidateUserCache(userId: string): Promise<void> {
+  await getPermissionCache().invalidateSubject(userId);
 }
 
 /**
  * Clear entire cache
  */
-export function clearPermissionCache() {
-  permissionCache.clear();
+export async function clearPermissionCache(): Promise<void> {
+  await getPermissionCache().clear();
 }
 
+/**
+ * Invalidate on every grant / revoke
+ * A tuple for a user only changes that user's decisions; a tuple whose
+ * subject is a subject set (group, role) can change anyone's, so the whole
+ * cache goes.
+ */
+async function handleTupleChange({ tuple }: RelationTupleChange) {
+  if (isSubjectSet(tuple.subject)) {
+    await clearPermissionCache();
+  } else {
+    await invalidateUserCache(tuple.subject);
+  }
+}
+
+onRelationTupleChange(handleTupleChange);
+
 /**
  * Check if user is a global admin
  */
-export async function isGlobalAdmin(userId: string): Promise<boolean> {
-  const allowed = await checkPermissionCached({
-    namespace: "GlobalRole",
-    object: "admin",
-    relation: "members",
-    subject: userId,
-  });
+export async function isGlobalAdmin(
+  userId: string,
+  consistency?: ConsistencyToken | null,
+): Promise<boolean> {
+  const allowed = await checkPermissionCached(
+    {
+      namespace: "GlobalRole",
+      object: "admin",
+      relation: "members",
+      subject: userId,
+    },
+    { consistency },
+  );
 
   // Log admin access checks
   if (allowed) {
@@ -116,27 +270,25 @@ export async function isGlobalAdmin(userId: string): Promise<boolean> {
 export async function hasOrgPermission(
   userId: string,
   orgId: string,
-  permission:
-    | "manage_org"
-    | "manage_users"
-    | "manage_groups"
-    | "manage_roles"
-    | "view_org"
-    | "is_member",
+  permission: OrgPermission,
+  consistency?: ConsistencyToken | null,
 ): Promise<boolean> {
   // First check if global admin
-  const isAdmin = await isGlobalAdmin(userId);
+  const isAdmin = await isGlobalAdmin(userId, consistency);
   if (isAdmin) {
     return true;
   }
 
   // Check specific org permission
-  const allowed = await checkPermissionCached({
-    namespace: "Organization",
-    object: orgId,
-    relation: permission,
-    subject: userId,
-  });
+  const allowed = await checkPermissionCached(
+    {
+      namespace: "Organization",
+      object: orgId,
+      relation: permission,
+      subject: userId,
+    },
+    { consistency },
+  );
 
   // Log permission check
   await logAudit({
@@ -157,9 +309,12 @@ export async function hasOrgPermission(
 /**
  * Get user dashboard route based on permissions
  */
-export async function getUserDashboardRoute(userId: string): Promise<string> {
+export async function getUserDashboardRoute(
+  userId: string,
+  consistency?: ConsistencyToken | null,
+): Promise<string> {
   // Check if user is global admin
-  const isAdmin = await isGlobalAdmin(userId);
+  const isAdmin = await isGlobalAdmin(userId, consistency);
 
   if (isAdmin) {
     return "/admin";
@@ -172,8 +327,11 @@ export async function getUserDashboardRoute(userId: string): Promise<string> {
 /**
  * Check if user can access admin panel
  */
-export async function canAccessAdmin(userId: string): Promise<boolean> {
-  return await isGlobalAdmin(userId);
+export async function canAccessAdmin(
+  userId: string,
+  consistency?: ConsistencyToken | null,
+): Promise<boolean> {
+  return await isGlobalAdmin(userId, consistency);
 }
 
 /**
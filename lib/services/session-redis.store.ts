@@ -0,0 +1,58 @@
+/**
+ * Redis Revocation Store - Shared session revocation list
+ * Logout in a route handler must be seen by the edge middleware and every
+ * other instance, and must survive a restart, so revocations live in Redis:
+ * one key per revoked token ID and one "revoked before" timestamp per user,
+ * each expiring with the longest session it can affect. One MGET per
+ * verification reads both.
+ */
+
+import type { RedisLikeClient } from "./permission-redis.cache";
+import type { RevocationStore, SessionTokenPayload } from "./session.service";
+
+export interface RedisRevocationStoreOptions {
+  keyPrefix?: string;
+}
+
+export class RedisRevocationStore implements RevocationStore {
+  private readonly keyPrefix: string;
+
+  constructor(
+    private readonly client: RedisLikeClient,
+    options: RedisRevocationStoreOptions = {},
+  ) {
+    this.keyPrefix = options.keyPrefix ?? "iam:session:";
+  }
+
+  private tokenKey(jti: string): string {
+    return `${this.keyPrefix}revoked:${jti}`;
+  }
+
+  private userKey(userId: string): string {
+    return `${this.keyPrefix}revoked-before:${userId}`;
+  }
+
+  async revoke(jti: string, expiresAt: number): Promise<void> {
+    const ttlMs = expiresAt * 1000 - Date.now();
+    if (ttlMs <= 0) return;
+    await this.client.set(this.tokenKey(jti), "1", "PX", ttlMs);
+  }
+
+  async revokeUser(
+    userId: string,
+    revokedAt: number,
+    ttlMs: number,
+  ): Promise<void> {
+    await this.client.set(this.userKey(userId), String(revokedAt), "PX", ttlMs);
+  }
+
+  async isRevoked(
+    session: Pick<SessionTokenPayload, "jti" | "userId" | "iat">,
+  ): Promise<boolean> {
+    const [token, revokedBefore] = await this.client.mget(
+      this.tokenKey(session.jti),
+      this.userKey(session.userId),
+    );
+    return token !== null || session.iat <= (Number(revokedBefore) || 0);
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Session Service - Signed sessions for external OAuth logins
+ * Issues and verifies the tamper-proof `simplelogin_session` cookie
+ * Single verifier shared by the edge middleware, pages and API middleware
+ */
+
+import { randomToken, signToken, verifyToken } from "@/lib/signed-token";
+import { getSharedRedis } from "@/lib/redis";
+import { Identity } from "@/lib/types";
+import { RedisRevocationStore } from "./session-redis.store";
+
+export const SESSION_COOKIE_NAME = "simplelogin_session";
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 7; // 7 days in seconds
+
+const SESSION_TOKEN_TYPE = "session";
+
+export interface SessionClaims {
+  userId: string;
+  email: string;
+  name: string;
+  avatar_url?: string;
+  provider: string;
+}
+
+export interface SessionTokenPayload extends SessionClaims {
+  jti: string;
+  // Milliseconds, so a sign-in in the same second as a user revocation
+  // isn't taken for one from before it
+  iat: number;
+  // Seconds
+  exp: number;
+}
+
+// Minimal cookie reader shared by NextRequest.cookies and next/headers cookies()
+export interface CookieReader {
+  get(name: string): { value: string } | undefined;
+}
+
+/**
+ * Server-side revocation list
+ * Single tokens (logout) are kept until the token would have expired anyway;
+ * a user revocation rejects every session of that user issued up to then
+ */
+export interface RevocationStore {
+  revoke(jti: string, expiresAt: number): Promise<void>;
+  revokeUser(userId: string, revokedAt: number, ttlMs: number): Promise<void>;
+  isRevoked(
+    session: Pick<SessionTokenPayload, "jti" | "userId" | "iat">,
+  ): Promise<boolean>;
+}
+
+class InMemoryRevocationStore implements RevocationStore {
+  private revoked = new Map<string, number>();
+  private revokedUsers = new Map<string, { revokedAt: number; until: number }>();
+
+  async revoke(jti: string, expiresAt: number): Promise<void> {
+    this.revoked.set(jti, expiresAt * 1000);
+  }
+
+  async revokeUser(
+    userId: string,
+    revokedAt: number,
+    ttlMs: number,
+  ): Promise<void> {
+    this.revokedUsers.set(userId, { revokedAt, until: Date.now() + ttlMs });
+  }
+
+  async isRevoked(
+    session: Pick<SessionTokenPayload, "jti" | "userId" | "iat">,
+  ): Promise<boolean> {
+    const now = Date.now();
+    const until = this.revoked.get(session.jti);
+    if (until !== undefined && until <= now) {
+      this.revoked.delete(session.jti);
+    } else if (until !== undefined) {
+      return true;
+    }
+
+    const user = this.revokedUsers.get(session.userId);
+    if (user && user.until <= now) {
+      this.revokedUsers.delete(session.userId);
+      return false;
+    }
+    return user !== undefined && session.iat <= user.revokedAt;
+  }
+}
+
+// Shared through Redis when REDIS_REST_URL is set. The in-memory fallback is
+// per process and per runtime: the edge middleware doesn't see revocations
+// made in route handlers, and a restart forgets them (development only).
+let revocationStore: RevocationStore | null = null;
+
+function getRevocationStore(): RevocationStore {
+  if (!revocationStore) {
+    const redis = getSharedRedis();
+    revocationStore = redis
+      ? new RedisRevocationStore(redis)
+      : new InMemoryRevocationStore();
+  }
+  return revocationStore;
+}
+
+/**
+ * Replace the revocation store (e.g. with another shared backend)
+ */
+export function setRevocationStore(store: RevocationStore) {
+  revocationStore = store;
+}
+
+/**
+ * Issue a signed session token for an authenticated user
+ */
+export async function issueSessionToken(
+  claims: SessionClaims,
+  maxAge = SESSION_MAX_AGE,
+): Promise<string> {
+  const now = Date.now();
+
+  return signToken(
+    {
+      userId: claims.userId,
+      email: claims.email,
+      name: claims.name,
+      avatar_url: claims.avatar_url,
+      provider: claims.provider,
+      jti: randomToken(16),
+      iat: now,
+      exp: Math.floor(now / 1000) + maxAge,
+    },
+    SESSION_TOKEN_TYPE,
+  );
+}
+
+/**
+ * Verify a session token: signature, expiry and revocation
+ * Returns null if the token cannot be trusted
+ */
+export async function verifySessionToken(
+  token: string | undefined | null,
+): Promise<SessionTokenPayload | null> {
+  if (!token) {
+    return null;
+  }
+
+  const payload = await verifyToken<SessionTokenPayload>(
+    token,
+    SESSION_TOKEN_TYPE,
+  );
+  if (!payload || !payload.userId || !payload.jti) {
+    return null;
+  }
+
+  // Fail closed: a session that can't be checked against the list is rejected
+  const revoked = await getRevocationStore()
+    .isRevoked(payload)
+    .catch((error) => {
+      console.error("[Session] Revocation check failed:", error);
+      return true;
+    });
+  if (revoked) {
+    return null;
+  }
+
+  return payload;
+}
+
+/**
+ * Revoke a session token so it is rejected even before it expires
+ */
+export async function revokeSessionToken(
+  token: string | undefined | null,
+): Promise<void> {
+  const payload = await verifySessionToken(token);
+  if (payload) {
+    await getRevocationStore().revoke(payload.jti, payload.exp);
+  }
+}
+
+/**
+ * Revoke every session of a user issued until now (deactivation,
+ * offboarding); the user can sign in again afterwards if still allowed to
+ */
+export async function revokeUserSessions(userId: string): Promise<void> {
+  // Kept as long as the longest session issued before it
+  await getRevocationStore().revokeUser(
+    userId,
+    Date.now(),
+    SESSION_MAX_AGE * 1000,
+  );
+}
+
+/**
+ * Read and verify the session cookie
+ */
+export async function getSessionFromCookies(
+  cookies: CookieReader,
+): Promise<SessionTokenPayload | null> {
+  return verifySessionToken(cookies.get(SESSION_COOKIE_NAME)?.value);
+}
+
+/**
+ * Cookie options for the session cookie
+ */
+export function getSessionCookieOptions(maxAge = SESSION_MAX_AGE) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge,
+  };
+}
+
+/**
+ * Build an Identity-shaped object for a session user
+ * External logins do not always have a Kratos identity behind them
+ */
+export function sessionToIdentity(session: SessionTokenPayload): Identity {
+  const issuedAt = new Date(session.iat).toISOString();
+
+  return {
+    id: session.userId,
+    schema_id: "default",
+    schema_url: "",
+    state: "active",
+    state_changed_at: issuedAt,
+    traits: {
+      email: session.email,
+      name: session.name,
+    },
+    metadata_public: {
+      provider: session.provider,
+      avatar_url: session.avatar_url,
+    },
+    created_at: issuedAt,
+    updated_at: issuedAt,
+  };
+}
@@ -6,6 +6,8 @@
  * corresponding Kratos identities for advanced IAM features.
  */
 
+import { syncProviderUserToKratos } from "./identity-sync.service";
+
 export interface SimpleLoginUser {
   userId: string;
   email: string;
@@ -17,118 +19,30 @@ export interface SimpleLoginUser {
  * Sync SimpleLogin user to Kratos (creates or updates identity)
  * This runs in the background and doesn't block the user authentication flow
  *
- * NOTE: This is a simplified version. For full Kratos admin API integration,
- * you'll need to use the Kratos Admin API directly via fetch or use the
- * Identity and Self-Service Admin SDK (@ory/kratos-client)
+ * Delegates to the provider-neutral identity sync service
  */
 export async function syncSimpleLoginUserToKratos(
   user: SimpleLoginUser,
 ): Promise<{ success: boolean; identityId?: string; error?: string }> {
-  try {
-    const kratosAdminUrl = process.env.ORY_KRATOS_ADMIN_URL;
-
-    if (!kratosAdminUrl) {
-      console.warn("ORY_KRATOS_ADMIN_URL not configured, skipping Kratos sync");
-      return { success: false, error: "Admin URL not configured" };
-    }
-
-    // Parse name into first and last
-    const nameParts = user.name.split(" ");
-    const firstName = nameParts[0] || user.name;
-    const lastName = nameParts.slice(1).join(" ") || "";
-
-    // Create identity via Kratos Admin API through gateway
-    // Gateway path /kratos-admin/identities routes to /admin/identities on Kratos
-    const response = await fetch(`${kratosAdminUrl}/kratos-admin/identities`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        schema_id: "default",
-        traits: {
-          email: user.email,
-          name: {
-            first: firstName,
-            last: lastName,
-          },
-        },
-        metadata_public: {
-          provider: "simplelogin",
-          simplelogin_id: user.userId,
-          avatar_url: user.avatar_url,
-          synced_at: new Date().toISOString(),
-        },
-      }),
-    });
-
-    if (response.ok) {
-      const identity = await response.json();
-      console.log(
-        "✅ Kratos identity created for SimpleLogin user:",
-        user.email,
-      );
-      return {
-        success: true,
-        identityId: identity.id,
-      };
-    } else if (response.status === 409 || response.status === 400) {
-      // Identity already exists, look it up by email
-      console.log(
-        "Identity already exists for:",
-        user.email,
-        "- looking it up",
-      );
-
-      try {
-        // List identities and find by email using gateway path
-        const listResponse = await fetch(
-          `${kratosAdminUrl}/kratos-admin/identities?credentials_identifier=${encodeURIComponent(user.email)}`,
-          {
-            method: "GET",
-            headers: {
-              "Content-Type": "application/json",
-            },
-          },
-        );
-
-        if (listResponse.ok) {
-          const identities = await listResponse.json();
-          if (identities && identities.length > 0) {
-            console.log("✅ Found existing Kratos identity:", identities[0].id);
-            return {
-              success: true,
-              identityId: identities[0].id,
-            };
-          }
-        }
-      } catch (lookupError) {
-        console.error("Failed to lookup existing identity:", lookupError);
-      }
+  // Parse name into first and last
+  const nameParts = user.name.split(" ");
+  const firstName = nameParts[0] || user.name;
+  const lastName = nameParts.slice(1).join(" ") || "";
 
-      return {
-        success: true,
-        error: "Identity already exists but couldn't retrieve ID",
-      };
-    } else {
-      const errorText = await response.text();
-      console.error(
-        "Kratos identity creation failed:",
-        response.status,
-        errorText,
-      );
-      return {
-        success: false,
-        error: `HTTP ${response.status}: ${errorText}`,
-      };
-    }
-  } catch (error) {
-    console.error("Failed to sync SimpleLogin user to Kratos:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error",
-    };
-  }
+  return syncProviderUserToKratos("simplelogin", {
+    subject: user.userId,
+    email: user.email,
+    // Not known here, so an existing identity is only matched by its link
+    emailVerified: false,
+    name: {
+      first: firstName,
+      last: lastName,
+    },
+    avatar_url: user.avatar_url,
+    metadata: {
+      simplelogin_id: user.userId,
+    },
+  });
 }
 
 /**
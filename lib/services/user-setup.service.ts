@@ -12,8 +12,10 @@ import {
   createDefaultOrg,
 } from "@/lib/keto";
 import { logAudit } from "./audit.service";
+import { ensureOrganization } from "./organization.service";
 
 const DEFAULT_ORG_ID = process.env.DEFAULT_ORG_ID || "default-org";
+const DEFAULT_ORG_NAME = process.env.DEFAULT_ORG_NAME || "Default Organization";
 const DEFAULT_USER_ROLE: "owners" | "admins" | "members" | "viewers" =
   "members";
 
@@ -37,7 +39,6 @@ export async function assignDefaultPermissions(
     }
 
     // Ensure default organization exists (idempotent operation)
-    // In production, you'd check if the org exists first
     await ensureDefaultOrgExists();
 
     // Add user to default organization as a member
@@ -79,22 +80,11 @@ export async function assignDefaultPermissions(
 
 /**
  * Ensure the default organization exists
- * In a real system, you would:
- * 1. Check if the org exists in your database
- * 2. Create it if it doesn't exist
- * 3. Set up the org with appropriate metadata
+ * Creates its metadata record on first use; members are added by the caller
  */
 async function ensureDefaultOrgExists(): Promise<void> {
-  // This is a placeholder. In production, you would:
-  // - Check a database to see if the org exists
-  // - Create the org record in your database
-  // - Set up the org's Keto relationships
-
-  // For now, we'll just log
   console.log(`[User Setup] Ensuring default org ${DEFAULT_ORG_ID} exists`);
-
-  // The org should already exist in Keto with proper relationships
-  // If not, you would create it here with an admin owner
+  await ensureOrganization(DEFAULT_ORG_ID, DEFAULT_ORG_NAME);
 }
 
 /**
@@ -106,6 +96,7 @@ export async function createUserOrganization(
   ownerId: string,
 ): Promise<boolean> {
   try {
+    await ensureOrganization(orgId, orgId, ownerId);
     const success = await createDefaultOrg(orgId, ownerId);
 
     if (success) {
@@ -0,0 +1,169 @@
+// Signed token helpers (HMAC-SHA256, compact JWS-style encoding)
+// Uses Web Crypto so the same code runs in Edge middleware and Node routes.
+
+export interface SigningKey {
+  id: string;
+  secret: string;
+}
+
+export interface SignedTokenHeader {
+  alg: "HS256";
+  kid: string;
+  typ: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const importedKeys = new Map<string, CryptoKey>();
+
+// Load signing keys from the environment.
+// SESSION_SIGNING_KEYS="key2:secret2,key1:secret1" - the first key signs new
+// tokens, the remaining keys are still accepted so old tokens survive rotation.
+// SESSION_SECRET is accepted as a single key named "default".
+export function getSigningKeys(): SigningKey[] {
+  const configured = process.env.SESSION_SIGNING_KEYS;
+
+  if (configured) {
+    return configured
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const separator = entry.indexOf(":");
+        if (separator <= 0) {
+          throw new Error(
+            "SESSION_SIGNING_KEYS entries must be formatted as <key-id>:<secret>",
+          );
+        }
+        return {
+          id: entry.slice(0, separator),
+          secret: entry.slice(separator + 1),
+        };
+      });
+  }
+
+  if (process.env.SESSION_SECRET) {
+    return [{ id: "default", secret: process.env.SESSION_SECRET }];
+  }
+
+  return [];
+}
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function encodeJson(value: unknown): string {
+  return base64UrlEncode(encoder.encode(JSON.stringify(value)));
+}
+
+function decodeJson<T>(value: string): T {
+  return JSON.parse(decoder.decode(base64UrlDecode(value))) as T;
+}
+
+async function importKey(key: SigningKey): Promise<CryptoKey> {
+  const cacheKey = `${key.id}:${key.secret}`;
+  const cached = importedKeys.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(key.secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+  importedKeys.set(cacheKey, cryptoKey);
+  return cryptoKey;
+}
+
+// Random URL-safe identifier (token IDs, OAuth state, nonces)
+export function randomToken(byteLength = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+// Sign a payload with the active key. `typ` separates token kinds so a token
+// issued for one purpose can never be accepted for another.
+export async function signToken(
+  payload: Record<string, unknown>,
+  typ: string,
+): Promise<string> {
+  const [activeKey] = getSigningKeys();
+  if (!activeKey) {
+    throw new Error(
+      "SESSION_SIGNING_KEYS (or SESSION_SECRET) environment variable is not set",
+    );
+  }
+
+  const header: SignedTokenHeader = { alg: "HS256", kid: activeKey.id, typ };
+  const signingInput = `${encodeJson(header)}.${encodeJson(payload)}`;
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(activeKey),
+    encoder.encode(signingInput),
+  );
+
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// Verify signature, token kind and `exp` (seconds since epoch).
+// Returns null for anything that is not a valid, unexpired token.
+export async function verifyToken<T extends { exp: number }>(
+  token: string,
+  typ: string,
+): Promise<T | null> {
+  try {
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+      return null;
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = decodeJson<SignedTokenHeader>(encodedHeader);
+    if (header.alg !== "HS256" || header.typ !== typ) {
+      return null;
+    }
+
+    const key = getSigningKeys().find((k) => k.id === header.kid);
+    if (!key) {
+      return null;
+    }
+
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await importKey(key),
+      base64UrlDecode(encodedSignature),
+      encoder.encode(`${encodedHeader}.${encodedPayload}`),
+    );
+    if (!valid) {
+      return null;
+    }
+
+    const payload = decodeJson<T>(encodedPayload);
+    if (typeof payload.exp !== "number" || payload.exp * 1000 <= Date.now()) {
+      return null;
+    }
+
+    return payload;
+  } catch (error) {
+    console.error("[SignedToken] Failed to verify token:", error);
+    return null;
+  }
+}
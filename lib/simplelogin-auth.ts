@@ -69,20 +69,5 @@ export async function createOrySession(
   }
 }
 
-/**
- * Validate OAuth state parameter to prevent CSRF attacks
- *
- * @param receivedState - State parameter received from OAuth callback
- * @param storedState - State parameter stored before OAuth redirect
- * @returns true if state is valid, false otherwise
- */
-export function validateOAuthState(
-  receivedState: string | null,
-  storedState: string | null,
-): boolean {
-  if (!receivedState || !storedState) {
-    return false;
-  }
-
-  return receivedState === storedState;
-}
+// OAuth state validation lives with the provider-neutral flow helpers
+export { validateOAuthState } from "@/lib/oauth-flow";
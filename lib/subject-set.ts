@@ -0,0 +1,89 @@
+/**
+ * Keto subject helpers
+ *
+ * A tuple subject is either a subject ID (a user ID) or a subject set,
+ * which this app encodes as a string "Namespace:object#relation"
+ * (e.g. "Group:engineering#members"). These helpers convert between that
+ * encoding and the shapes the Keto REST API expects.
+ */
+
+import { SubjectSet } from "@/lib/types";
+
+const SUBJECT_SET_PATTERN = /^([A-Za-z][\w-]*):([^#:]+)#([\w-]+)$/;
+
+/**
+ * Parse an encoded subject set, or return null for a plain subject ID
+ */
+export function parseSubjectSet(subject: string): SubjectSet | null {
+  const match = SUBJECT_SET_PATTERN.exec(subject);
+  if (!match) {
+    return null;
+  }
+  return { namespace: match[1], object: match[2], relation: match[3] };
+}
+
+export function formatSubjectSet(subjectSet: SubjectSet): string {
+  return `${subjectSet.namespace}:${subjectSet.object}#${subjectSet.relation}`;
+}
+
+export function isSubjectSet(subject: string): boolean {
+  return parseSubjectSet(subject) !== null;
+}
+
+/**
+ * A subject is valid when it is a subject set, or a subject ID that cannot
+ * be mistaken for a malformed one
+ */
+export function isValidSubject(subject: string): boolean {
+  if (!subject) return false;
+  return isSubjectSet(subject) || !/[:#]/.test(subject);
+}
+
+/**
+ * Subject as JSON body fields (check, create)
+ */
+export function subjectToApiBody(
+  subject: string,
+): { subject_id: string } | { subject_set: SubjectSet } {
+  const subjectSet = parseSubjectSet(subject);
+  return subjectSet ? { subject_set: subjectSet } : { subject_id: subject };
+}
+
+/**
+ * Subject as query parameters (check, list, delete)
+ */
+export function subjectToApiParams(subject: string): Record<string, string> {
+  const subjectSet = parseSubjectSet(subject);
+  if (!subjectSet) {
+    return { subject_id: subject };
+  }
+  return {
+    "subject_set.namespace": subjectSet.namespace,
+    "subject_set.object": subjectSet.object,
+    "subject_set.relation": subjectSet.relation,
+  };
+}
+
+// Relation tuple as returned by the Keto API
+export interface ApiRelationTuple {
+  namespace: string;
+  object: string;
+  relation: string;
+  subject_id?: string | { id?: string };
+  subject_set?: SubjectSet;
+}
+
+/**
+ * Encode the subject of a tuple returned by the Keto API
+ */
+export function subjectFromApi(
+  tuple: Pick<ApiRelationTuple, "subject_id" | "subject_set">,
+): string {
+  if (tuple.subject_set) {
+    return formatSubjectSet(tuple.subject_set);
+  }
+  if (typeof tuple.subject_id === "object") {
+    return tuple.subject_id?.id || "";
+  }
+  return tuple.subject_id || "";
+}
@@ -1,3 +1,5 @@
+import { KetoNamespace, KetoPermission, KetoRelation } from "./keto.generated";
+
 // API Response types
 export interface ApiResponse<T = unknown> {
   data?: T;
@@ -13,6 +15,8 @@ export interface PaginatedResponse<T> {
     perPage: number;
     total?: number;
     hasMore?: boolean;
+    // Token-paged lists (Keto, Kratos): pass back to get the next page
+    nextPageToken?: string;
   };
 }
 
@@ -27,6 +31,18 @@ export interface Identity {
   verifiable_addresses?: VerifiableAddress[];
   recovery_addresses?: RecoveryAddress[];
   metadata_public?: Record<string, any>;
+  // Admin API only, never shown to the user
+  metadata_admin?: Record<string, unknown>;
+  // Only present when requested with include_credential
+  credentials?: Record<string, IdentityCredential>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface IdentityCredential {
+  type: string;
+  identifiers: string[];
+  version?: number;
   created_at: string;
   updated_at: string;
 }
@@ -54,20 +70,81 @@ export interface CreateIdentityRequest {
   traits: Record<string, any>;
   state?: string;
   metadata_public?: Record<string, any>;
+  metadata_admin?: Record<string, unknown>;
+  // Initial password, plain or as a hash migrated from another system
+  credentials?: {
+    password?: {
+      config: { password?: string; hashed_password?: string };
+    };
+  };
 }
 
-// Permission types (Ory Keto)
-export interface RelationTuple {
+// Permission types (Ory Keto), checked against keto/namespaces.keto.ts
+// A namespace object and one of that namespace's relations
+export type RelationTarget<N extends KetoNamespace = KetoNamespace> = {
+  [K in N]: { namespace: K; object: string; relation: KetoRelation<K> };
+}[N];
+
+// A namespace object and one of that namespace's relations or permissions
+export type PermissionTarget<N extends KetoNamespace = KetoNamespace> = {
+  [K in N]: {
+    namespace: K;
+    object: string;
+    relation: KetoRelation<K> | KetoPermission<K>;
+  };
+}[N];
+
+// A stored tuple: subject ID (user ID) or subject set encoded as
+// "Namespace:object#relation"
+export type RelationTuple<N extends KetoNamespace = KetoNamespace> =
+  RelationTarget<N> & { subject: string };
+
+// A permission check, which may also ask for a computed permission
+export type PermissionQuery<N extends KetoNamespace = KetoNamespace> =
+  PermissionTarget<N> & { subject: string };
+
+// Every subject that has `relation` on `namespace:object`
+// (e.g. Group:engineering#members)
+export interface SubjectSet {
   namespace: string;
   object: string;
   relation: string;
-  subject: string;
 }
 
 export interface PermissionCheck {
   allowed: boolean;
 }
 
+// Node of a Keto expand tree ("union", "exclusion", "intersection",
+// "leaf", "tuple_to_subject_set", "computed_subject_set", ...)
+export interface PermissionTreeNode {
+  type: string;
+  // User ID or subject set "Namespace:object#relation"
+  subject: string;
+  children: PermissionTreeNode[];
+  // Set by explain: the subject being explained is here or below
+  grants?: boolean;
+}
+
+// Why a subject does or does not have a relation / permission
+export interface PermissionExplanation {
+  query: PermissionQuery;
+  // Keto's check result (authoritative)
+  allowed: boolean;
+  // Expand tree of namespace:object#relation, null if Keto has nothing
+  tree: PermissionTreeNode | null;
+  // Subjects from the root down to the explained subject, one per route
+  paths: string[][];
+}
+
+// Returned by a grant / revoke: checks carrying it must be at least as fresh
+// as that write (see lib/consistency.ts)
+export interface ConsistencyToken {
+  // Epoch ms of the write
+  writtenAt: number;
+  snaptoken?: string;
+}
+
 export interface PermissionRequest {
   namespace: string;
   object: string;
@@ -75,6 +152,45 @@ export interface PermissionRequest {
   subject: string;
 }
 
+// Organization types (metadata stored by the app, membership in Keto)
+export type OrgRole = KetoRelation<"Organization">;
+
+export type OrgPermission = KetoPermission<"Organization">;
+
+export interface Organization {
+  id: string;
+  name: string;
+  description?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type OrgMembers = Record<OrgRole, string[]>;
+
+export interface CreateOrganizationRequest {
+  id?: string;
+  name: string;
+  description?: string;
+  ownerId?: string;
+}
+
+// Group types (membership via Keto subject sets, Group:<id>#members)
+export interface Group {
+  id: string;
+  // Direct user members
+  members: string[];
+  // Nested groups whose members are also members of this group
+  subgroups: string[];
+}
+
+export interface GroupDetail extends Group {
+  // Groups this group is nested in
+  parents: string[];
+  // Permissions granted to the group's members (subject Group:<id>#members)
+  grants: RelationTuple[];
+}
+
 // Session types
 export interface Session {
   id: string;
@@ -85,6 +201,27 @@ export interface Session {
   identity: Identity;
 }
 
+// JSON Patch operation (PATCH /admin/identities/{id})
+export interface JsonPatchOperation {
+  op: "add" | "remove" | "replace";
+  path: string;
+  value?: unknown;
+}
+
+// Courier message (Kratos email/SMS queue)
+export interface CourierMessage {
+  id: string;
+  status: "queued" | "sent" | "processing" | "abandoned";
+  type: "email" | "phone";
+  recipient: string;
+  subject: string;
+  body: string;
+  template_type: string;
+  send_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
 // Error types
 export interface ApiError {
   error: string;
@@ -100,4 +237,6 @@ export interface UserContext {
   permissions?: string[];
   roles?: string[];
   sessionId: string;
+  // From the caller's most recent permission write, if any
+  consistency?: ConsistencyToken | null;
 }
@@ -0,0 +1,41 @@
+/**
+ * Keto namespace model types
+ * Generated from keto/namespaces.keto.ts by scripts/generate-keto-types.ts
+ * Do not edit by hand: run `npm run keto:types` after changing the model
+ */
+
+export const KETO_NAMESPACES = {
+  User: {
+    relations: [],
+    permissions: [],
+  },
+  Group: {
+    relations: ["members"],
+    permissions: [],
+  },
+  GlobalRole: {
+    relations: ["members"],
+    permissions: [],
+  },
+  Organization: {
+    relations: ["owners", "admins", "members", "viewers"],
+    permissions: [
+      "manage_org",
+      "manage_roles",
+      "manage_users",
+      "manage_groups",
+      "is_member",
+      "view_org",
+    ],
+  },
+} as const;
+
+export type KetoNamespace = keyof typeof KETO_NAMESPACES;
+
+// Relations stored in tuples (what grants write)
+export type KetoRelation<N extends KetoNamespace> =
+  (typeof KETO_NAMESPACES)[N]["relations"][number];
+
+// Computed permissions (permits), only valid in checks
+export type KetoPermission<N extends KetoNamespace> =
+  (typeof KETO_NAMESPACES)[N]["permissions"][number];
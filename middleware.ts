@@ -7,6 +7,8 @@ import {
   getUserDashboardRoute,
 } from "@/lib/services/permission.service";
 import { logAccessDenied } from "@/lib/services/audit.service";
+import { getSessionFromCookies } from "@/lib/services/session.service";
+import { getConsistencyToken } from "@/lib/consistency";
 
 // Create Ory proxy middleware for authentication flows
 const oryProxy = createOryMiddleware(oryConfig);
@@ -22,7 +24,7 @@ const PROTECTED_ROUTES = {
     requiredAuth: true,
   },
   api: {
-    pattern: /^\/api\/(admin|protected)/,
+    pattern: /^\/api\/(admin|orgs|protected)/,
     requiredAuth: true,
   },
 };
@@ -34,6 +36,8 @@ const PUBLIC_ROUTES = [
   /^\/_next/,
   /^\/favicon/,
   /^\/api\/auth/,
+  // Signed by the edge middleware itself (audit forwarding)
+  /^\/api\/internal\//,
 ];
 
 export async function middleware(request: NextRequest) {
@@ -59,28 +63,12 @@ export async function middleware(request: NextRequest) {
 
   // 3. For protected routes, check authentication
   try {
-    // Check for SimpleLogin session first
-    const simpleLoginSession = request.cookies.get("simplelogin_session");
+    // Check for a signed SimpleLogin session first
+    const simpleLoginSession = await getSessionFromCookies(request.cookies);
     let userId: string | null = null;
 
     if (simpleLoginSession) {
-      try {
-        const sessionData = JSON.parse(simpleLoginSession.value);
-        if (
-          sessionData.authenticated &&
-          sessionData.provider === "simplelogin"
-        ) {
-          userId = sessionData.userId;
-          console.log(
-            `[Middleware] SimpleLogin session found for user ${userId}`,
-          );
-        }
-      } catch (error) {
-        console.error(
-          "[Middleware] Failed to parse SimpleLogin session:",
-          error,
-        );
-      }
+      userId = simpleLoginSession.userId;
     }
 
     // Fall back to Ory session if no SimpleLogin session
@@ -97,9 +85,12 @@ export async function middleware(request: NextRequest) {
       userId = session.identity.id;
     }
 
+    // Set after the user changed permissions, so checks see that write
+    const consistency = await getConsistencyToken(request);
+
     // Check if trying to access admin panel
     if (PROTECTED_ROUTES.admin.pattern.test(pathname)) {
-      const hasAdminAccess = await canAccessAdmin(userId);
+      const hasAdminAccess = await canAccessAdmin(userId, consistency);
 
       if (!hasAdminAccess) {
         console.log(
@@ -123,13 +114,13 @@ export async function middleware(request: NextRequest) {
 
     // Check if accessing login page or home while authenticated - redirect to appropriate dashboard
     if (pathname === "/auth/login" || pathname === "/") {
-      const dashboardRoute = await getUserDashboardRoute(userId);
+      const dashboardRoute = await getUserDashboardRoute(userId, consistency);
       return NextResponse.redirect(new URL(dashboardRoute, request.url));
     }
 
     // Check if admin trying to access regular dashboard - redirect to admin panel
     if (pathname === "/dashboard") {
-      const hasAdminAccess = await canAccessAdmin(userId);
+      const hasAdminAccess = await canAccessAdmin(userId, consistency);
       if (hasAdminAccess) {
         return NextResponse.redirect(new URL("/admin", request.url));
       }
@@ -0,0 +1,167 @@
+/**
+ * Generate TypeScript types from the Keto namespace model
+ *
+ * Usage: npm run keto:types            (writes lib/types/keto.generated.ts)
+ *        npm run keto:types -- --check (exits with status 1 if out of date)
+ * Reads keto/namespaces.keto.ts: every class implementing Namespace becomes
+ * a namespace, its `related` keys relations and its `permits` keys
+ * permissions.
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import ts from "typescript";
+
+const ROOT = path.resolve(__dirname, "..");
+const MODEL_FILE = "keto/namespaces.keto.ts";
+const OUTPUT_FILE = "lib/types/keto.generated.ts";
+
+interface NamespaceModel {
+  name: string;
+  relations: string[];
+  permissions: string[];
+}
+
+function propertyName(name: ts.PropertyName): string {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name)) {
+    return name.text;
+  }
+  throw new Error(`Unsupported property name: ${name.getText()}`);
+}
+
+function implementsNamespace(node: ts.ClassDeclaration): boolean {
+  return (node.heritageClauses || []).some(
+    (clause) =>
+      clause.token === ts.SyntaxKind.ImplementsKeyword &&
+      clause.types.some((type) => type.expression.getText() === "Namespace"),
+  );
+}
+
+function parseNamespace(node: ts.ClassDeclaration): NamespaceModel {
+  const model: NamespaceModel = {
+    name: node.name!.text,
+    relations: [],
+    permissions: [],
+  };
+
+  for (const member of node.members) {
+    if (!ts.isPropertyDeclaration(member)) continue;
+    const name = propertyName(member.name);
+
+    if (
+      name === "related" &&
+      member.type &&
+      ts.isTypeLiteralNode(member.type)
+    ) {
+      for (const relation of member.type.members) {
+        if (relation.name) model.relations.push(propertyName(relation.name));
+      }
+    }
+
+    if (
+      name === "permits" &&
+      member.initializer &&
+      ts.isObjectLiteralExpression(member.initializer)
+    ) {
+      for (const permit of member.initializer.properties) {
+        if (permit.name) model.permissions.push(propertyName(permit.name));
+      }
+    }
+  }
+
+  return model;
+}
+
+function parseModel(source: string): NamespaceModel[] {
+  const file = ts.createSourceFile(
+    MODEL_FILE,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+  );
+
+  return file.statements
+    .filter(ts.isClassDeclaration)
+    .filter(implementsNamespace)
+    .map(parseNamespace);
+}
+
+function formatList(key: string, values: string[]): string[] {
+  const quoted = values.map((value) => JSON.stringify(value));
+  const inline = `    ${key}: [${quoted.join(", ")}],`;
+  if (inline.length <= 80) return [inline];
+  return [
+    `    ${key}: [`,
+    ...quoted.map((value) => `      ${value},`),
+    "    ],",
+  ];
+}
+
+function render(namespaces: NamespaceModel[]): string {
+  const lines = [
+    "/**",
+    " * Keto namespace model types",
+    ` * Generated from ${MODEL_FILE} by scripts/generate-keto-types.ts`,
+    " * Do not edit by hand: run `npm run keto:types` after changing the model",
+    " */",
+    "",
+    "export const KETO_NAMESPACES = {",
+  ];
+
+  for (const namespace of namespaces) {
+    lines.push(`  ${namespace.name}: {`);
+    lines.push(...formatList("relations", namespace.relations));
+    lines.push(...formatList("permissions", namespace.permissions));
+    lines.push("  },");
+  }
+
+  lines.push(
+    "} as const;",
+    "",
+    "export type KetoNamespace = keyof typeof KETO_NAMESPACES;",
+    "",
+    "// Relations stored in tuples (what grants write)",
+    "export type KetoRelation<N extends KetoNamespace> =",
+    '  (typeof KETO_NAMESPACES)[N]["relations"][number];',
+    "",
+    "// Computed permissions (permits), only valid in checks",
+    "export type KetoPermission<N extends KetoNamespace> =",
+    '  (typeof KETO_NAMESPACES)[N]["permissions"][number];',
+    "",
+  );
+
+  return lines.join("\n");
+}
+
+async function main() {
+  const source = await readFile(path.join(ROOT, MODEL_FILE), "utf8");
+  const namespaces = parseModel(source);
+
+  if (namespaces.length === 0) {
+    throw new Error(`No namespaces found in ${MODEL_FILE}`);
+  }
+
+  const output = render(namespaces);
+  const outputPath = path.join(ROOT, OUTPUT_FILE);
+
+  if (process.argv.includes("--check")) {
+    const current = await readFile(outputPath, "utf8").catch(() => "");
+    if (current !== output) {
+      console.error(`❌ ${OUTPUT_FILE} is out of date, run npm run keto:types`);
+      process.exitCode = 1;
+      return;
+    }
+    console.log(`✅ ${OUTPUT_FILE} is up to date`);
+    return;
+  }
+
+  await writeFile(outputPath, output);
+  console.log(
+    `✅ Wrote ${OUTPUT_FILE} (${namespaces.map((n) => n.name).join(", ")})`,
+  );
+}
+
+main().catch((error) => {
+  console.error("Failed to generate Keto types:", error);
+  process.exitCode = 1;
+});
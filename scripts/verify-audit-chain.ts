@@ -0,0 +1,45 @@
+/**
+ * Verify the audit trail's hash chain
+ *
+ * Usage: npm run audit:verify
+ * Reads AUDIT_LOG_FILE (default data/audit/audit.jsonl) with AUDIT_CHAIN_KEY
+ * and exits with status 1 when a link in the chain is broken or entries are
+ * missing from its end.
+ */
+
+import { verifyAuditChain } from "../lib/services/audit.service";
+
+async function main() {
+  const result = await verifyAuditChain();
+
+  if (result.valid) {
+    console.log(`✅ Audit chain intact (${result.checked} entries checked)`);
+    if (result.head) {
+      console.log(`   head: #${result.head.count} ${result.head.hash}`);
+    }
+    return;
+  }
+
+  if (result.truncated) {
+    const { head, found } = result.truncated;
+    console.error(`❌ Audit chain truncated`);
+    console.error(`   recorded head: #${head.count} ${head.hash}`);
+    console.error(`   chain matches up to entry #${found}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const broken = result.brokenAt!;
+  console.error(`❌ Audit chain broken at entry #${broken.index}`);
+  console.error(`   id:        ${broken.id}`);
+  console.error(`   timestamp: ${broken.timestamp}`);
+  console.error(`   reason:    ${broken.reason}`);
+  console.error(`   expected:  ${broken.expected}`);
+  console.error(`   actual:    ${broken.actual}`);
+  process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error("Failed to verify audit chain:", error);
+  process.exitCode = 1;
+});
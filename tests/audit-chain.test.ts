@@ -0,0 +1,131 @@
+/**
+ * Audit chain: entries are linked with a keyed hash and entries removed
+ * from the end of the log are reported
+ */
+
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  AuditChainHead,
+  AuditQuery,
+  AuditQueryResult,
+  AuditSink,
+  StoredAuditLogEntry,
+  applyAuditQuery,
+  computeAuditHash,
+  logAudit,
+  setAuditSink,
+  verifyAuditChain,
+} from "@/lib/services/audit.service";
+import { register } from "@/instrumentation";
+
+process.env.AUDIT_CHAIN_KEY = "test-audit-chain-key";
+
+// Memory sink whose stored entries and head the tests can rewrite
+class EditableAuditSink implements AuditSink {
+  stored: StoredAuditLogEntry[] = [];
+  head: AuditChainHead | null = null;
+
+  async write(entry: StoredAuditLogEntry): Promise<void> {
+    this.stored.push(entry);
+  }
+
+  async query(query: AuditQuery): Promise<AuditQueryResult> {
+    return applyAuditQuery(this.stored, query);
+  }
+
+  async *entries(): AsyncGenerator<StoredAuditLogEntry> {
+    yield* this.stored;
+  }
+
+  async readHead(): Promise<AuditChainHead | null> {
+    return this.head;
+  }
+
+  async writeHead(head: AuditChainHead): Promise<void> {
+    this.head = head;
+  }
+}
+
+let sink: EditableAuditSink;
+
+async function logEvents(count: number): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    await logAudit({
+      userId: "admin",
+      action: `action-${i}`,
+      resource: "test",
+      result: "success",
+    });
+  }
+}
+
+beforeEach(() => {
+  sink = new EditableAuditSink();
+  setAuditSink(sink);
+});
+
+describe("verifyAuditChain", () => {
+  test("accepts an untouched chain and reports its head", async () => {
+    await logEvents(3);
+    const result = await verifyAuditChain();
+    assert.equal(result.valid, true);
+    assert.equal(result.checked, 3);
+    assert.deepEqual(result.head, { count: 3, hash: sink.stored[2].hash });
+  });
+
+  test("rejects an entry rehashed without the key", async () => {
+    await logEvents(2);
+    const key = process.env.AUDIT_CHAIN_KEY;
+    process.env.AUDIT_CHAIN_KEY = "attacker-guess";
+    try {
+      const edited = { ...sink.stored[1], result: "failure" as const };
+      sink.stored[1] = { ...edited, hash: await computeAuditHash(edited) };
+    } finally {
+      process.env.AUDIT_CHAIN_KEY = key;
+    }
+
+    const result = await verifyAuditChain();
+    assert.equal(result.valid, false);
+    assert.equal(result.brokenAt?.index, 1);
+    assert.equal(result.brokenAt?.reason, "hash_mismatch");
+  });
+
+  test("reports entries removed from the end", async () => {
+    await logEvents(3);
+    sink.stored.pop();
+
+    const result = await verifyAuditChain();
+    assert.equal(result.valid, false);
+    assert.equal(result.brokenAt, undefined);
+    assert.deepEqual(result.truncated, { head: sink.head, found: 2 });
+  });
+
+  test("keeps reporting a truncation after the chain continues", async () => {
+    await logEvents(3);
+    sink.stored.pop();
+    const head = sink.head;
+
+    // A restarted process picks up the chain from the shortened log
+    setAuditSink(sink);
+    await logEvents(2);
+
+    assert.deepEqual(sink.head, head);
+    const result = await verifyAuditChain();
+    assert.equal(result.valid, false);
+    assert.equal(result.truncated?.found, 3);
+  });
+});
+
+describe("server startup", () => {
+  test("refuses to start without AUDIT_CHAIN_KEY", async () => {
+    const key = process.env.AUDIT_CHAIN_KEY;
+    delete process.env.AUDIT_CHAIN_KEY;
+    try {
+      await assert.rejects(register(), /AUDIT_CHAIN_KEY/);
+    } finally {
+      process.env.AUDIT_CHAIN_KEY = key;
+    }
+  });
+});
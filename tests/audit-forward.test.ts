@@ -0,0 +1,97 @@
+/**
+ * Audit events logged in the Edge runtime reach the Node sink through the
+ * signed forward to /api/internal/audit
+ */
+
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { NextRequest } from "next/server";
+
+import { POST } from "@/app/api/internal/audit/route";
+import {
+  MemoryAuditSink,
+  StoredAuditLogEntry,
+  setAuditSink,
+} from "@/lib/services/audit.service";
+import { ForwardingAuditSink } from "@/lib/services/audit-forward.sink";
+
+// Forwarded events are signed with the session keys
+process.env.SESSION_SECRET = "test-session-secret-0123456789abcdef";
+process.env.AUDIT_CHAIN_KEY = "test-audit-chain-key";
+
+let nodeSink: MemoryAuditSink;
+let url: string;
+
+// Stand-in for the Node server: hands each request to the route handler
+const server: Server = createServer(async (request, response) => {
+  let body = "";
+  for await (const chunk of request) body += chunk;
+  const result = await POST(
+    new NextRequest("http://app.test/api/internal/audit", {
+      method: "POST",
+      body,
+    }),
+  );
+  response.writeHead(result.status);
+  response.end(await result.text());
+});
+
+function edgeEntry(): StoredAuditLogEntry {
+  return {
+    id: "edge-id",
+    userId: "user-1",
+    action: "access_denied",
+    resource: "/admin",
+    result: "denied",
+    timestamp: "2026-10-19T10:00:00.000Z",
+    ipAddress: "10.0.0.1",
+    metadata: { reason: "Not a global admin" },
+    prevHash: "edge-prev",
+    hash: "edge-hash",
+  };
+}
+
+before(async () => {
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", resolve),
+  );
+  const { port } = server.address() as AddressInfo;
+  url = `http://127.0.0.1:${port}/api/internal/audit`;
+});
+
+beforeEach(() => {
+  nodeSink = new MemoryAuditSink();
+  setAuditSink(nodeSink);
+});
+
+after(() => {
+  server.close();
+});
+
+describe("ForwardingAuditSink", () => {
+  test("writes edge events to the Node sink and chain", async () => {
+    await new ForwardingAuditSink(url).write(edgeEntry());
+
+    const { entries } = await nodeSink.query({});
+    assert.equal(entries.length, 1);
+    const [stored] = entries;
+    assert.equal(stored.action, "access_denied");
+    assert.equal(stored.userId, "user-1");
+    assert.equal(stored.timestamp, "2026-10-19T10:00:00.000Z");
+    assert.deepEqual(stored.metadata, { reason: "Not a global admin" });
+    // Chained on the Node side, not with the edge's hashes
+    assert.notEqual(stored.hash, "edge-hash");
+    assert.notEqual(stored.prevHash, "edge-prev");
+  });
+
+  test("the ingest route rejects unsigned events", async () => {
+    const response = await fetch(url, {
+      method: "POST",
+      body: JSON.stringify(edgeEntry()),
+    });
+    assert.equal(response.status, 401);
+    assert.equal((await nodeSink.query({})).total, 0);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Consistency tokens: only tokens this app signed after a write are read
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  CONSISTENCY_COOKIE_MAX_AGE,
+  formatConsistencyToken,
+  parseConsistencyToken,
+} from "@/lib/consistency";
+import { base64UrlEncode } from "@/lib/signed-token";
+
+// Tokens are signed with the session keys
+process.env.SESSION_SECRET = "test-session-secret-0123456789abcdef";
+
+function encodeJson(value: unknown): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+describe("consistency tokens", () => {
+  test("round-trips a signed token", async () => {
+    const token = { writtenAt: Date.now(), snaptoken: "snap-1" };
+    assert.deepEqual(
+      await parseConsistencyToken(await formatConsistencyToken(token)),
+      token,
+    );
+  });
+
+  test("ignores the old unsigned format", async () => {
+    assert.equal(await parseConsistencyToken(String(Date.now())), null);
+    assert.equal(
+      await parseConsistencyToken(`${Date.now() + 3600000}:snap-1`),
+      null,
+    );
+  });
+
+  test("ignores a token with a forged payload", async () => {
+    const signed = await formatConsistencyToken({ writtenAt: Date.now() });
+    const [header, , signature] = signed.split(".");
+    const forged = encodeJson({
+      writtenAt: Date.now() + 3600000,
+      exp: Math.floor(Date.now() / 1000) + 3600,
+    });
+    assert.equal(
+      await parseConsistencyToken(`${header}.${forged}.${signature}`),
+      null,
+    );
+  });
+
+  test("ignores a token past the cookie lifetime", async () => {
+    const writtenAt = Date.now() - (CONSISTENCY_COOKIE_MAX_AGE + 5) * 1000;
+    assert.equal(
+      await parseConsistencyToken(await formatConsistencyToken({ writtenAt })),
+      null,
+    );
+  });
+});
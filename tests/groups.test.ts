@@ -0,0 +1,76 @@
+/**
+ * Nested groups: nesting stays acyclic, directly and through other groups
+ * (stand-in Keto)
+ */
+
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import { MemoryAuditSink, setAuditSink } from "@/lib/services/audit.service";
+import {
+  addGroupMember,
+  getGroup,
+  groupSubject,
+} from "@/lib/services/group.service";
+import {
+  KetoStandIn,
+  StandIn,
+  startStandIns,
+  useKetoStandIn,
+} from "./helpers/stand-in";
+
+process.env.AUDIT_CHAIN_KEY = "test-audit-chain-key";
+
+const keto = new KetoStandIn();
+let standIn: StandIn;
+
+before(async () => {
+  standIn = await startStandIns(keto);
+  useKetoStandIn(standIn);
+});
+
+beforeEach(() => {
+  keto.reset();
+  setAuditSink(new MemoryAuditSink());
+});
+
+after(() => standIn.close());
+
+function nest(parent: string, child: string) {
+  return addGroupMember(parent, groupSubject(child), "admin");
+}
+
+describe("addGroupMember", () => {
+  test("nests a group and reports it on both sides", async () => {
+    await addGroupMember("engineering", "alice", "admin");
+    const group = await nest("staff", "engineering");
+
+    assert.deepEqual(group.subgroups, ["engineering"]);
+    assert.deepEqual((await getGroup("engineering")).parents, ["staff"]);
+  });
+
+  test("rejects a group containing itself", async () => {
+    await assert.rejects(nest("staff", "staff"), /cannot contain itself/);
+  });
+
+  test("rejects a direct cycle", async () => {
+    await nest("staff", "engineering");
+    await assert.rejects(nest("engineering", "staff"), /cycle/);
+  });
+
+  test("rejects a cycle through other groups", async () => {
+    await nest("staff", "engineering");
+    await nest("engineering", "backend");
+    await assert.rejects(nest("backend", "staff"), /cycle/);
+    assert.equal(keto.tuples.length, 2);
+  });
+
+  test("allows the same group under two parents", async () => {
+    await nest("staff", "engineering");
+    await nest("contractors", "engineering");
+    assert.deepEqual((await getGroup("engineering")).parents.sort(), [
+      "contractors",
+      "staff",
+    ]);
+  });
+});
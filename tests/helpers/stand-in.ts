@@ -0,0 +1,491 @@
+/**
+ * Local stand-ins for the services the app talks to over HTTP (Kratos
+ * admin API, Keto, OIDC providers), and identities to serve from them
+ */
+
+import { IncomingMessage, ServerResponse, createServer } from "node:http";
+import { AddressInfo } from "node:net";
+
+import {
+  KetoClient,
+  KetoClientOptions,
+  setKetoClient,
+} from "@/lib/keto-client";
+import { KratosAdminClient, setKratosClient } from "@/lib/kratos-client";
+import {
+  ApiRelationTuple,
+  formatSubjectSet,
+  parseSubjectSet,
+  subjectFromApi,
+  subjectToApiBody,
+} from "@/lib/subject-set";
+import { Identity } from "@/lib/types";
+
+export const PAST = "2026-01-01T00:00:00.000Z";
+
+export interface StandInRequest {
+  method: string;
+  url: URL;
+  // Path without the gateway prefix, e.g. /identities for /kratos-admin/...
+  path: string;
+  body: string;
+  headers: IncomingMessage["headers"];
+}
+
+export type StandInHandler = (
+  request: StandInRequest,
+  response: ServerResponse,
+) => void | Promise<void>;
+
+export interface StandIn {
+  // http://127.0.0.1:<port>
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve requests with handler on a free local port; the body is read
+ * before the handler runs
+ */
+export async function startStandIn(handler: StandInHandler): Promise<StandIn> {
+  const server = createServer(async (request, response) => {
+    let body = "";
+    for await (const chunk of request) body += chunk;
+    const url = new URL(request.url || "/", "http://stand-in.test");
+    await handler(
+      {
+        method: request.method || "GET",
+        url,
+        path: url.pathname.replace(/^\/(kratos-admin|keto)(?=\/)/, ""),
+        body,
+        headers: request.headers,
+      },
+      response,
+    );
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", resolve),
+  );
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+}
+
+// Answers the requests it knows and returns false for the rest
+export interface StandInService {
+  handle(request: StandInRequest, response: ServerResponse): boolean;
+}
+
+/**
+ * One stand-in server for several services; the first that answers a
+ * request wins, anything unanswered is a 404
+ */
+export function startStandIns(...services: StandInService[]): Promise<StandIn> {
+  return startStandIn((request, response) => {
+    for (const service of services) {
+      if (service.handle(request, response)) return;
+    }
+    sendError(response, 404);
+  });
+}
+
+export function sendJson(
+  response: ServerResponse,
+  status: number,
+  data: unknown,
+): void {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(data));
+}
+
+export function sendNoContent(response: ServerResponse): void {
+  response.writeHead(204);
+  response.end();
+}
+
+// Kratos and Keto error body
+export function sendError(response: ServerResponse, status: number): void {
+  sendJson(response, status, {
+    error: { code: status, message: status === 404 ? "not found" : "error" },
+  });
+}
+
+/**
+ * Point the Kratos admin client at a stand-in's /kratos-admin, without
+ * retries so failures show up at once
+ */
+export function useKratosStandIn(standIn: StandIn): void {
+  setKratosClient(
+    new KratosAdminClient({
+      adminUrl: `${standIn.url}/kratos-admin`,
+      timeoutMs: 2000,
+      maxRetries: 0,
+      retryBaseDelayMs: 0,
+    }),
+  );
+}
+
+/**
+ * Identities kept in memory behind the Kratos admin API: list (paged by
+ * page_size through the Link header, or filtered by
+ * credentials_identifier), get, create (409 for a taken email), update,
+ * JSON Patch, delete and session revocation
+ */
+export class KratosStandIn implements StandInService {
+  identities = new Map<string, Identity>();
+  // "METHOD /path" of every request but listing identities
+  requests: string[] = [];
+  private created = 0;
+
+  reset(): void {
+    this.identities.clear();
+    this.requests = [];
+    this.created = 0;
+  }
+
+  add(...identities: Identity[]): void {
+    for (const identity of identities) {
+      this.identities.set(identity.id, identity);
+    }
+  }
+
+  /**
+   * Answer a request under /kratos-admin, or return false for another path
+   */
+  handle(request: StandInRequest, response: ServerResponse): boolean {
+    if (!request.url.pathname.startsWith("/kratos-admin/")) return false;
+    const { method, path, url } = request;
+
+    if (path === "/identities" && method === "GET") {
+      this.list(url.searchParams, response);
+      return true;
+    }
+    this.requests.push(`${method} ${path}`);
+
+    if (path === "/schemas/default" && method === "GET") {
+      sendJson(response, 200, { properties: { traits: { type: "object" } } });
+      return true;
+    }
+    if (path === "/identities" && method === "POST") {
+      this.create(JSON.parse(request.body), response);
+      return true;
+    }
+    if (/^\/identities\/[^/]+\/sessions$/.test(path) && method === "DELETE") {
+      sendNoContent(response);
+      return true;
+    }
+
+    const match = path.match(/^\/identities\/([^/]+)$/);
+    const id = decodeURIComponent(match?.[1] || "");
+    const stored = this.identities.get(id);
+    if (!stored) {
+      sendError(response, 404);
+    } else if (method === "GET") {
+      sendJson(response, 200, stored);
+    } else if (method === "PUT") {
+      // Like Kratos, metadata the body leaves out is cleared
+      const body = JSON.parse(request.body);
+      this.identities.set(id, {
+        ...stored,
+        metadata_public: undefined,
+        metadata_admin: undefined,
+        ...body,
+        id,
+      });
+      sendJson(response, 200, this.identities.get(id));
+    } else if (method === "PATCH") {
+      for (const operation of JSON.parse(request.body)) {
+        const field = operation.path.slice(1) as keyof Identity;
+        (stored as unknown as Record<string, unknown>)[field] =
+          operation.value;
+      }
+      sendJson(response, 200, stored);
+    } else if (method === "DELETE") {
+      this.identities.delete(id);
+      sendNoContent(response);
+    } else {
+      sendError(response, 404);
+    }
+    return true;
+  }
+
+  private list(params: URLSearchParams, response: ServerResponse): void {
+    const identifier = params.get("credentials_identifier");
+    const identities = [...this.identities.values()].filter(
+      (identity) => !identifier || identity.traits.email === identifier,
+    );
+    const offset = Number(params.get("page_token")) || 0;
+    const size = Number(params.get("page_size")) || identities.length;
+    const end = offset + size;
+    if (end < identities.length) {
+      response.setHeader(
+        "Link",
+        `</admin/identities?page_size=${size}&page_token=${end}>; rel="next"`,
+      );
+    }
+    sendJson(response, 200, identities.slice(offset, end));
+  }
+
+  private create(body: Partial<Identity>, response: ServerResponse): void {
+    const email = body.traits?.email;
+    const taken = [...this.identities.values()].some(
+      (identity) => identity.traits.email === email,
+    );
+    if (taken) {
+      sendJson(response, 409, {
+        error: { code: 409, message: "identity already exists" },
+      });
+      return;
+    }
+    this.created++;
+    const identity = testIdentity(`created-${this.created}`, body);
+    this.identities.set(identity.id, identity);
+    sendJson(response, 201, identity);
+  }
+}
+
+/**
+ * A Keto client (read and write API) for a stand-in's /keto
+ */
+export function standInKetoClient(
+  standIn: StandIn,
+  options: Partial<KetoClientOptions> = {},
+): KetoClient {
+  return new KetoClient({
+    readUrl: `${standIn.url}/keto`,
+    writeUrl: `${standIn.url}/keto`,
+    timeoutMs: 2000,
+    maxRetries: 0,
+    retryBaseDelayMs: 0,
+    ...options,
+  });
+}
+
+/**
+ * Point the Keto client at a stand-in's /keto
+ */
+export function useKetoStandIn(standIn: StandIn): void {
+  setKetoClient(standInKetoClient(standIn));
+}
+
+// A tuple or check in the API's terms, any namespace and relation
+export interface StandInTuple {
+  namespace: string;
+  object: string;
+  relation: string;
+  // Subject ID or subject set "Namespace:object#relation"
+  subject: string;
+}
+
+// Decides a computed relation (an OPL permit) from the stored tuples
+export type KetoRule = (
+  query: StandInTuple,
+  check: (query: StandInTuple) => boolean,
+) => boolean;
+
+/**
+ * Relation tuples kept in memory behind the Keto REST API: list (paged
+ * by page_size), check, batch check, write and delete. A check follows
+ * subject sets; rules, keyed "Namespace#relation", stand in for the OPL
+ * permits of the namespace model.
+ */
+export class KetoStandIn implements StandInService {
+  tuples: StandInTuple[] = [];
+  // Page size of a list request that doesn't ask for one (Keto's default)
+  pageSize = 100;
+
+  constructor(private readonly rules: Record<string, KetoRule> = {}) {}
+
+  reset(): void {
+    this.tuples = [];
+    this.pageSize = 100;
+  }
+
+  check = (query: StandInTuple, depth = 0): boolean => {
+    const rule = this.rules[`${query.namespace}#${query.relation}`];
+    if (rule) {
+      return rule(query, (next) => this.check(next, depth + 1));
+    }
+    if (depth > 10) return false;
+    return this.tuples.some(
+      (tuple) =>
+        tuple.namespace === query.namespace &&
+        tuple.object === query.object &&
+        tuple.relation === query.relation &&
+        (tuple.subject === query.subject ||
+          this.checkSubjectSet(tuple.subject, query.subject, depth)),
+    );
+  };
+
+  private checkSubjectSet(
+    subject: string,
+    member: string,
+    depth: number,
+  ): boolean {
+    const subjectSet = parseSubjectSet(subject);
+    return (
+      subjectSet !== null &&
+      this.check({ ...subjectSet, subject: member }, depth + 1)
+    );
+  }
+
+  /**
+   * Answer a request under /keto, or return false for another path
+   */
+  handle(request: StandInRequest, response: ServerResponse): boolean {
+    if (!request.url.pathname.startsWith("/keto/")) return false;
+    const { method, path } = request;
+    const query = queryFromParams(request.url.searchParams);
+
+    if (path === "/relation-tuples" && method === "GET") {
+      const matching = this.tuples.filter((tuple) => matches(tuple, query));
+      const offset = Number(request.url.searchParams.get("page_token")) || 0;
+      const size =
+        Number(request.url.searchParams.get("page_size")) || this.pageSize;
+      const end = offset + size;
+      sendJson(response, 200, {
+        relation_tuples: matching.slice(offset, end).map(toApiTuple),
+        next_page_token: end < matching.length ? String(end) : "",
+      });
+    } else if (path === "/relation-tuples/check" && method === "GET") {
+      const allowed = this.check(query as StandInTuple);
+      sendJson(response, allowed ? 200 : 403, { allowed });
+    } else if (path === "/relation-tuples/batch/check" && method === "POST") {
+      const { tuples }: { tuples: ApiRelationTuple[] } = JSON.parse(
+        request.body,
+      );
+      sendJson(response, 200, {
+        results: tuples.map(({ namespace, object, relation, ...subject }) => ({
+          allowed: this.check({
+            namespace,
+            object,
+            relation,
+            subject: subjectFromApi(subject),
+          }),
+        })),
+      });
+    } else if (path === "/admin/relation-tuples" && method === "PUT") {
+      const tuple: ApiRelationTuple = JSON.parse(request.body);
+      this.tuples.push({
+        namespace: tuple.namespace,
+        object: tuple.object,
+        relation: tuple.relation,
+        subject: subjectFromApi(tuple),
+      });
+      sendJson(response, 201, tuple);
+    } else if (path === "/admin/relation-tuples" && method === "DELETE") {
+      this.tuples = this.tuples.filter((tuple) => !matches(tuple, query));
+      sendNoContent(response);
+    } else {
+      sendError(response, 404);
+    }
+    return true;
+  }
+}
+
+function queryFromParams(params: URLSearchParams): Partial<StandInTuple> {
+  const subjectSetNamespace = params.get("subject_set.namespace");
+  const subject = subjectSetNamespace
+    ? formatSubjectSet({
+        namespace: subjectSetNamespace,
+        object: params.get("subject_set.object") || "",
+        relation: params.get("subject_set.relation") || "",
+      })
+    : params.get("subject_id");
+  return {
+    namespace: params.get("namespace") ?? undefined,
+    object: params.get("object") ?? undefined,
+    relation: params.get("relation") ?? undefined,
+    subject: subject ?? undefined,
+  };
+}
+
+function matches(
+  tuple: StandInTuple,
+  query: Partial<StandInTuple>,
+): boolean {
+  return (["namespace", "object", "relation", "subject"] as const).every(
+    (key) => query[key] === undefined || query[key] === tuple[key],
+  );
+}
+
+function toApiTuple(tuple: StandInTuple): ApiRelationTuple {
+  return {
+    namespace: tuple.namespace,
+    object: tuple.object,
+    relation: tuple.relation,
+    ...subjectToApiBody(tuple.subject),
+  };
+}
+
+/**
+ * Redis over HTTP (Upstash REST protocol) at /redis: GET, MGET and SET
+ * with PX and NX, which is what the app uses
+ */
+export class RedisStandIn implements StandInService {
+  values = new Map<string, { value: string; expiresAt: number }>();
+  // Every command, e.g. ["SET", "key", "1", "NX", "PX", "600000"]
+  commands: string[][] = [];
+  // Answer every command with a 500
+  failing = false;
+
+  private get(key: string): string | null {
+    const stored = this.values.get(key);
+    return stored && stored.expiresAt > Date.now() ? stored.value : null;
+  }
+
+  handle(request: StandInRequest, response: ServerResponse): boolean {
+    if (request.url.pathname !== "/redis") return false;
+    const [command, ...args]: string[] = JSON.parse(request.body);
+    this.commands.push([command, ...args]);
+
+    if (this.failing) {
+      sendJson(response, 500, { error: "ERR stand-in failure" });
+    } else if (command === "GET") {
+      sendJson(response, 200, { result: this.get(args[0]) });
+    } else if (command === "MGET") {
+      sendJson(response, 200, { result: args.map((key) => this.get(key)) });
+    } else if (command === "SET") {
+      const [key, value, ...options] = args;
+      const px = options.indexOf("PX");
+      const ttlMs = px >= 0 ? Number(options[px + 1]) : Infinity;
+      if (options.includes("NX") && this.get(key) !== null) {
+        sendJson(response, 200, { result: null });
+      } else {
+        this.values.set(key, { value, expiresAt: Date.now() + ttlMs });
+        sendJson(response, 200, { result: "OK" });
+      }
+    } else {
+      sendJson(response, 400, { error: `ERR unknown command '${command}'` });
+    }
+    return true;
+  }
+}
+
+/**
+ * An active identity with the email <id>@example.com
+ */
+export function testIdentity(
+  id: string,
+  overrides: Partial<Identity> = {},
+): Identity {
+  return {
+    id,
+    schema_id: "default",
+    schema_url: "",
+    state: "active",
+    state_changed_at: PAST,
+    traits: { email: `${id}@example.com` },
+    metadata_public: {},
+    metadata_admin: {},
+    created_at: PAST,
+    updated_at: PAST,
+    ...overrides,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Bulk identity actions: deactivating signs the identity out of Kratos and
+ * of this app (stand-in Kratos admin API)
+ */
+
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import { MemoryAuditSink, setAuditSink } from "@/lib/services/audit.service";
+import { runBulkIdentityAction } from "@/lib/services/identity-bulk.service";
+import {
+  issueSessionToken,
+  verifySessionToken,
+} from "@/lib/services/session.service";
+import {
+  KratosStandIn,
+  StandIn,
+  startStandIns,
+  testIdentity,
+  useKratosStandIn,
+} from "./helpers/stand-in";
+
+process.env.AUDIT_CHAIN_KEY = "test-audit-chain-key";
+process.env.SESSION_SECRET = "test-session-secret-0123456789abcdef";
+
+const kratos = new KratosStandIn();
+let standIn: StandIn;
+
+before(async () => {
+  standIn = await startStandIns(kratos);
+  useKratosStandIn(standIn);
+});
+
+beforeEach(() => {
+  kratos.reset();
+  setAuditSink(new MemoryAuditSink());
+});
+
+after(() => standIn.close());
+
+describe("bulk deactivate", () => {
+  test("sets the identity inactive and signs it out", async () => {
+    kratos.add(testIdentity("identity-1"));
+    const token = await issueSessionToken({
+      userId: "identity-1",
+      email: "identity-1@example.com",
+      name: "identity-1",
+      provider: "stand-in",
+    });
+
+    const result = await runBulkIdentityAction(
+      { action: "deactivate", identityIds: ["identity-1"] },
+      "admin",
+    );
+
+    assert.equal(result.succeeded, 1);
+    assert.equal(kratos.identities.get("identity-1")?.state, "inactive");
+    assert.deepEqual(kratos.requests, [
+      "PATCH /identities/identity-1",
+      "DELETE /identities/identity-1/sessions",
+    ]);
+    assert.equal(await verifySessionToken(token), null);
+  });
+
+  test("reports a failing item and runs the rest", async () => {
+    kratos.add(testIdentity("identity-2"));
+
+    const result = await runBulkIdentityAction(
+      { action: "deactivate", identityIds: ["missing", "identity-2"] },
+      "admin",
+    );
+
+    assert.equal(result.succeeded, 1);
+    assert.equal(result.failed, 1);
+    assert.equal(kratos.identities.get("identity-2")?.state, "inactive");
+  });
+});
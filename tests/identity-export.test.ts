@@ -0,0 +1,102 @@
+/**
+ * Identity export: audited with its row count however it ends, and CSV
+ * cells a spreadsheet would run as formulas are neutralised (stand-in
+ * Kratos admin API)
+ */
+
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import { escapeCsvValue, parseCsv } from "@/lib/csv";
+import {
+  MemoryAuditSink,
+  queryAuditLog,
+  setAuditSink,
+} from "@/lib/services/audit.service";
+import { exportIdentities } from "@/lib/services/identity-export.service";
+import {
+  KratosStandIn,
+  StandIn,
+  startStandIns,
+  testIdentity,
+  useKratosStandIn,
+} from "./helpers/stand-in";
+
+process.env.AUDIT_CHAIN_KEY = "test-audit-chain-key";
+
+const kratos = new KratosStandIn();
+let standIn: StandIn;
+
+before(async () => {
+  standIn = await startStandIns(kratos);
+  useKratosStandIn(standIn);
+  for (const id of ["identity-1", "identity-2", "identity-3"]) {
+    kratos.add(
+      testIdentity(id, {
+        traits: {
+          email: `${id}@example.com`,
+          name: { first: '=HYPERLINK("http://evil")' },
+        },
+      }),
+    );
+  }
+});
+
+beforeEach(() => {
+  setAuditSink(new MemoryAuditSink());
+});
+
+after(() => standIn.close());
+
+async function exportAudit() {
+  const { entries } = await queryAuditLog({ action: "export_identities" });
+  assert.equal(entries.length, 1);
+  return entries[0];
+}
+
+describe("exportIdentities", () => {
+  test("audits a finished export with its row count", async () => {
+    let csv = "";
+    for await (const chunk of exportIdentities({
+      format: "csv",
+      traits: ["email", "name.first"],
+      actorId: "admin",
+    })) {
+      csv += chunk;
+    }
+
+    const [, ...rows] = parseCsv(csv);
+    assert.equal(rows.length, 3);
+    assert.equal(rows[0][rows[0].length - 1], "'=HYPERLINK(\"http://evil\")");
+
+    const entry = await exportAudit();
+    assert.equal(entry.result, "success");
+    assert.equal(entry.metadata?.outcome, "completed");
+    assert.equal(entry.metadata?.count, 3);
+  });
+
+  test("audits the rows sent when the stream is cancelled", async () => {
+    const chunks = exportIdentities({ format: "ndjson", actorId: "admin" });
+    assert.match(String((await chunks.next()).value), /identity-1/);
+    await chunks.return(undefined);
+
+    const entry = await exportAudit();
+    assert.equal(entry.result, "failure");
+    assert.equal(entry.metadata?.outcome, "cancelled");
+    assert.equal(entry.metadata?.count, 1);
+  });
+});
+
+describe("escapeCsvValue", () => {
+  test("prefixes strings starting with a formula character", () => {
+    for (const value of ["=1+1", "+1", "-1", "@SUM(A1)"]) {
+      assert.equal(escapeCsvValue(value), `'${value}`);
+    }
+  });
+
+  test("leaves numbers and plain strings alone", () => {
+    assert.equal(escapeCsvValue(-1), "-1");
+    assert.equal(escapeCsvValue("a=b"), "a=b");
+    assert.equal(escapeCsvValue("=a,b"), `"'=a,b"`);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Identity import: the import is audited with what it did, also when the
+ * client stops reading the stream (stand-in Kratos admin API)
+ */
+
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  MemoryAuditSink,
+  queryAuditLog,
+  setAuditSink,
+} from "@/lib/services/audit.service";
+import {
+  importIdentities,
+  parseIdentityImport,
+} from "@/lib/services/identity-import.service";
+import {
+  KratosStandIn,
+  StandIn,
+  startStandIns,
+  useKratosStandIn,
+} from "./helpers/stand-in";
+
+process.env.AUDIT_CHAIN_KEY = "test-audit-chain-key";
+
+const CSV = [
+  "email,first_name",
+  "one@example.com,One",
+  "two@example.com,Two",
+  "three@example.com,Three",
+].join("\n");
+
+const kratos = new KratosStandIn();
+let standIn: StandIn;
+
+before(async () => {
+  standIn = await startStandIns(kratos);
+  useKratosStandIn(standIn);
+});
+
+beforeEach(() => {
+  kratos.reset();
+  setAuditSink(new MemoryAuditSink());
+});
+
+after(() => standIn.close());
+
+async function importAudit() {
+  const { entries } = await queryAuditLog({ action: "import_identities" });
+  assert.equal(entries.length, 1);
+  return entries[0];
+}
+
+describe("importIdentities audit", () => {
+  test("records a finished import", async () => {
+    const events = importIdentities(parseIdentityImport(CSV, "csv"), {
+      actorId: "admin",
+    });
+    for await (const event of events) {
+      if (event.type === "summary") assert.equal(event.created, 3);
+    }
+
+    const entry = await importAudit();
+    assert.equal(entry.result, "success");
+    assert.equal(entry.metadata?.completed, true);
+    assert.equal(entry.metadata?.created, 3);
+  });
+
+  test("records the rows done when the stream is cancelled", async () => {
+    const events = importIdentities(parseIdentityImport(CSV, "csv"), {
+      actorId: "admin",
+    });
+    assert.equal((await events.next()).value?.type, "result");
+    await events.return(undefined);
+
+    const entry = await importAudit();
+    assert.equal(entry.result, "failure");
+    assert.equal(entry.metadata?.completed, false);
+    assert.equal(entry.metadata?.created, 1);
+    assert.equal(entry.metadata?.processed, 1);
+    assert.equal(kratos.identities.size, 1);
+  });
+});
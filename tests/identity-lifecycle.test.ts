@@ -0,0 +1,128 @@
+/**
+ * Identity lifecycle job: due dates sign the identity out everywhere, and
+ * an organization's only owner is left for an admin instead of being
+ * retried (stand-in Kratos admin API and Keto)
+ */
+
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import { MemoryAuditSink, setAuditSink } from "@/lib/services/audit.service";
+import {
+  runIdentityLifecycle,
+} from "@/lib/services/identity-lifecycle.service";
+import {
+  MemoryOrganizationStore,
+  setOrganizationStore,
+} from "@/lib/services/organization.service";
+import {
+  issueSessionToken,
+  verifySessionToken,
+} from "@/lib/services/session.service";
+import {
+  KetoStandIn,
+  KratosStandIn,
+  PAST,
+  StandIn,
+  startStandIns,
+  testIdentity,
+  useKetoStandIn,
+  useKratosStandIn,
+} from "./helpers/stand-in";
+
+process.env.AUDIT_CHAIN_KEY = "test-audit-chain-key";
+process.env.SESSION_SECRET = "test-session-secret-0123456789abcdef";
+
+const kratos = new KratosStandIn();
+const keto = new KetoStandIn();
+let standIn: StandIn;
+
+before(async () => {
+  standIn = await startStandIns(kratos, keto);
+  useKratosStandIn(standIn);
+  useKetoStandIn(standIn);
+});
+
+beforeEach(async () => {
+  kratos.reset();
+  keto.reset();
+  setAuditSink(new MemoryAuditSink());
+  const organizations = new MemoryOrganizationStore();
+  await organizations.save({
+    id: "acme",
+    name: "Acme",
+    created_at: PAST,
+    updated_at: PAST,
+  });
+  setOrganizationStore(organizations);
+});
+
+after(() => standIn.close());
+
+describe("runIdentityLifecycle", () => {
+  test("deactivates a due identity and ends its app sessions", async () => {
+    kratos.add(
+      testIdentity("identity-1", { metadata_admin: { deactivate_at: PAST } }),
+    );
+    const token = await issueSessionToken({
+      userId: "identity-1",
+      email: "identity-1@example.com",
+      name: "identity-1",
+      provider: "stand-in",
+    });
+
+    const run = await runIdentityLifecycle();
+
+    assert.deepEqual(run.deactivated, ["identity-1"]);
+    const identity = kratos.identities.get("identity-1");
+    assert.equal(identity?.state, "inactive");
+    assert.ok(identity?.metadata_admin?.deactivated_at);
+    assert.equal(await verifySessionToken(token), null);
+  });
+
+  test("offboards an expired identity", async () => {
+    kratos.add(
+      testIdentity("identity-2", { metadata_admin: { expires_at: PAST } }),
+    );
+    keto.tuples.push({
+      namespace: "GlobalRole",
+      object: "admin",
+      relation: "members",
+      subject: "identity-2",
+    });
+
+    const run = await runIdentityLifecycle();
+
+    assert.deepEqual(run.offboarded, ["identity-2"]);
+    assert.equal(kratos.identities.get("identity-2")?.state, "inactive");
+    assert.deepEqual(keto.tuples, []);
+  });
+
+  test("leaves an organization's only owner for an admin", async () => {
+    kratos.add(testIdentity("owner", { metadata_admin: { expires_at: PAST } }));
+    keto.tuples.push({
+      namespace: "Organization",
+      object: "acme",
+      relation: "owners",
+      subject: "owner",
+    });
+
+    const run = await runIdentityLifecycle();
+
+    assert.deepEqual(run.blocked, ["owner"]);
+    assert.deepEqual(run.failed, []);
+    const owner = kratos.identities.get("owner");
+    assert.equal(owner?.state, "active");
+    assert.match(
+      String(owner?.metadata_admin?.offboard_blocked),
+      /Only owner of acme/,
+    );
+    assert.equal(keto.tuples.length, 1);
+
+    // Not retried on the next run
+    kratos.requests = [];
+    const next = await runIdentityLifecycle();
+    assert.deepEqual(next.blocked, []);
+    assert.deepEqual(kratos.requests, []);
+  });
+});
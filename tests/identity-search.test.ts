@@ -0,0 +1,89 @@
+/**
+ * Identity search: exact matches rank above prefixes and prefixes above
+ * typos, typos are tolerated by term length, and every query term must
+ * match
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  IdentitySearchIndex,
+  tokenize,
+} from "@/lib/services/identity-search.service";
+import { Identity } from "@/lib/types";
+import { testIdentity } from "./helpers/stand-in";
+
+function person(id: string, first: string, last: string): Identity {
+  return testIdentity(id, {
+    traits: { email: `${first}.${last}@example.com`, name: { first, last } },
+  });
+}
+
+function searchIndex(): IdentitySearchIndex {
+  const index = new IdentitySearchIndex();
+  index.replaceAll([
+    person("identity-1", "marla", "jones"),
+    person("identity-2", "mariana", "smith"),
+    person("identity-3", "maria", "smith"),
+    person("identity-4", "rob", "brown"),
+  ]);
+  return index;
+}
+
+function ids(identities: Identity[]): string[] {
+  return identities.map((identity) => identity.id);
+}
+
+describe("IdentitySearchIndex", () => {
+  test("ranks exact, then prefix, then typo matches", () => {
+    assert.deepEqual(ids(searchIndex().search("Maria")), [
+      "identity-3",
+      "identity-2",
+      "identity-1",
+    ]);
+  });
+
+  test("counts a swapped pair of letters as one typo", () => {
+    assert.deepEqual(ids(searchIndex().search("mraia")), [
+      "identity-3",
+      "identity-2",
+    ]);
+  });
+
+  test("allows no typos in short terms", () => {
+    assert.deepEqual(ids(searchIndex().search("bob")), []);
+    assert.deepEqual(ids(searchIndex().search("rob")), ["identity-4"]);
+  });
+
+  test("needs every term to match", () => {
+    assert.deepEqual(ids(searchIndex().search("mari smith")), [
+      "identity-3",
+      "identity-2",
+    ]);
+    assert.deepEqual(ids(searchIndex().search("mari jones")), [
+      "identity-1",
+    ]);
+  });
+
+  test("forgets removed identities", () => {
+    const index = searchIndex();
+    index.remove("identity-3");
+    assert.deepEqual(ids(index.search("maria")), [
+      "identity-2",
+      "identity-1",
+    ]);
+  });
+});
+
+describe("tokenize", () => {
+  test("splits on punctuation and strips accents", () => {
+    assert.deepEqual(tokenize("Zoë.O'Brien@Example.com"), [
+      "zoe",
+      "o",
+      "brien",
+      "example",
+      "com",
+    ]);
+  });
+});
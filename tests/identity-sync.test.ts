@@ -0,0 +1,186 @@
+/**
+ * Identity sync: an existing identity is only handed to a provider user
+ * through a stored link or a verified email (stand-in Kratos admin API)
+ */
+
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import { ProviderUser } from "@/lib/oidc-providers";
+import { Identity } from "@/lib/types";
+import { MemoryAuditSink, setAuditSink } from "@/lib/services/audit.service";
+import { syncProviderUserToKratos } from "@/lib/services/identity-sync.service";
+import {
+  KratosStandIn,
+  StandIn,
+  sendJson,
+  startStandIns,
+  testIdentity,
+  useKratosStandIn,
+} from "./helpers/stand-in";
+
+process.env.AUDIT_CHAIN_KEY = "test-audit-chain-key";
+
+const kratos = new KratosStandIn();
+// Answer to POST /identities instead of creating one
+let createError: string | null = null;
+let standIn: StandIn;
+
+before(async () => {
+  standIn = await startStandIns(
+    {
+      handle(request, response) {
+        if (!createError || request.method !== "POST") return false;
+        sendJson(response, 400, { error: { code: 400, reason: createError } });
+        return true;
+      },
+    },
+    kratos,
+  );
+  useKratosStandIn(standIn);
+});
+
+beforeEach(() => {
+  kratos.reset();
+  createError = null;
+  setAuditSink(new MemoryAuditSink());
+});
+
+after(() => standIn.close());
+
+// The admin's identity, which the provider user claims by email
+function admin(overrides: Partial<Identity> = {}): Identity {
+  const identity = testIdentity("admin-identity", {
+    traits: { email: "admin@example.com" },
+    ...overrides,
+  });
+  kratos.add(identity);
+  return identity;
+}
+
+function providerUser(overrides: Partial<ProviderUser> = {}): ProviderUser {
+  return {
+    subject: "attacker-sub",
+    email: "admin@example.com",
+    emailVerified: false,
+    name: { first: "Eve", last: "" },
+    ...overrides,
+  };
+}
+
+function patches(): string[] {
+  return kratos.requests.filter((request) => request.startsWith("PATCH"));
+}
+
+describe("syncProviderUserToKratos with an existing email", () => {
+  test("refuses an unverified email without a link", async () => {
+    admin();
+    const result = await syncProviderUserToKratos("stand-in", providerUser());
+    assert.equal(result.success, false);
+    assert.equal(result.identityId, undefined);
+    assert.deepEqual(patches(), []);
+  });
+
+  test("links a verified email and stores the link", async () => {
+    admin();
+    const result = await syncProviderUserToKratos(
+      "stand-in",
+      providerUser({ emailVerified: true }),
+    );
+    assert.equal(result.success, true);
+    assert.equal(result.identityId, "admin-identity");
+    assert.deepEqual(
+      kratos.identities.get("admin-identity")?.metadata_admin,
+      { oidc_links: ["stand-in:attacker-sub"] },
+    );
+  });
+
+  test("accepts a stored link without a verified email", async () => {
+    admin({ metadata_admin: { oidc_links: ["stand-in:attacker-sub"] } });
+    const result = await syncProviderUserToKratos("stand-in", providerUser());
+    assert.equal(result.identityId, "admin-identity");
+    assert.deepEqual(patches(), []);
+  });
+
+  test("accepts the provider that created the identity", async () => {
+    admin({
+      metadata_public: {
+        provider: "stand-in",
+        provider_subject: "attacker-sub",
+      },
+    });
+    const result = await syncProviderUserToKratos("stand-in", providerUser());
+    assert.equal(result.identityId, "admin-identity");
+  });
+
+  test("doesn't treat another provider's subject as a link", async () => {
+    admin({ metadata_admin: { oidc_links: ["other:attacker-sub"] } });
+    const result = await syncProviderUserToKratos("stand-in", providerUser());
+    assert.equal(result.success, false);
+  });
+
+  test("refuses an inactive identity", async () => {
+    admin({
+      state: "inactive",
+      metadata_admin: { oidc_links: ["stand-in:attacker-sub"] },
+    });
+    const result = await syncProviderUserToKratos(
+      "stand-in",
+      providerUser({ emailVerified: true }),
+    );
+    assert.equal(result.success, false);
+    assert.deepEqual(patches(), []);
+  });
+});
+
+describe("syncProviderUserToKratos", () => {
+  test("creates an identity for a new user", async () => {
+    const result = await syncProviderUserToKratos(
+      "stand-in",
+      providerUser({ email: "new@example.com" }),
+    );
+    assert.equal(result.success, true);
+    const created = kratos.identities.get(result.identityId || "");
+    assert.equal(created?.traits.email, "new@example.com");
+    assert.deepEqual(created?.metadata_admin, {
+      oidc_links: ["stand-in:attacker-sub"],
+    });
+  });
+
+  test("finds a linked user whose email changed at the provider", async () => {
+    admin({ metadata_admin: { oidc_links: ["stand-in:attacker-sub"] } });
+    const result = await syncProviderUserToKratos(
+      "stand-in",
+      providerUser({ email: "renamed@example.com" }),
+    );
+    assert.equal(result.identityId, "admin-identity");
+    assert.deepEqual(
+      kratos.requests.filter((request) => request.startsWith("POST")),
+      [],
+    );
+  });
+
+  test("takes an older Kratos's duplicate 400 as a conflict", async () => {
+    admin();
+    createError =
+      "An account with the same identifier (email, phone, username, ...) " +
+      "exists already.";
+    const result = await syncProviderUserToKratos(
+      "stand-in",
+      providerUser({ emailVerified: true }),
+    );
+    assert.equal(result.identityId, "admin-identity");
+  });
+
+  test("reports any other 400 as a sync error", async () => {
+    admin();
+    createError = "traits.email: does not match pattern";
+    const result = await syncProviderUserToKratos(
+      "stand-in",
+      providerUser({ emailVerified: true }),
+    );
+    assert.equal(result.success, false);
+    assert.match(result.error || "", /does not match pattern/);
+    assert.deepEqual(patches(), []);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Keto client: the circuit breaker opens after repeated failures and
+ * closes again once a trial request succeeds; batch checks are chunked and
+ * fall back to single checks on a Keto without the batch endpoint
+ * (stand-in Keto)
+ */
+
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  KetoClient,
+  checkAllPermissions,
+  checkAnyPermission,
+  checkPermissions,
+  setKetoClient,
+  setKetoMetricsSink,
+} from "@/lib/keto-client";
+import { ServiceUnavailableError } from "@/lib/errors";
+import { PermissionQuery } from "@/lib/types";
+import {
+  KetoStandIn,
+  StandIn,
+  sendError,
+  standInKetoClient,
+  startStandIns,
+} from "./helpers/stand-in";
+
+const keto = new KetoStandIn();
+// Paths of every request that reached the stand-in
+let paths: string[] = [];
+// Answer every request with a 503
+let down = false;
+// Answer the batch endpoint with a 404, like Keto < v0.12
+let noBatch = false;
+let standIn: StandIn;
+
+before(async () => {
+  standIn = await startStandIns(
+    {
+      handle(request, response) {
+        paths.push(request.path);
+        if (down) {
+          sendError(response, 503);
+          return true;
+        }
+        if (noBatch && request.path === "/relation-tuples/batch/check") {
+          sendError(response, 404);
+          return true;
+        }
+        return false;
+      },
+    },
+    keto,
+  );
+  setKetoMetricsSink(() => {});
+});
+
+beforeEach(() => {
+  keto.reset();
+  paths = [];
+  down = false;
+  noBatch = false;
+});
+
+after(() => standIn.close());
+
+function membership(subject: string, object = "acme"): PermissionQuery {
+  return { namespace: "Organization", object, relation: "members", subject };
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("circuit breaker", () => {
+  let client: KetoClient;
+
+  beforeEach(() => {
+    client = standInKetoClient(standIn, {
+      circuitFailureThreshold: 2,
+      circuitResetMs: 50,
+    });
+  });
+
+  test("opens after consecutive failures and stops sending", async () => {
+    down = true;
+    for (let i = 0; i < 2; i++) {
+      await assert.rejects(client.check(membership("alice")), /HTTP 503/);
+    }
+    assert.equal(client.metrics().circuit, "open");
+
+    await assert.rejects(
+      client.check(membership("alice")),
+      (error: Error) =>
+        error instanceof ServiceUnavailableError &&
+        /circuit breaker open/.test(error.message),
+    );
+    assert.equal(paths.length, 2);
+  });
+
+  test("closes again when the trial request succeeds", async () => {
+    down = true;
+    for (let i = 0; i < 2; i++) {
+      await assert.rejects(client.check(membership("alice")));
+    }
+    down = false;
+    keto.tuples.push(membership("alice"));
+    await wait(60);
+
+    assert.equal(await client.check(membership("alice")), true);
+    assert.equal(client.metrics().circuit, "closed");
+    assert.equal(client.metrics().consecutiveFailures, 0);
+  });
+
+  test("reopens when the trial request fails", async () => {
+    down = true;
+    for (let i = 0; i < 2; i++) {
+      await assert.rejects(client.check(membership("alice")));
+    }
+    await wait(60);
+
+    await assert.rejects(client.check(membership("alice")), /HTTP 503/);
+    assert.equal(client.metrics().circuit, "open");
+    await assert.rejects(client.check(membership("alice")), /breaker open/);
+    assert.equal(paths.length, 3);
+  });
+
+  test("doesn't count a denied check as a failure", async () => {
+    for (let i = 0; i < 3; i++) {
+      assert.equal(await client.check(membership("mallory")), false);
+    }
+    assert.equal(client.metrics().circuit, "closed");
+  });
+});
+
+describe("batch checks", () => {
+  beforeEach(() => {
+    setKetoClient(standInKetoClient(standIn, { batchCheckSize: 2 }));
+    keto.tuples.push(
+      membership("alice", "acme"),
+      membership("alice", "globex"),
+    );
+  });
+
+  const queries = ["acme", "initech", "globex", "umbrella", "hooli"].map(
+    (object) => membership("alice", object),
+  );
+
+  test("checks in chunks and keeps the order", async () => {
+    assert.deepEqual(await checkPermissions(queries), [
+      true,
+      false,
+      true,
+      false,
+      false,
+    ]);
+    assert.equal(
+      paths.filter((path) => path === "/relation-tuples/batch/check").length,
+      3,
+    );
+  });
+
+  test("any stops after the first allowed chunk", async () => {
+    assert.equal(await checkAnyPermission(queries), true);
+    assert.equal(paths.length, 1);
+  });
+
+  test("all stops after the first denied chunk", async () => {
+    assert.equal(await checkAllPermissions(queries), false);
+    assert.equal(paths.length, 1);
+  });
+
+  test("falls back to single checks once batch is unsupported", async () => {
+    noBatch = true;
+    assert.deepEqual(await checkPermissions(queries.slice(0, 2)), [
+      true,
+      false,
+    ]);
+    assert.deepEqual(await checkPermissions(queries.slice(2, 4)), [
+      true,
+      false,
+    ]);
+
+    // Asked once, then only single checks
+    assert.deepEqual(paths, [
+      "/relation-tuples/batch/check",
+      "/relation-tuples/check",
+      "/relation-tuples/check",
+      "/relation-tuples/check",
+      "/relation-tuples/check",
+    ]);
+  });
+
+  test("fails closed when Keto is down", async () => {
+    down = true;
+    assert.deepEqual(await checkPermissions(queries.slice(0, 2)), [
+      false,
+      false,
+    ]);
+  });
+});
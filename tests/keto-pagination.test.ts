@@ -0,0 +1,110 @@
+/**
+ * Keto list calls follow next_page_token: the list helpers return every
+ * page, iterators fetch pages as they are consumed and page calls hand the
+ * token back to the caller (stand-in Keto with small pages)
+ */
+
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  iterateUserPermissions,
+  listNamespacePermissions,
+  listUserPermissions,
+  listUserPermissionsPage,
+} from "@/lib/keto-client";
+import {
+  KetoStandIn,
+  StandIn,
+  sendJson,
+  startStandIns,
+  useKetoStandIn,
+} from "./helpers/stand-in";
+
+const keto = new KetoStandIn();
+let listRequests = 0;
+// Answer every list request with this page token
+let repeatedToken: string | null = null;
+let standIn: StandIn;
+
+before(async () => {
+  standIn = await startStandIns(
+    {
+      handle(request, response) {
+        if (request.path !== "/relation-tuples") return false;
+        listRequests++;
+        if (repeatedToken === null) return false;
+        sendJson(response, 200, {
+          relation_tuples: [],
+          next_page_token: repeatedToken,
+        });
+        return true;
+      },
+    },
+    keto,
+  );
+  useKetoStandIn(standIn);
+});
+
+beforeEach(() => {
+  keto.reset();
+  keto.pageSize = 2;
+  listRequests = 0;
+  repeatedToken = null;
+  for (const object of ["a", "b", "c", "d", "e"]) {
+    keto.tuples.push({
+      namespace: "Group",
+      object,
+      relation: "members",
+      subject: "alice",
+    });
+  }
+});
+
+after(() => standIn.close());
+
+describe("Keto list pagination", () => {
+  test("lists return every page", async () => {
+    const tuples = await listUserPermissions("alice");
+    assert.deepEqual(
+      tuples.map((tuple) => tuple.object),
+      ["a", "b", "c", "d", "e"],
+    );
+    assert.equal(listRequests, 3);
+    assert.equal((await listNamespacePermissions("Group")).length, 5);
+  });
+
+  test("iterators only fetch the pages consumed", async () => {
+    const objects: string[] = [];
+    for await (const tuple of iterateUserPermissions("alice")) {
+      objects.push(tuple.object);
+      if (objects.length === 3) break;
+    }
+    assert.deepEqual(objects, ["a", "b", "c"]);
+    assert.equal(listRequests, 2);
+  });
+
+  test("page calls return the token for the next page", async () => {
+    const first = await listUserPermissionsPage("alice", undefined, {
+      pageSize: 3,
+    });
+    assert.equal(first.tuples.length, 3);
+    assert.ok(first.nextPageToken);
+
+    const last = await listUserPermissionsPage("alice", undefined, {
+      pageSize: 3,
+      pageToken: first.nextPageToken,
+    });
+    assert.deepEqual(
+      last.tuples.map((tuple) => tuple.object),
+      ["d", "e"],
+    );
+    assert.equal(last.nextPageToken, undefined);
+  });
+
+  test("stops on a page token Keto repeats", async () => {
+    repeatedToken = "same";
+    await assert.rejects(listUserPermissions("alice"), /repeated/);
+    assert.equal(listRequests, 2);
+  });
+});
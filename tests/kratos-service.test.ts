@@ -0,0 +1,122 @@
+/**
+ * Identity listing pages resume where the last one stopped, even in the
+ * middle of a Kratos page, and admin edits keep the metadata they don't
+ * send (stand-in Kratos admin API)
+ */
+
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import { BadRequestError } from "@/lib/errors";
+import {
+  listIdentitiesPage,
+  updateIdentity,
+} from "@/lib/services/kratos.service";
+import {
+  KratosStandIn,
+  StandIn,
+  startStandIns,
+  testIdentity,
+  useKratosStandIn,
+} from "./helpers/stand-in";
+
+const kratos = new KratosStandIn();
+let standIn: StandIn;
+
+before(async () => {
+  standIn = await startStandIns(kratos);
+  useKratosStandIn(standIn);
+});
+
+beforeEach(() => {
+  kratos.reset();
+});
+
+after(() => standIn.close());
+
+// More than one Kratos page (the listing asks for 250 at a time), every
+// third identity inactive
+function addIdentities(count: number): string[] {
+  const active: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const id = `identity-${String(i).padStart(3, "0")}`;
+    const state = i % 3 === 2 ? "inactive" : "active";
+    kratos.add(testIdentity(id, { state }));
+    if (state === "active") active.push(id);
+  }
+  return active;
+}
+
+describe("listIdentitiesPage", () => {
+  test("resumes a filtered listing mid-page without repeats or gaps", async () => {
+    const active = addIdentities(300);
+
+    const listed: string[] = [];
+    let pageToken: string | undefined;
+    let pages = 0;
+    do {
+      const page = await listIdentitiesPage({
+        state: "active",
+        pageSize: 30,
+        pageToken,
+      });
+      listed.push(...page.identities.map((identity) => identity.id));
+      pageToken = page.nextPageToken;
+      pages++;
+    } while (pageToken);
+
+    assert.deepEqual(listed, active);
+    assert.equal(pages, Math.ceil(active.length / 30));
+  });
+
+  test("pages a sorted listing by offset", async () => {
+    addIdentities(5);
+
+    const first = await listIdentitiesPage({
+      sort: "email",
+      order: "desc",
+      pageSize: 2,
+    });
+    const second = await listIdentitiesPage({
+      sort: "email",
+      order: "desc",
+      pageSize: 2,
+      pageToken: first.nextPageToken,
+    });
+
+    assert.deepEqual(
+      [...first.identities, ...second.identities].map(({ id }) => id),
+      ["identity-004", "identity-003", "identity-002", "identity-001"],
+    );
+    assert.ok(second.nextPageToken);
+  });
+
+  test("rejects a page token it didn't issue", async () => {
+    await assert.rejects(
+      listIdentitiesPage({ pageToken: "not-a-cursor" }),
+      BadRequestError,
+    );
+  });
+});
+
+describe("updateIdentity", () => {
+  test("keeps the metadata an edit doesn't send", async () => {
+    kratos.add(
+      testIdentity("identity-1", {
+        metadata_public: { provider: "google" },
+        metadata_admin: { expires_at: "2027-01-01T00:00:00.000Z" },
+      }),
+    );
+
+    await updateIdentity("identity-1", {
+      traits: { email: "renamed@example.com" },
+    });
+
+    const identity = kratos.identities.get("identity-1");
+    assert.equal(identity?.traits.email, "renamed@example.com");
+    assert.deepEqual(identity?.metadata_public, { provider: "google" });
+    assert.deepEqual(identity?.metadata_admin, {
+      expires_at: "2027-01-01T00:00:00.000Z",
+    });
+  });
+});
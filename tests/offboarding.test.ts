@@ -0,0 +1,129 @@
+/**
+ * Offboarding: sessions end everywhere and the audit entry records what was
+ * removed, also when a step fails (stand-in Kratos admin API and Keto)
+ */
+
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  MemoryAuditSink,
+  queryAuditLog,
+  setAuditSink,
+} from "@/lib/services/audit.service";
+import { offboardIdentity } from "@/lib/services/offboarding.service";
+import {
+  MemoryOrganizationStore,
+  setOrganizationStore,
+} from "@/lib/services/organization.service";
+import {
+  issueSessionToken,
+  verifySessionToken,
+} from "@/lib/services/session.service";
+import {
+  KetoStandIn,
+  KratosStandIn,
+  StandIn,
+  sendError,
+  startStandIns,
+  testIdentity,
+  useKetoStandIn,
+  useKratosStandIn,
+} from "./helpers/stand-in";
+
+process.env.AUDIT_CHAIN_KEY = "test-audit-chain-key";
+process.env.SESSION_SECRET = "test-session-secret-0123456789abcdef";
+
+const kratos = new KratosStandIn();
+const keto = new KetoStandIn();
+// Identity whose deletion the stand-in fails
+let undeletable: string | null = null;
+let standIn: StandIn;
+
+before(async () => {
+  standIn = await startStandIns(
+    {
+      handle(request, response) {
+        if (
+          request.method !== "DELETE" ||
+          request.path !== `/identities/${undeletable}`
+        ) {
+          return false;
+        }
+        sendError(response, 500);
+        return true;
+      },
+    },
+    kratos,
+    keto,
+  );
+  useKratosStandIn(standIn);
+  useKetoStandIn(standIn);
+});
+
+beforeEach(() => {
+  kratos.reset();
+  keto.reset();
+  undeletable = null;
+  setAuditSink(new MemoryAuditSink());
+  setOrganizationStore(new MemoryOrganizationStore());
+});
+
+after(() => standIn.close());
+
+function grantAdmin(subject: string) {
+  keto.tuples.push({
+    namespace: "GlobalRole",
+    object: "admin",
+    relation: "members",
+    subject,
+  });
+}
+
+describe("offboardIdentity", () => {
+  test("ends app sessions and audits what was removed", async () => {
+    kratos.add(testIdentity("identity-1"));
+    grantAdmin("identity-1");
+    const token = await issueSessionToken({
+      userId: "identity-1",
+      email: "identity-1@example.com",
+      name: "identity-1",
+      provider: "stand-in",
+    });
+
+    const report = await offboardIdentity("identity-1", { actorId: "admin" });
+
+    assert.equal(report.sessionsRevoked, true);
+    assert.deepEqual(report.removedPermissions, ["GlobalRole:admin#members"]);
+    assert.ok(
+      kratos.requests.includes("DELETE /identities/identity-1/sessions"),
+    );
+    assert.equal(await verifySessionToken(token), null);
+    const { entries } = await queryAuditLog({ action: "offboard_identity" });
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].result, "success");
+  });
+
+  test("audits a failure part way with what was already removed", async () => {
+    kratos.add(testIdentity("identity-2"));
+    grantAdmin("identity-2");
+    undeletable = "identity-2";
+
+    await assert.rejects(
+      offboardIdentity("identity-2", {
+        actorId: "admin",
+        deleteIdentity: true,
+      }),
+    );
+
+    const { entries } = await queryAuditLog({ action: "delete_identity" });
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].result, "failure");
+    assert.equal(entries[0].metadata?.sessionsRevoked, true);
+    assert.deepEqual(entries[0].metadata?.removedPermissions, [
+      "GlobalRole:admin#members",
+    ]);
+    assert.equal(entries[0].metadata?.identityDeleted, false);
+    assert.equal(typeof entries[0].metadata?.error, "string");
+  });
+});
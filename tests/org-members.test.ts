@@ -0,0 +1,155 @@
+/**
+ * Delegated organization administration: org admins manage members but
+ * can't make anyone an owner, themselves included, or demote or remove
+ * an owner (stand-in Keto)
+ */
+
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { NextRequest } from "next/server";
+
+import { DELETE, PATCH } from "@/app/api/orgs/[orgId]/members/route";
+import { MemoryAuditSink, setAuditSink } from "@/lib/services/audit.service";
+import {
+  MemoryOrganizationStore,
+  setOrganizationStore,
+} from "@/lib/services/organization.service";
+import { clearPermissionCache } from "@/lib/services/permission.service";
+import {
+  SESSION_COOKIE_NAME,
+  issueSessionToken,
+} from "@/lib/services/session.service";
+import {
+  KetoRule,
+  KetoStandIn,
+  PAST,
+  StandIn,
+  startStandIns,
+  useKetoStandIn,
+} from "./helpers/stand-in";
+
+process.env.AUDIT_CHAIN_KEY = "test-audit-chain-key";
+process.env.SESSION_SECRET = "test-session-secret-0123456789abcdef";
+
+// The org permits of the namespace model, from the role relations
+function anyRole(...roles: string[]): KetoRule {
+  return (query, check) =>
+    roles.some((relation) => check({ ...query, relation }));
+}
+
+const keto = new KetoStandIn({
+  "Organization#manage_org": anyRole("owners"),
+  "Organization#manage_users": anyRole("owners", "admins"),
+  "Organization#view_org": anyRole("owners", "admins", "members", "viewers"),
+});
+let standIn: StandIn;
+
+before(async () => {
+  standIn = await startStandIns(keto);
+  useKetoStandIn(standIn);
+});
+
+beforeEach(async () => {
+  keto.reset();
+  await clearPermissionCache();
+  setAuditSink(new MemoryAuditSink());
+  const organizations = new MemoryOrganizationStore();
+  await organizations.save({
+    id: "acme",
+    name: "Acme",
+    created_at: PAST,
+    updated_at: PAST,
+  });
+  setOrganizationStore(organizations);
+
+  for (const [subject, relation] of [
+    ["owner", "owners"],
+    ["org-admin", "admins"],
+    ["member", "members"],
+  ]) {
+    keto.tuples.push({
+      namespace: "Organization",
+      object: "acme",
+      relation,
+      subject,
+    });
+  }
+});
+
+after(() => standIn.close());
+
+async function request(
+  userId: string,
+  method: "PATCH" | "DELETE",
+  body?: unknown,
+): Promise<Response> {
+  const token = await issueSessionToken({
+    userId,
+    email: `${userId}@example.com`,
+    name: userId,
+    provider: "stand-in",
+  });
+  const url =
+    method === "DELETE"
+      ? `http://app.test/api/orgs/acme/members?userId=${body}`
+      : "http://app.test/api/orgs/acme/members";
+  const init = {
+    method,
+    headers: { cookie: `${SESSION_COOKIE_NAME}=${token}` },
+    body: method === "DELETE" ? undefined : JSON.stringify(body),
+  };
+  const context = { params: Promise.resolve({ orgId: "acme" }) };
+  return method === "DELETE"
+    ? DELETE(new NextRequest(url, init), context)
+    : PATCH(new NextRequest(url, init), context);
+}
+
+function roleOf(subject: string): string[] {
+  return keto.tuples
+    .filter((tuple) => tuple.subject === subject)
+    .map((tuple) => tuple.relation);
+}
+
+describe("organization members", () => {
+  test("an org admin changes a member's role", async () => {
+    const response = await request("org-admin", "PATCH", {
+      userId: "member",
+      role: "viewers",
+    });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(roleOf("member"), ["viewers"]);
+  });
+
+  test("an org admin can't make themselves an owner", async () => {
+    const response = await request("org-admin", "PATCH", {
+      userId: "org-admin",
+      role: "owners",
+    });
+
+    assert.equal(response.status, 403);
+    assert.deepEqual(roleOf("org-admin"), ["admins"]);
+  });
+
+  test("an org admin can't demote or remove an owner", async () => {
+    const demoted = await request("org-admin", "PATCH", {
+      userId: "owner",
+      role: "members",
+    });
+    const removed = await request("org-admin", "DELETE", "owner");
+
+    assert.equal(demoted.status, 403);
+    assert.equal(removed.status, 403);
+    assert.deepEqual(roleOf("owner"), ["owners"]);
+  });
+
+  test("an owner makes an org admin an owner", async () => {
+    const response = await request("owner", "PATCH", {
+      userId: "org-admin",
+      role: "owners",
+    });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(roleOf("org-admin"), ["owners"]);
+  });
+});
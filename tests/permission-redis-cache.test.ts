@@ -0,0 +1,107 @@
+/**
+ * RedisPermissionCache: decisions and invalidation markers against an
+ * in-memory stand-in for Redis (MGET / SET PX)
+ */
+
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  RedisLikeClient,
+  RedisPermissionCache,
+} from "@/lib/services/permission-redis.cache";
+import { PermissionQuery } from "@/lib/types";
+
+// Keeps values with their expiry, like SET ... PX
+class StandInRedis implements RedisLikeClient {
+  values = new Map<string, { value: string; expiresAt: number }>();
+
+  async mget(...keys: string[]): Promise<(string | null)[]> {
+    return keys.map((key) => {
+      const stored = this.values.get(key);
+      return stored && stored.expiresAt > Date.now() ? stored.value : null;
+    });
+  }
+
+  async set(key: string, value: string, mode: "PX", ttlMs: number) {
+    this.values.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return "OK";
+  }
+}
+
+const alice: PermissionQuery = {
+  namespace: "Organization",
+  object: "acme",
+  relation: "view_org",
+  subject: "alice",
+};
+const bob: PermissionQuery = { ...alice, subject: "bob" };
+
+let redis: StandInRedis;
+let cache: RedisPermissionCache;
+
+beforeEach(() => {
+  redis = new StandInRedis();
+  cache = new RedisPermissionCache(redis);
+});
+
+describe("RedisPermissionCache", () => {
+  test("returns stored decisions", async () => {
+    const checkedAt = Date.now() - 10;
+    await cache.set(alice, true, checkedAt, 60000);
+    await cache.set(bob, false, checkedAt, 60000);
+
+    assert.deepEqual(await cache.get(alice), { allowed: true, checkedAt });
+    assert.deepEqual(await cache.get(bob), { allowed: false, checkedAt });
+  });
+
+  test("misses expired and never-stored decisions", async () => {
+    await cache.set(alice, true, Date.now() - 10, 1);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    assert.equal(await cache.get(alice), undefined);
+    assert.equal(await cache.get(bob), undefined);
+  });
+
+  test("drops one subject's decisions on invalidateSubject", async () => {
+    const checkedAt = Date.now() - 10;
+    await cache.set(alice, true, checkedAt, 60000);
+    await cache.set(bob, true, checkedAt, 60000);
+
+    await cache.invalidateSubject("alice");
+
+    assert.equal(await cache.get(alice), undefined);
+    assert.ok(await cache.get(bob));
+  });
+
+  test("ignores a decision checked before the invalidation", async () => {
+    // The Keto check started, then a revoke landed, then the result was
+    // stored: the old answer must not come back
+    const checkedAt = Date.now() - 10;
+    await cache.invalidateSubject("alice");
+    await cache.set(alice, true, checkedAt, 60000);
+
+    assert.equal(await cache.get(alice), undefined);
+  });
+
+  test("drops every decision on clear", async () => {
+    const checkedAt = Date.now() - 10;
+    await cache.set(alice, true, checkedAt, 60000);
+    await cache.set(bob, true, checkedAt, 60000);
+
+    await cache.clear();
+
+    assert.equal(await cache.get(alice), undefined);
+    assert.equal(await cache.get(bob), undefined);
+  });
+
+  test("shares invalidations between instances", async () => {
+    const other = new RedisPermissionCache(redis);
+    await cache.set(alice, true, Date.now() - 10, 60000);
+
+    await other.invalidateSubject("alice");
+
+    assert.equal(await cache.get(alice), undefined);
+    assert.equal(cache.shared, true);
+  });
+});
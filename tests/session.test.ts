@@ -0,0 +1,83 @@
+/**
+ * Session revocation: "sign out everywhere" ends every session issued up
+ * to then and none issued after it, also within the same second (in-memory
+ * and Redis revocation stores)
+ */
+
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+import { RedisRestClient } from "@/lib/redis";
+import { RedisRevocationStore } from "@/lib/services/session-redis.store";
+import {
+  issueSessionToken,
+  revokeSessionToken,
+  revokeUserSessions,
+  setRevocationStore,
+  verifySessionToken,
+} from "@/lib/services/session.service";
+import { RedisStandIn, StandIn, startStandIns } from "./helpers/stand-in";
+
+process.env.SESSION_SECRET = "test-session-secret-0123456789abcdef";
+
+const redis = new RedisStandIn();
+let standIn: StandIn;
+
+before(async () => {
+  standIn = await startStandIns(redis);
+});
+
+after(() => standIn.close());
+
+function signIn(userId: string): Promise<string> {
+  return issueSessionToken({
+    userId,
+    email: `${userId}@example.com`,
+    name: userId,
+    provider: "stand-in",
+  });
+}
+
+// Wait for the clock to move on by a millisecond
+function nextMillisecond(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 2));
+}
+
+for (const store of ["memory", "redis"] as const) {
+  describe(`session revocation (${store})`, () => {
+    before(() => {
+      if (store === "redis") {
+        setRevocationStore(
+          new RedisRevocationStore(
+            new RedisRestClient({
+              url: `${standIn.url}/redis`,
+              token: "",
+              timeoutMs: 2000,
+            }),
+          ),
+        );
+      }
+    });
+
+    test("revokes a single session", async () => {
+      const token = await signIn(`${store}-single`);
+      const other = await signIn(`${store}-single`);
+      await revokeSessionToken(token);
+      assert.equal(await verifySessionToken(token), null);
+      assert.ok(await verifySessionToken(other));
+    });
+
+    test("keeps a sign-in right after revoking every session", async () => {
+      const userId = `${store}-everywhere`;
+      const earlier = await signIn(userId);
+      await nextMillisecond();
+      await revokeUserSessions(userId);
+      await nextMillisecond();
+      // Same second as the revocation, a millisecond later
+      const later = await signIn(userId);
+
+      assert.equal(await verifySessionToken(earlier), null);
+      assert.equal((await verifySessionToken(later))?.userId, userId);
+    });
+  });
+}